@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -11,47 +11,143 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Globe, Loader2 } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Plus, Globe, Loader2, ChevronDown, ChevronRight, Save } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { CrawlCredentialsForm } from "./CrawlCredentialsForm";
+import { TargetKeywordsForm } from "./TargetKeywordsForm";
+import { DEFAULT_CRAWL_SCOPE, type CrawlScope, type Website } from "@shared/schema";
 
 const addWebsiteSchema = z.object({
   name: z.string().min(1, "Name ist erforderlich").max(100, "Name ist zu lang"),
   url: z.string().url("Bitte gib eine gültige URL ein").min(1, "URL ist erforderlich"),
+  includePatterns: z.string(),
+  excludePatterns: z.string(),
+  followSubdomains: z.boolean(),
+  stripAllQueryParams: z.boolean(),
+  stripQueryParams: z.string(),
+  keepQueryParams: z.string(),
+  maxDepth: z.string().regex(/^\d*$/, "Bitte gib eine ganze Zahl ein"),
+  maxUrlLength: z.string().regex(/^\d+$/, "Bitte gib eine ganze Zahl ein"),
+  maxPaginationPage: z.string().regex(/^\d+$/, "Bitte gib eine ganze Zahl ein").refine(
+    value => parseInt(value, 10) >= 1 && parseInt(value, 10) <= 10000,
+    "Bitte gib einen Wert zwischen 1 und 10000 ein"
+  ),
+  mobileParityEnabled: z.boolean(),
+  nearDuplicateThreshold: z.string().regex(/^\d+$/, "Bitte gib eine ganze Zahl ein").refine(
+    value => parseInt(value, 10) >= 60 && parseInt(value, 10) <= 100,
+    "Bitte gib einen Wert zwischen 60 und 100 ein"
+  ),
 });
 
 type AddWebsiteFormData = z.infer<typeof addWebsiteSchema>;
 
 interface AddWebsiteDialogProps {
   trigger?: React.ReactNode;
+  website?: Website;
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value.split(separator).map(entry => entry.trim()).filter(Boolean);
+}
+
+function toFormValues(website?: Website): AddWebsiteFormData {
+  const scope = { ...DEFAULT_CRAWL_SCOPE, ...(website?.crawlScope || {}) };
+  return {
+    name: website?.name || "",
+    url: website?.url || "",
+    includePatterns: scope.includePatterns.join("\n"),
+    excludePatterns: scope.excludePatterns.join("\n"),
+    followSubdomains: scope.followSubdomains,
+    stripAllQueryParams: scope.stripAllQueryParams,
+    stripQueryParams: scope.stripQueryParams.join(", "),
+    keepQueryParams: scope.keepQueryParams.join(", "),
+    maxDepth: scope.maxDepth === null ? "" : String(scope.maxDepth),
+    maxUrlLength: String(scope.maxUrlLength),
+    maxPaginationPage: String(scope.maxPaginationPage),
+    mobileParityEnabled: website?.mobileParityEnabled ?? false,
+    nearDuplicateThreshold: String(website?.nearDuplicateThreshold ?? 90),
+  };
+}
+
+function toCrawlScope(data: AddWebsiteFormData): CrawlScope {
+  return {
+    includePatterns: splitList(data.includePatterns, /\n/),
+    excludePatterns: splitList(data.excludePatterns, /\n/),
+    followSubdomains: data.followSubdomains,
+    stripAllQueryParams: data.stripAllQueryParams,
+    stripQueryParams: splitList(data.stripQueryParams, /[,\n]/),
+    keepQueryParams: splitList(data.keepQueryParams, /[,\n]/),
+    maxDepth: data.maxDepth === "" ? null : parseInt(data.maxDepth, 10),
+    maxUrlLength: parseInt(data.maxUrlLength, 10),
+    maxPaginationPage: parseInt(data.maxPaginationPage, 10),
+  };
 }
 
-export function AddWebsiteDialog({ trigger }: AddWebsiteDialogProps) {
-  const [open, setOpen] = useState(false);
+export function AddWebsiteDialog({ trigger, website, open: controlledOpen, onOpenChange }: AddWebsiteDialogProps) {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const [showScope, setShowScope] = useState(!!website);
   const { toast } = useToast();
+  const isEditing = !!website;
+  const open = controlledOpen ?? uncontrolledOpen;
+  const setOpen = onOpenChange ?? setUncontrolledOpen;
 
   const form = useForm<AddWebsiteFormData>({
     resolver: zodResolver(addWebsiteSchema),
-    defaultValues: {
-      name: "",
-      url: "",
-    },
+    defaultValues: toFormValues(website),
   });
 
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormValues(website));
+      setShowScope(!!website);
+    }
+  }, [open, website]);
+
+  const stripAllQueryParams = form.watch("stripAllQueryParams");
+
   const mutation = useMutation({
     mutationFn: async (data: AddWebsiteFormData) => {
-      return apiRequest("POST", "/api/websites", data);
+      const crawlScope = toCrawlScope(data);
+      const { mobileParityEnabled } = data;
+      const nearDuplicateThreshold = parseInt(data.nearDuplicateThreshold, 10);
+      if (isEditing) {
+        return apiRequest("PATCH", `/api/websites/${website.id}`, {
+          name: data.name,
+          crawlScope,
+          mobileParityEnabled,
+          nearDuplicateThreshold,
+        });
+      }
+      return apiRequest("POST", "/api/websites", {
+        name: data.name,
+        url: data.url,
+        crawlScope,
+        mobileParityEnabled,
+        nearDuplicateThreshold,
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/websites"] });
       toast({
-        title: "Website hinzugefügt",
-        description: "Deine Website wurde erfolgreich hinzugefügt.",
+        title: isEditing ? "Einstellungen gespeichert" : "Website hinzugefügt",
+        description: isEditing
+          ? "Die Crawl-Einstellungen gelten ab dem nächsten Audit."
+          : "Deine Website wurde erfolgreich hinzugefügt.",
       });
       form.reset();
       setOpen(false);
@@ -59,7 +155,9 @@ export function AddWebsiteDialog({ trigger }: AddWebsiteDialogProps) {
     onError: (error: Error) => {
       toast({
         title: "Fehler",
-        description: error.message || "Website konnte nicht hinzugefügt werden",
+        description: error.message || (isEditing
+          ? "Einstellungen konnten nicht gespeichert werden"
+          : "Website konnte nicht hinzugefügt werden"),
         variant: "destructive",
       });
     },
@@ -71,22 +169,26 @@ export function AddWebsiteDialog({ trigger }: AddWebsiteDialogProps) {
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogTrigger asChild>
-        {trigger || (
-          <Button data-testid="button-add-website">
-            <Plus className="h-4 w-4 mr-2" />
-            Website hinzufügen
-          </Button>
-        )}
-      </DialogTrigger>
-      <DialogContent className="sm:max-w-md" data-testid="dialog-add-website">
+      {!isEditing && (
+        <DialogTrigger asChild>
+          {trigger || (
+            <Button data-testid="button-add-website">
+              <Plus className="h-4 w-4 mr-2" />
+              Website hinzufügen
+            </Button>
+          )}
+        </DialogTrigger>
+      )}
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto" data-testid="dialog-add-website">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Globe className="h-5 w-5" />
-            Website hinzufügen
+            {isEditing ? "Website-Einstellungen" : "Website hinzufügen"}
           </DialogTitle>
           <DialogDescription>
-            Gib die Details der Website ein, die du überwachen und optimieren möchtest.
+            {isEditing
+              ? "Lege fest, welche Seiten der Crawler bei Audits dieser Website besucht."
+              : "Gib die Details der Website ein, die du überwachen und optimieren möchtest."}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
@@ -118,6 +220,7 @@ export function AddWebsiteDialog({ trigger }: AddWebsiteDialogProps) {
                     <Input
                       placeholder="https://example.com"
                       type="url"
+                      disabled={isEditing}
                       {...field}
                       data-testid="input-website-url"
                     />
@@ -126,6 +229,176 @@ export function AddWebsiteDialog({ trigger }: AddWebsiteDialogProps) {
                 </FormItem>
               )}
             />
+            <Collapsible open={showScope} onOpenChange={setShowScope}>
+              <CollapsibleTrigger asChild>
+                <Button type="button" variant="ghost" size="sm" className="px-0" data-testid="button-toggle-crawl-scope">
+                  {showScope ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                  Crawl-Einstellungen
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-4 pt-2">
+                <FormField
+                  control={form.control}
+                  name="includePatterns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nur diese Pfade crawlen</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder="/blog/**" rows={2} {...field} data-testid="input-include-patterns" />
+                      </FormControl>
+                      <FormDescription>
+                        Ein Muster pro Zeile. * gilt innerhalb eines Pfadsegments, ** über mehrere. Mit „regex:" beginnende Zeilen sind reguläre Ausdrücke.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="excludePatterns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Pfade ausschließen</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder={"/warenkorb/**\nregex:/tag/\\d+"} rows={2} {...field} data-testid="input-exclude-patterns" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="followSubdomains"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4">
+                      <div className="space-y-0.5">
+                        <FormLabel>Subdomains einbeziehen</FormLabel>
+                        <FormDescription>z. B. shop.example.com beim Crawl von example.com</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-follow-subdomains" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="stripAllQueryParams"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4">
+                      <div className="space-y-0.5">
+                        <FormLabel>Alle Query-Parameter entfernen</FormLabel>
+                        <FormDescription>URLs mit unterschiedlichen Parametern gelten als eine Seite</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-strip-query-params" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {stripAllQueryParams ? (
+                  <FormField
+                    control={form.control}
+                    name="keepQueryParams"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Diese Parameter behalten</FormLabel>
+                        <FormControl>
+                          <Input placeholder="page, lang" {...field} data-testid="input-keep-query-params" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="stripQueryParams"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Diese Parameter entfernen</FormLabel>
+                        <FormControl>
+                          <Input placeholder="sessionid, sort" {...field} data-testid="input-strip-query-params" />
+                        </FormControl>
+                        <FormDescription>Tracking-Parameter wie utm_*, gclid und fbclid werden immer entfernt.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="maxDepth"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max. Klicktiefe</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} placeholder="Unbegrenzt" {...field} data-testid="input-max-depth" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maxUrlLength"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max. URL-Länge</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={50} {...field} data-testid="input-max-url-length" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="maxPaginationPage"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max. Seitenzahl bei Paginierung</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} {...field} data-testid="input-max-pagination-page" />
+                        </FormControl>
+                        <FormDescription>Spätere Seiten gelten als Crawler-Falle</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="mobileParityEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between gap-4">
+                      <div className="space-y-0.5">
+                        <FormLabel>Mobile Version vergleichen</FormLabel>
+                        <FormDescription>Jede Seite zusätzlich als Smartphone abrufen und mit der Desktop-Version abgleichen</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-mobile-parity" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="nearDuplicateThreshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ähnlichkeit für Beinahe-Duplikate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={60} max={100} {...field} data-testid="input-near-duplicate-threshold" />
+                      </FormControl>
+                      <FormDescription>Seiten, deren Hauptinhalt mindestens so ähnlich ist, werden als Duplikate gemeldet</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CollapsibleContent>
+            </Collapsible>
             <DialogFooter>
               <Button
                 type="button"
@@ -138,7 +411,12 @@ export function AddWebsiteDialog({ trigger }: AddWebsiteDialogProps) {
                 {mutation.isPending ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Hinzufügen...
+                    {isEditing ? "Speichern..." : "Hinzufügen..."}
+                  </>
+                ) : isEditing ? (
+                  <>
+                    <Save className="h-4 w-4 mr-2" />
+                    Speichern
                   </>
                 ) : (
                   <>
@@ -150,6 +428,8 @@ export function AddWebsiteDialog({ trigger }: AddWebsiteDialogProps) {
             </DialogFooter>
           </form>
         </Form>
+        {isEditing && <TargetKeywordsForm websiteId={website.id} />}
+        {isEditing && <CrawlCredentialsForm websiteId={website.id} />}
       </DialogContent>
     </Dialog>
   );
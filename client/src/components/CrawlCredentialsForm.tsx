@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, Loader2, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CrawlCredentials, CrawlCredentialsSummary } from "@shared/schema";
+
+interface CrawlCredentialsFormProps {
+  websiteId: string;
+}
+
+function parsePairs(value: string, separator: string): { name: string; value: string }[] {
+  return value
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const index = line.indexOf(separator);
+      return index > 0
+        ? { name: line.slice(0, index).trim(), value: line.slice(index + 1).trim() }
+        : { name: line, value: "" };
+    });
+}
+
+export function CrawlCredentialsForm({ websiteId }: CrawlCredentialsFormProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [headers, setHeaders] = useState("");
+  const [loginUrl, setLoginUrl] = useState("");
+  const [loginFields, setLoginFields] = useState("");
+  const queryKey = ["/api/websites", websiteId, "credentials"];
+
+  const { data: summary, isLoading } = useQuery<CrawlCredentialsSummary>({ queryKey });
+
+  const resetFields = () => {
+    setUsername("");
+    setPassword("");
+    setHeaders("");
+    setLoginUrl("");
+    setLoginFields("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const credentials: CrawlCredentials = {
+        basicAuth: username ? { username, password } : null,
+        headers: parsePairs(headers, ":"),
+        loginForm: loginUrl ? { url: loginUrl, fields: parsePairs(loginFields, "=") } : null,
+      };
+      return apiRequest("PUT", `/api/websites/${websiteId}/credentials`, credentials);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      resetFields();
+      toast({
+        title: "Zugangsdaten gespeichert",
+        description: "Der nächste Audit crawlt die Website angemeldet.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Zugangsdaten konnten nicht gespeichert werden",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/websites/${websiteId}/credentials`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Zugangsdaten entfernt",
+        description: "Die Website wird wieder ohne Anmeldung gecrawlt.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Zugangsdaten konnten nicht entfernt werden",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasInput = Boolean(username || headers.trim() || loginUrl);
+
+  return (
+    <div className="space-y-4 border-t pt-4" data-testid="form-crawl-credentials">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <KeyRound className="h-4 w-4" />
+            Zugangsdaten für geschützte Seiten
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Werden verschlüsselt gespeichert und nie wieder angezeigt.
+          </p>
+        </div>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : summary?.configured ? (
+          <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">
+            Hinterlegt
+          </Badge>
+        ) : null}
+      </div>
+
+      {summary?.configured && (
+        <div className="flex items-start justify-between gap-4 rounded-md bg-muted/50 p-3 text-xs">
+          <div className="space-y-1 min-w-0">
+            {summary.basicAuthUsername && <p className="truncate">Basic Auth: {summary.basicAuthUsername}</p>}
+            {summary.headerNames.length > 0 && <p className="truncate">Header: {summary.headerNames.join(", ")}</p>}
+            {summary.loginFormUrl && <p className="truncate">Login-Formular: {summary.loginFormUrl}</p>}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => deleteMutation.mutate()}
+            disabled={deleteMutation.isPending}
+            className="text-destructive"
+            data-testid="button-delete-credentials"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Entfernen
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="crawl-basic-user">Basic-Auth-Benutzer</Label>
+          <Input
+            id="crawl-basic-user"
+            autoComplete="off"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            data-testid="input-basic-auth-user"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="crawl-basic-password">Passwort</Label>
+          <Input
+            id="crawl-basic-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-basic-auth-password"
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="crawl-headers">Zusätzliche Header</Label>
+        <Textarea
+          id="crawl-headers"
+          rows={2}
+          placeholder="X-Preview-Token: abc123"
+          value={headers}
+          onChange={(e) => setHeaders(e.target.value)}
+          data-testid="input-crawl-headers"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="crawl-login-url">Login-Formular (POST-Ziel)</Label>
+        <Input
+          id="crawl-login-url"
+          type="url"
+          placeholder="https://staging.example.com/login"
+          value={loginUrl}
+          onChange={(e) => setLoginUrl(e.target.value)}
+          data-testid="input-login-url"
+        />
+        {loginUrl && (
+          <Textarea
+            rows={2}
+            placeholder={"username=crawler\npassword=geheim"}
+            value={loginFields}
+            onChange={(e) => setLoginFields(e.target.value)}
+            data-testid="input-login-fields"
+          />
+        )}
+      </div>
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => saveMutation.mutate()}
+          disabled={!hasInput || saveMutation.isPending}
+          data-testid="button-save-credentials"
+        >
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {summary?.configured ? "Zugangsdaten ersetzen" : "Zugangsdaten speichern"}
+        </Button>
+      </div>
+    </div>
+  );
+}
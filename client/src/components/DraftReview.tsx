@@ -451,13 +451,13 @@ function DraftList({
                     <div>
                       <h4 className="text-sm font-medium mb-2">Original</h4>
                       <div className="bg-muted p-3 rounded-md text-sm">
-                        <code className="text-xs">{draft.currentValue || "Keine Originaldaten"}</code>
+                        <code className="text-xs whitespace-pre-wrap break-words">{draft.currentValue || "Keine Originaldaten"}</code>
                       </div>
                     </div>
                     <div>
                       <h4 className="text-sm font-medium mb-2">Vorschlag ({selectedMode})</h4>
                       <div className="bg-primary/10 p-3 rounded-md text-sm">
-                        <code className="text-xs">{proposalContent || "Kein Vorschlag"}</code>
+                        <code className="text-xs whitespace-pre-wrap break-words">{proposalContent || "Kein Vorschlag"}</code>
                       </div>
                     </div>
                     {draft.reasoning && (
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListTree, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { HeadingOutline as HeadingOutlineData, HeadingProblem, Issue, Page } from "@shared/schema";
+
+const HEADING_ISSUE_TYPES = ["heading_hierarchy", "empty_heading", "styling_heading", "missing_h1", "multiple_h1"];
+
+const problemLabels: Record<HeadingProblem, string> = {
+  skipped_level: "Ebene übersprungen",
+  empty: "Leer",
+  too_long: "Zu lang",
+  repeated: "Wiederholt",
+};
+
+interface HeadingOutlineProps {
+  auditId: string;
+  issues: Issue[];
+}
+
+export function HeadingOutline({ auditId, issues }: HeadingOutlineProps) {
+  const [selectedUrl, setSelectedUrl] = useState<string>();
+  const { data: pages, isLoading: pagesLoading } = useQuery<Page[]>({
+    queryKey: ["/api/audits", auditId, "pages"],
+  });
+
+  const flagged = new Set(issues.filter(issue => HEADING_ISSUE_TYPES.includes(issue.issueType)).map(issue => issue.pageUrl));
+  const sortedPages = (pages || [])
+    .filter(page => page.headings && page.headings.length > 0)
+    .sort((a, b) => Number(flagged.has(b.url)) - Number(flagged.has(a.url)));
+  const url = selectedUrl || sortedPages[0]?.url;
+
+  const { data: outline, isLoading: outlineLoading } = useQuery<HeadingOutlineData>({
+    queryKey: ["/api/audits", auditId, `outline?url=${encodeURIComponent(url || "")}`],
+    enabled: Boolean(url),
+  });
+
+  const problemCount = outline?.nodes.filter(node => node.problems.length > 0 || node.suggestedLevel).length || 0;
+
+  return (
+    <Card data-testid="card-heading-outline">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ListTree className="h-5 w-5" />
+          Überschriften-Gliederung
+        </CardTitle>
+        <CardDescription>
+          Die Überschriften einer Seite in Dokumentreihenfolge, Probleme sind hervorgehoben
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pagesLoading ? (
+          <Skeleton className="h-10" />
+        ) : sortedPages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Für diesen Audit sind keine Überschriften gespeichert.</p>
+        ) : (
+          <Select value={url} onValueChange={setSelectedUrl}>
+            <SelectTrigger data-testid="select-outline-page">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortedPages.map(page => (
+                <SelectItem key={page.id} value={page.url}>
+                  {flagged.has(page.url) ? "⚠ " : ""}{page.url}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {url && (outlineLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => <Skeleton key={i} className="h-6" />)}
+          </div>
+        ) : outline && (
+          <div className="space-y-1" data-testid="list-heading-outline">
+            <p className="text-xs text-muted-foreground">
+              {outline.nodes.length} Überschriften, {problemCount} mit Problemen
+            </p>
+            {outline.nodes.map((node, index) => {
+              const hasProblem = node.problems.length > 0 || node.suggestedLevel !== null;
+              return (
+                <div
+                  key={index}
+                  className={cn(
+                    "flex items-center gap-2 rounded-md px-2 py-1 text-sm",
+                    hasProblem && "bg-orange-500/10 border border-orange-500/20"
+                  )}
+                  style={{ marginLeft: `${(node.level - 1) * 16}px` }}
+                  data-testid={`outline-node-${index}`}
+                >
+                  <Badge variant="outline" className="font-mono text-xs shrink-0">
+                    H{node.level}
+                    {node.suggestedLevel !== null && ` → H${node.suggestedLevel}`}
+                  </Badge>
+                  <span className={cn("truncate", !node.text && "italic text-muted-foreground")}>
+                    {node.text || "(leer)"}
+                  </span>
+                  {node.problems.map(problem => (
+                    <Badge
+                      key={problem}
+                      variant="outline"
+                      className="ml-auto gap-1 shrink-0 text-xs bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20"
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      {problemLabels[problem]}
+                    </Badge>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
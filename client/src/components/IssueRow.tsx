@@ -118,6 +118,17 @@ export function IssueRow({ issue, onApprove, onReject, isLoading }: IssueRowProp
                 </div>
               )}
               
+              {issue.affectedUrls && issue.affectedUrls.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Betroffene Seiten ({issue.affectedUrls.length})</h4>
+                  <ul className="space-y-0.5 max-h-40 overflow-y-auto" data-testid={`list-affected-urls-${issue.id}`}>
+                    {issue.affectedUrls.map(url => (
+                      <li key={url} className="text-xs font-mono text-muted-foreground truncate">{url}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {(issue.currentValue || issue.suggestedValue) && (
                 <div>
                   <h4 className="text-sm font-medium mb-2">Vorgeschlagene Änderung</h4>
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListChecks, Loader2, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RuleConfig, RuleOverrideInput, Severity, Website } from "@shared/schema";
+
+const severityLabels: Record<Severity, string> = {
+  critical: "Kritisch",
+  high: "Hoch",
+  medium: "Mittel",
+  low: "Niedrig",
+};
+
+// Select items cannot carry an empty value, so "no override" gets its own key
+const DEFAULT_SEVERITY = "default";
+
+interface RuleRowProps {
+  websiteId: string;
+  rule: RuleConfig;
+}
+
+function RuleRow({ websiteId, rule }: RuleRowProps) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(rule.enabled);
+  const [severity, setSeverity] = useState<string>(rule.severity || DEFAULT_SEVERITY);
+  const [thresholds, setThresholds] = useState<Record<string, string>>(
+    Object.fromEntries(rule.thresholds.map(threshold => [threshold.key, String(threshold.value)]))
+  );
+  const queryKey = ["/api/websites", websiteId, "rules"];
+
+  const invalidThreshold = Object.values(thresholds).some(value => value === "" || !(Number(value) >= 0));
+  const changed = enabled !== rule.enabled ||
+    severity !== (rule.severity || DEFAULT_SEVERITY) ||
+    rule.thresholds.some(threshold => Number(thresholds[threshold.key]) !== threshold.value);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const override: RuleOverrideInput = {
+        enabled,
+        severity: severity === DEFAULT_SEVERITY ? null : severity as Severity,
+        thresholds: Object.fromEntries(Object.entries(thresholds).map(([key, value]) => [key, Number(value)])),
+      };
+      return apiRequest("PUT", `/api/websites/${websiteId}/rules/${rule.id}`, override);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Regel gespeichert",
+        description: `„${rule.name}" gilt ab dem nächsten Audit.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Regel konnte nicht gespeichert werden",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/websites/${websiteId}/rules/${rule.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: "Regel zurückgesetzt",
+        description: `„${rule.name}" nutzt wieder die Standardwerte.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Regel konnte nicht zurückgesetzt werden",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 rounded-md border p-4" data-testid={`rule-${rule.id}`}>
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-0.5 min-w-0">
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`rule-enabled-${rule.id}`}>{rule.name}</Label>
+            <Badge variant="secondary" className="text-xs">{rule.category}</Badge>
+            {rule.overridden && (
+              <Badge variant="outline" className="text-xs">Angepasst</Badge>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">{rule.description}</p>
+          <p className="text-xs text-muted-foreground font-mono">{rule.id} · v{rule.version}</p>
+        </div>
+        <Switch
+          id={`rule-enabled-${rule.id}`}
+          checked={enabled}
+          onCheckedChange={setEnabled}
+          data-testid={`switch-rule-${rule.id}`}
+        />
+      </div>
+
+      {enabled && (
+        <div className="grid sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Schweregrad</Label>
+            <Select value={severity} onValueChange={setSeverity}>
+              <SelectTrigger data-testid={`select-rule-severity-${rule.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_SEVERITY}>
+                  Standard ({severityLabels[rule.defaultSeverity]})
+                </SelectItem>
+                {(Object.keys(severityLabels) as Severity[]).map(value => (
+                  <SelectItem key={value} value={value}>{severityLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {rule.thresholds.map(threshold => (
+            <div key={threshold.key} className="space-y-2">
+              <Label htmlFor={`rule-${rule.id}-${threshold.key}`}>
+                {threshold.label}{threshold.unit ? ` (${threshold.unit})` : ""}
+              </Label>
+              <Input
+                id={`rule-${rule.id}-${threshold.key}`}
+                type="number"
+                min={0}
+                placeholder={String(threshold.defaultValue)}
+                value={thresholds[threshold.key]}
+                onChange={(e) => setThresholds({ ...thresholds, [threshold.key]: e.target.value })}
+                data-testid={`input-rule-${rule.id}-${threshold.key}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {rule.overridden && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => resetMutation.mutate()}
+            disabled={resetMutation.isPending}
+            data-testid={`button-reset-rule-${rule.id}`}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Zurücksetzen
+          </Button>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => saveMutation.mutate()}
+          disabled={!changed || invalidThreshold || saveMutation.isPending}
+          data-testid={`button-save-rule-${rule.id}`}
+        >
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Speichern
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function RuleSettingsCard() {
+  const [selectedWebsiteId, setSelectedWebsiteId] = useState<string>();
+  const { data: websites } = useQuery<Website[]>({ queryKey: ["/api/websites"] });
+  const websiteId = selectedWebsiteId || websites?.[0]?.id;
+
+  const { data: rules, isLoading } = useQuery<RuleConfig[]>({
+    queryKey: ["/api/websites", websiteId, "rules"],
+    enabled: Boolean(websiteId),
+  });
+
+  return (
+    <Card data-testid="card-rule-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Analyse-Regeln
+        </CardTitle>
+        <CardDescription>
+          Lege pro Website fest, welche Prüfungen laufen und ab wann sie anschlagen
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!websites?.length ? (
+          <p className="text-sm text-muted-foreground">
+            Füge eine Website hinzu, um ihre Regeln anzupassen.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Website</Label>
+              <Select value={websiteId} onValueChange={setSelectedWebsiteId}>
+                <SelectTrigger data-testid="select-rule-website">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {websites.map(website => (
+                    <SelectItem key={website.id} value={website.id}>{website.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {rules?.map(rule => (
+                  // Remount after saving so the row starts from the stored values
+                  <RuleRow key={`${websiteId}-${rule.id}-${JSON.stringify(rule)}`} websiteId={websiteId!} rule={rule} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
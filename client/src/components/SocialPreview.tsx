@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Share2, AlertTriangle, ImageOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Issue, Page } from "@shared/schema";
+
+const SOCIAL_ISSUE_TYPES = ["missing_social_tags", "social_tag_mismatch", "broken_social_image", "social_image_size"];
+
+interface SocialPreviewProps {
+  auditId: string;
+  issues: Issue[];
+}
+
+interface CardData {
+  title: string;
+  description: string;
+  image?: string;
+  domain: string;
+}
+
+function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function resolveImage(image: string | undefined, base: string): string | undefined {
+  if (!image) return undefined;
+  try {
+    return new URL(image, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+function PreviewImage({ src, className }: { src?: string; className: string }) {
+  const [failed, setFailed] = useState(false);
+  if (!src || failed) {
+    return (
+      <div className={cn("flex items-center justify-center bg-muted text-muted-foreground", className)}>
+        <ImageOff className="h-6 w-6" />
+      </div>
+    );
+  }
+  return <img src={src} alt="" className={cn("object-cover", className)} onError={() => setFailed(true)} />;
+}
+
+function FacebookCard({ card }: { card: CardData }) {
+  return (
+    <div className="overflow-hidden rounded-md border bg-card" data-testid="preview-facebook">
+      <PreviewImage src={card.image} className="aspect-[1.91/1] w-full" />
+      <div className="space-y-0.5 bg-muted/50 px-3 py-2">
+        <p className="text-xs uppercase text-muted-foreground">{card.domain}</p>
+        <p className="line-clamp-2 text-sm font-semibold">{card.title}</p>
+        {card.description && <p className="line-clamp-1 text-xs text-muted-foreground">{card.description}</p>}
+      </div>
+    </div>
+  );
+}
+
+function LinkedInCard({ card }: { card: CardData }) {
+  return (
+    <div className="overflow-hidden rounded-md border bg-card" data-testid="preview-linkedin">
+      <PreviewImage src={card.image} className="aspect-[1.91/1] w-full" />
+      <div className="space-y-0.5 px-3 py-2">
+        <p className="line-clamp-2 text-sm font-semibold">{card.title}</p>
+        <p className="text-xs text-muted-foreground">{card.domain}</p>
+      </div>
+    </div>
+  );
+}
+
+function XCard({ card, large }: { card: CardData; large: boolean }) {
+  if (large) {
+    return (
+      <div className="relative overflow-hidden rounded-xl border" data-testid="preview-x">
+        <PreviewImage src={card.image} className="aspect-[1.91/1] w-full" />
+        <span className="absolute bottom-2 left-2 max-w-[90%] truncate rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+          {card.title}
+        </span>
+        <p className="px-3 py-1.5 text-xs text-muted-foreground">Von {card.domain}</p>
+      </div>
+    );
+  }
+  return (
+    <div className="flex overflow-hidden rounded-xl border" data-testid="preview-x">
+      <PreviewImage src={card.image} className="h-24 w-24 shrink-0 border-r" />
+      <div className="min-w-0 space-y-0.5 px-3 py-2">
+        <p className="text-xs text-muted-foreground">{card.domain}</p>
+        <p className="truncate text-sm">{card.title}</p>
+        {card.description && <p className="line-clamp-2 text-xs text-muted-foreground">{card.description}</p>}
+      </div>
+    </div>
+  );
+}
+
+export function SocialPreview({ auditId, issues }: SocialPreviewProps) {
+  const [selectedUrl, setSelectedUrl] = useState<string>();
+  const { data: pages, isLoading } = useQuery<Page[]>({
+    queryKey: ["/api/audits", auditId, "pages"],
+  });
+
+  const socialIssues = issues.filter(issue => SOCIAL_ISSUE_TYPES.includes(issue.issueType));
+  const flagged = new Set(socialIssues.map(issue => issue.pageUrl));
+  const sortedPages = (pages || [])
+    .filter(page => page.social)
+    .sort((a, b) => Number(flagged.has(b.url)) - Number(flagged.has(a.url)));
+  const page = sortedPages.find(entry => entry.url === selectedUrl) || sortedPages[0];
+
+  const og = page?.social?.openGraph || {};
+  const twitter = page?.social?.twitterCard || {};
+  const image = page?.social?.image;
+  const domain = page ? getDomain(og["og:url"] || page.url) : "";
+  // Each network falls back to the page's own title and description when its tags are missing
+  const openGraphCard: CardData = {
+    title: og["og:title"] || page?.title || page?.url || "",
+    description: og["og:description"] || page?.metaDescription || "",
+    image: page ? resolveImage(og["og:image"], page.url) : undefined,
+    domain,
+  };
+  const xCard: CardData = {
+    title: twitter["twitter:title"] || openGraphCard.title,
+    description: twitter["twitter:description"] || openGraphCard.description,
+    image: page ? resolveImage(twitter["twitter:image"], page.url) || openGraphCard.image : undefined,
+    domain,
+  };
+  const pageIssues = socialIssues.filter(issue => issue.pageUrl === page?.url);
+
+  return (
+    <Card data-testid="card-social-preview">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Share2 className="h-5 w-5" />
+          Social-Media-Vorschau
+        </CardTitle>
+        <CardDescription>
+          So erscheint ein geteilter Link auf Facebook, LinkedIn und X
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-10" />
+        ) : sortedPages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Für diesen Audit sind keine Social-Media-Tags gespeichert.</p>
+        ) : (
+          <Select value={page?.url} onValueChange={setSelectedUrl}>
+            <SelectTrigger data-testid="select-social-page">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sortedPages.map(entry => (
+                <SelectItem key={entry.id} value={entry.url}>
+                  {flagged.has(entry.url) ? "⚠ " : ""}{entry.url}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {page && (
+          <>
+            {(pageIssues.length > 0 || image) && (
+              <div className="flex flex-wrap gap-2" data-testid="list-social-warnings">
+                {image && !image.error && image.width && image.height && (
+                  <Badge variant="outline" className="font-mono text-xs">
+                    og:image {image.width}×{image.height}px
+                  </Badge>
+                )}
+                {pageIssues.map(issue => (
+                  <Badge
+                    key={issue.id}
+                    variant="outline"
+                    className="gap-1 text-xs bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20"
+                    title={issue.description || undefined}
+                  >
+                    <AlertTriangle className="h-3 w-3" />
+                    {issue.title}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">Facebook</p>
+                <FacebookCard card={openGraphCard} />
+              </div>
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">LinkedIn</p>
+                <LinkedInCard card={openGraphCard} />
+              </div>
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">X</p>
+                <XCard card={xCard} large={twitter["twitter:card"] === "summary_large_image"} />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
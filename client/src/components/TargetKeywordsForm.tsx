@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Target, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { KeywordSuggestion, TargetKeyword, TargetKeywordInput } from "@shared/schema";
+
+interface TargetKeywordsFormProps {
+  websiteId: string;
+}
+
+function getPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+export function TargetKeywordsForm({ websiteId }: TargetKeywordsFormProps) {
+  const { toast } = useToast();
+  const [keyword, setKeyword] = useState("");
+  const [pageUrl, setPageUrl] = useState("");
+  const queryKey = ["/api/websites", websiteId, "keywords"];
+  const suggestionsKey = ["/api/websites", websiteId, "keywords", "suggestions"];
+
+  const { data: keywords, isLoading } = useQuery<TargetKeyword[]>({ queryKey });
+  const { data: suggestions } = useQuery<KeywordSuggestion[]>({ queryKey: suggestionsKey });
+
+  const addMutation = useMutation({
+    mutationFn: async (input: TargetKeywordInput) => apiRequest("POST", `/api/websites/${websiteId}/keywords`, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setKeyword("");
+      setPageUrl("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Keyword konnte nicht gespeichert werden",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/websites/${websiteId}/keywords/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Fehler",
+        description: error.message || "Keyword konnte nicht entfernt werden",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addKeyword = () => {
+    if (keyword.trim().length < 2) return;
+    addMutation.mutate({ keyword: keyword.trim(), pageUrl: pageUrl.trim() || null });
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4" data-testid="form-target-keywords">
+      <div className="space-y-0.5">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Target className="h-4 w-4" />
+          Ziel-Keywords
+        </h4>
+        <p className="text-xs text-muted-foreground">
+          Ohne Seite gilt ein Keyword für die Startseite. Das erste Keyword einer Seite gehört in Titel und H1.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : keywords && keywords.length > 0 ? (
+        <div className="flex flex-wrap gap-2" data-testid="list-target-keywords">
+          {keywords.map(entry => (
+            <Badge key={entry.id} variant="secondary" className="gap-1 max-w-full">
+              <span className="truncate">{entry.keyword}</span>
+              <span className="text-muted-foreground truncate">
+                {entry.pageUrl ? getPath(entry.pageUrl) : "Website"}
+              </span>
+              <button
+                type="button"
+                onClick={() => deleteMutation.mutate(entry.id)}
+                disabled={deleteMutation.isPending}
+                aria-label={`${entry.keyword} entfernen`}
+                data-testid={`button-delete-keyword-${entry.id}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">Noch keine Ziel-Keywords hinterlegt.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="target-keyword">Keyword</Label>
+          <Input
+            id="target-keyword"
+            placeholder="laufschuhe damen"
+            value={keyword}
+            onChange={(e) => setKeyword(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addKeyword();
+              }
+            }}
+            data-testid="input-target-keyword"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="target-keyword-page">Seite (optional)</Label>
+          <Input
+            id="target-keyword-page"
+            type="url"
+            placeholder="https://example.com/laufschuhe"
+            value={pageUrl}
+            onChange={(e) => setPageUrl(e.target.value)}
+            data-testid="input-target-keyword-page"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addKeyword}
+          disabled={keyword.trim().length < 2 || addMutation.isPending}
+          data-testid="button-add-keyword"
+        >
+          {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Keyword hinzufügen
+        </Button>
+      </div>
+
+      {suggestions && suggestions.length > 0 && (
+        <div className="space-y-2">
+          <Label>Vorschläge aus dem letzten Audit</Label>
+          <div className="flex flex-wrap gap-2" data-testid="list-keyword-suggestions">
+            {suggestions.slice(0, 20).map(suggestion => (
+              <Button
+                key={`${suggestion.pageUrl} ${suggestion.keyword}`}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-auto py-1 text-xs"
+                title={suggestion.pageUrl}
+                onClick={() => addMutation.mutate({ keyword: suggestion.keyword, pageUrl: suggestion.pageUrl })}
+                disabled={addMutation.isPending}
+                data-testid={`button-suggestion-${suggestion.keyword}`}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {suggestion.keyword}
+                <span className="ml-1 text-muted-foreground">{getPath(suggestion.pageUrl)}</span>
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { HealthScore } from "./HealthScore";
-import { MoreVertical, Play, Trash2, ExternalLink, Globe, AlertCircle, Clock } from "lucide-react";
+import { MoreVertical, Play, Trash2, ExternalLink, Globe, AlertCircle, Clock, SlidersHorizontal } from "lucide-react";
 import type { Website } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -18,11 +18,12 @@ interface WebsiteCardProps {
   website: Website;
   onAudit?: (id: string) => void;
   onDelete?: (id: string) => void;
+  onSettings?: (id: string) => void;
   onClick?: (id: string) => void;
   isLoading?: boolean;
 }
 
-export function WebsiteCard({ website, onAudit, onDelete, onClick, isLoading }: WebsiteCardProps) {
+export function WebsiteCard({ website, onAudit, onDelete, onSettings, onClick, isLoading }: WebsiteCardProps) {
   const faviconUrl = website.faviconUrl || `https://www.google.com/s2/favicons?domain=${new URL(website.url).hostname}&sz=64`;
 
   return (
@@ -74,6 +75,10 @@ export function WebsiteCard({ website, onAudit, onDelete, onClick, isLoading }:
               <ExternalLink className="h-4 w-4 mr-2" />
               Website besuchen
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={(e) => { e.stopPropagation(); onSettings?.(website.id); }}>
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Crawl-Einstellungen
+            </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem 
               onClick={(e) => { e.stopPropagation(); onDelete?.(website.id); }}
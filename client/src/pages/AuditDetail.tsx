@@ -10,6 +10,8 @@ import { SeverityBadge } from "@/components/SeverityBadge";
 import { DiffViewer } from "@/components/DiffViewer";
 import { AgentLogPanel, AuditLifecycleTimeline } from "@/components/AgentLogPanel";
 import { IssueRow } from "@/components/IssueRow";
+import { HeadingOutline } from "@/components/HeadingOutline";
+import { SocialPreview } from "@/components/SocialPreview";
 import {
   Table,
   TableBody,
@@ -285,6 +287,8 @@ export default function AuditDetail() {
                 <TabsTrigger value="all" className="text-xs sm:text-sm">Alle ({issues?.length || 0})</TabsTrigger>
                 <TabsTrigger value="pending" className="text-xs sm:text-sm">Ausstehend ({pendingIssues.length})</TabsTrigger>
                 <TabsTrigger value="critical" className="text-xs sm:text-sm">Kritisch ({audit.criticalCount || 0})</TabsTrigger>
+                <TabsTrigger value="headings" className="text-xs sm:text-sm">Überschriften</TabsTrigger>
+                <TabsTrigger value="social" className="text-xs sm:text-sm">Social</TabsTrigger>
               </TabsList>
             </div>
 
@@ -315,6 +319,12 @@ export default function AuditDetail() {
                 onViewDetails={setSelectedIssue}
               />
             </TabsContent>
+            <TabsContent value="headings" className="mt-4">
+              <HeadingOutline auditId={id} issues={issues || []} />
+            </TabsContent>
+            <TabsContent value="social" className="mt-4">
+              <SocialPreview auditId={id} issues={issues || []} />
+            </TabsContent>
           </Tabs>
         </div>
 
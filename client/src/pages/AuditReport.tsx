@@ -21,8 +21,12 @@ import {
   Zap,
   Sparkles,
   Loader2,
+  Map as MapIcon,
+  ShieldCheck,
+  Unlink,
+  GitMerge,
 } from "lucide-react";
-import type { Audit, Issue, Website } from "@shared/schema";
+import type { Audit, Issue, Website, SitemapCoverage, LinkCheckSummary, CanonicalReport, CanonicalSelection } from "@shared/schema";
 import { DraftReview, DraftStats } from "@/components/DraftReview";
 import { ModeBadge } from "@/components/OptimizationModeSelector";
 import { format } from "date-fns";
@@ -49,6 +53,9 @@ interface ReportData {
   topIssues: Issue[];
   allIssues: Issue[];
   imageStats?: ImageStats | null;
+  sitemapCoverage?: SitemapCoverage | null;
+  linkCheck?: LinkCheckSummary | null;
+  canonicalReport?: CanonicalReport | null;
 }
 
 function ScoreComparison({ before, after }: { before: number; after: number }) {
@@ -281,6 +288,267 @@ function ImageOptimizationCard({ stats }: { stats: ImageStats }) {
   );
 }
 
+function SitemapCoverageCard({ coverage }: { coverage: SitemapCoverage }) {
+  const coveragePercent = coverage.crawledUrlCount > 0
+    ? Math.round((coverage.crawledInSitemap / coverage.crawledUrlCount) * 100)
+    : 0;
+  const redirectCount = coverage.sitemapRedirects?.length || 0;
+  const problemCount = coverage.sitemapNon200.length + redirectCount + coverage.sitemapNoindex.length + coverage.sitemapCanonicalized.length;
+
+  return (
+    <Card data-testid="card-sitemap-coverage">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MapIcon className="h-5 w-5 text-primary" />
+          Sitemap-Abdeckung
+        </CardTitle>
+        <CardDescription>
+          {coverage.sitemapUrlCount > 0
+            ? `${coverage.sitemapUrlCount} URLs in ${coverage.sitemaps.length} Sitemap-Datei(en)`
+            : "Keine XML-Sitemap gefunden"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold">{coverage.crawledInSitemap}/{coverage.crawledUrlCount}</div>
+            <div className="text-xs text-muted-foreground">Gecrawlte Seiten in Sitemap</div>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold text-orange-600">{coverage.crawledNotInSitemap.length}</div>
+            <div className="text-xs text-muted-foreground">Fehlen in Sitemap</div>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold">{coverage.sitemapNotCrawled}</div>
+            <div className="text-xs text-muted-foreground">Nicht gecrawlt</div>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold text-red-600">{problemCount}</div>
+            <div className="text-xs text-muted-foreground">Fehlerhafte Einträge</div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>Abdeckung</span>
+            <span>{coveragePercent}%</span>
+          </div>
+          <Progress value={coveragePercent} className="h-2" />
+        </div>
+
+        {coverage.sitemaps.length > 0 && (
+          <div className="mt-4 space-y-1">
+            {coverage.sitemaps.map((sitemap) => (
+              <div key={sitemap.url} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate font-mono text-muted-foreground">{sitemap.url}</span>
+                <Badge variant={sitemap.error ? "destructive" : "secondary"} className="flex-shrink-0">
+                  {sitemap.error || `${sitemap.urlCount} ${sitemap.type === "index" ? "Sitemaps" : "URLs"}`}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function BrokenLinksCard({ linkCheck }: { linkCheck: LinkCheckSummary }) {
+  const links = [...linkCheck.brokenLinks].sort((a, b) => Number(b.internal) - Number(a.internal));
+
+  return (
+    <Card data-testid="card-broken-links">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Unlink className="h-5 w-5 text-primary" />
+          Defekte Links
+        </CardTitle>
+        <CardDescription>
+          {linkCheck.internalChecked} interne und {linkCheck.externalChecked} externe Linkziele geprüft
+          {linkCheck.truncated && " (Limit erreicht, nicht alle Ziele geprüft)"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold text-red-600">{linkCheck.brokenInternal}</div>
+            <div className="text-xs text-muted-foreground">Intern defekt</div>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold text-orange-600">{linkCheck.brokenExternal}</div>
+            <div className="text-xs text-muted-foreground">Extern defekt</div>
+          </div>
+        </div>
+
+        {links.length > 0 ? (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {links.map((link) => (
+              <div key={link.url} className="rounded-md border p-3 space-y-1" data-testid={`broken-link-${link.url}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate font-mono text-xs">{link.url}</span>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Badge variant="outline">{link.internal ? "Intern" : "Extern"}</Badge>
+                    <Badge variant="destructive">
+                      {link.statusCode > 0 ? link.statusCode : link.error || "Keine Antwort"}
+                    </Badge>
+                  </div>
+                </div>
+                {link.sources.map((source) => (
+                  <div key={`${source.pageUrl}-${source.anchorText}`} className="text-xs text-muted-foreground truncate">
+                    auf {source.pageUrl} – „{source.anchorText || "ohne Ankertext"}“
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle className="h-4 w-4" />
+            Keine defekten Links gefunden
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const canonicalSelectionLabels: Record<CanonicalSelection, string> = {
+  canonical: "Canonical wird übernommen",
+  redirect_target: "Ziel der Weiterleitung",
+  canonical_ignored: "Canonical wird ignoriert",
+};
+
+function CanonicalClustersCard({ report }: { report: CanonicalReport }) {
+  return (
+    <Card data-testid="card-canonical-clusters">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <GitMerge className="h-5 w-5 text-primary" />
+          Canonical-Cluster
+        </CardTitle>
+        <CardDescription>
+          {report.indexablePages} indexierbare Seiten, {report.clusterCount} Gruppe(n) mit gemeinsamer Canonical-URL
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold">{report.selfCanonical}</div>
+            <div className="text-xs text-muted-foreground">Auf sich selbst</div>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold">{report.canonicalizedElsewhere}</div>
+            <div className="text-xs text-muted-foreground">Auf andere URL</div>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold text-orange-600">{report.missingCanonical}</div>
+            <div className="text-xs text-muted-foreground">Ohne Canonical</div>
+          </div>
+          <div className="text-center p-3 rounded-lg bg-muted/50">
+            <div className="text-2xl font-bold text-red-600">{report.conflictingCanonicals + report.crossDomain}</div>
+            <div className="text-xs text-muted-foreground">Widersprüchlich / fremde Domain</div>
+          </div>
+        </div>
+
+        {report.clusters.length > 0 ? (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {report.clusters.map((cluster) => (
+              <div key={cluster.canonicalUrl} className="rounded-md border p-3 space-y-2" data-testid={`canonical-cluster-${cluster.canonicalUrl}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate font-mono text-xs">{cluster.canonicalUrl}</span>
+                  <Badge
+                    variant={cluster.selection === "canonical_ignored" ? "destructive" : "secondary"}
+                    className="flex-shrink-0"
+                  >
+                    {canonicalSelectionLabels[cluster.selection]}
+                  </Badge>
+                </div>
+                <div className="text-xs">
+                  <span className="text-muted-foreground">Voraussichtlich indexiert: </span>
+                  <span className="font-mono">{cluster.indexedUrl || "keine URL"}</span>
+                </div>
+                {cluster.members.map((member) => (
+                  <div key={member.url} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="truncate text-muted-foreground">{member.url}</span>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      {member.url === cluster.indexedUrl && <Badge variant="outline">Indexiert</Badge>}
+                      {member.statusCode !== 200 && <Badge variant="destructive">{member.statusCode}</Badge>}
+                      {member.noindex && <Badge variant="outline">noindex</Badge>}
+                      {member.inSitemap && <Badge variant="outline">Sitemap</Badge>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle className="h-4 w-4" />
+            Jede Seite ist ihre eigene Canonical-URL
+          </div>
+        )}
+        {report.clusterCount > report.clusters.length && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            {report.clusters.length} von {report.clusterCount} Gruppen angezeigt
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const HEADER_CHECKS: { type: string; label: string }[] = [
+  { type: "missing_compression", label: "Komprimierung (gzip/Brotli)" },
+  { type: "short_cache_lifetime", label: "Cache-Control für statische Dateien" },
+  { type: "missing_hsts", label: "Strict-Transport-Security (HSTS)" },
+  { type: "missing_csp", label: "Content-Security-Policy" },
+  { type: "missing_x_content_type_options", label: "X-Content-Type-Options" },
+  { type: "content_type_charset", label: "Content-Type & Zeichensatz" },
+  { type: "vary_header_issue", label: "Vary-Header" },
+];
+
+function HeaderChecksCard({ issues }: { issues: Issue[] }) {
+  const counts: Record<string, number> = {};
+  issues.forEach(issue => {
+    counts[issue.issueType] = (counts[issue.issueType] || 0) + 1;
+  });
+  const failing = HEADER_CHECKS.filter(check => counts[check.type]).length;
+
+  return (
+    <Card data-testid="card-header-checks">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          HTTP-Header
+        </CardTitle>
+        <CardDescription>
+          {failing === 0
+            ? "Alle Header-Prüfungen bestanden"
+            : `${failing} von ${HEADER_CHECKS.length} Prüfungen mit Auffälligkeiten`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {HEADER_CHECKS.map((check) => (
+          <div key={check.type} className="flex items-center justify-between gap-2 text-sm">
+            <span>{check.label}</span>
+            {counts[check.type] ? (
+              <Badge variant="secondary" className="bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200 flex-shrink-0">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {counts[check.type]} {counts[check.type] === 1 ? "Issue" : "Issues"}
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 flex-shrink-0">
+                <CheckCircle className="h-3 w-3 mr-1" />
+                OK
+              </Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function AuditReport() {
   const { id } = useParams<{ id: string }>();
   const { toast } = useToast();
@@ -494,6 +762,9 @@ export default function AuditReport() {
   const topIssues = report?.topIssues ?? [];
   const allIssues = report?.allIssues ?? [];
   const imageStats = report?.imageStats ?? null;
+  const sitemapCoverage = report?.sitemapCoverage ?? null;
+  const linkCheck = report?.linkCheck ?? null;
+  const canonicalReport = report?.canonicalReport ?? null;
   const fixedPercent = totalIssues > 0 ? Math.round((fixedCount / totalIssues) * 100) : 0;
 
   return (
@@ -604,6 +875,14 @@ export default function AuditReport() {
 
       {imageStats && <ImageOptimizationCard stats={imageStats} />}
 
+      {sitemapCoverage && <SitemapCoverageCard coverage={sitemapCoverage} />}
+
+      {linkCheck && <BrokenLinksCard linkCheck={linkCheck} />}
+
+      {canonicalReport && <CanonicalClustersCard report={canonicalReport} />}
+
+      <HeaderChecksCard issues={allIssues} />
+
       <DraftStats auditId={id!} />
 
       <DraftReview auditId={id!} websiteId={audit!.websiteId} isPro={false} />
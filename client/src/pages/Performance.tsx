@@ -13,9 +13,12 @@ import {
   ResponsiveContainer,
   AreaChart,
   Area,
+  BarChart,
+  Bar,
+  Legend,
 } from "recharts";
-import { TrendingUp, TrendingDown, Minus, BarChart3, Target, Zap, Activity } from "lucide-react";
-import type { Website, Audit } from "@shared/schema";
+import { TrendingUp, TrendingDown, Minus, BarChart3, Target, Zap, Activity, Weight } from "lucide-react";
+import type { Website, Audit, PageWeightEntry } from "@shared/schema";
 import { format } from "date-fns";
 
 export default function Performance() {
@@ -46,6 +49,15 @@ export default function Performance() {
       issues: audit.totalIssues || 0,
     })) || [];
 
+  const latestAudit = audits
+    ?.filter((audit) => audit.status === "finalized")
+    .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime())[0];
+
+  const { data: pageWeights, isLoading: weightsLoading } = useQuery<PageWeightEntry[]>({
+    queryKey: ["/api/audits", latestAudit?.id, "page-weights"],
+    enabled: !!latestAudit,
+  });
+
   const isLoading = websitesLoading || auditsLoading;
 
   return (
@@ -209,6 +221,8 @@ export default function Performance() {
         </Card>
       </div>
 
+      <PageWeightCard entries={pageWeights} isLoading={isLoading || (!!latestAudit && weightsLoading)} />
+
       <Card>
         <CardHeader>
           <CardTitle className="text-base">Website Health Overview</CardTitle>
@@ -250,6 +264,97 @@ export default function Performance() {
   );
 }
 
+const WEIGHT_SEGMENTS = [
+  { key: "html", label: "HTML", color: "hsl(var(--chart-1))" },
+  { key: "scripts", label: "Scripts", color: "hsl(var(--chart-3))" },
+  { key: "stylesheets", label: "CSS", color: "hsl(var(--chart-4))" },
+  { key: "fonts", label: "Fonts", color: "hsl(var(--chart-5))" },
+  { key: "images", label: "Images", color: "hsl(var(--chart-2))" },
+  { key: "iframes", label: "Iframes", color: "hsl(var(--muted-foreground))" },
+] as const;
+
+function PageWeightCard({ entries, isLoading }: { entries?: PageWeightEntry[]; isLoading: boolean }) {
+  const heaviest = (entries || []).slice(0, 10);
+  const chartData = heaviest.map((entry) => {
+    const row: Record<string, string | number> = { page: getPath(entry.url) };
+    WEIGHT_SEGMENTS.forEach((segment) => {
+      row[segment.key] = Math.round(entry.weight[segment.key] / 1024);
+    });
+    return row;
+  });
+
+  return (
+    <Card data-testid="card-page-weight">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Weight className="h-4 w-4" />
+          Page Weight Breakdown
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : heaviest.length > 0 ? (
+          <div className="space-y-4">
+            <ResponsiveContainer width="100%" height={Math.max(160, heaviest.length * 36)}>
+              <BarChart data={chartData} layout="vertical" margin={{ left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                <XAxis type="number" unit=" KB" className="text-xs" />
+                <YAxis type="category" dataKey="page" width={160} className="text-xs" />
+                <Tooltip
+                  formatter={(value: number) => `${value} KB`}
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "8px",
+                  }}
+                />
+                <Legend />
+                {WEIGHT_SEGMENTS.map((segment) => (
+                  <Bar key={segment.key} dataKey={segment.key} name={segment.label} stackId="weight" fill={segment.color} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="space-y-2">
+              {heaviest.map((entry) => (
+                <div
+                  key={entry.url}
+                  className="flex items-center justify-between gap-4 text-sm"
+                  data-testid={`page-weight-${entry.url}`}
+                >
+                  <span className="truncate text-muted-foreground">{entry.url}</span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge variant="outline">{entry.weight.requests} requests</Badge>
+                    {entry.weight.renderBlocking > 0 && (
+                      <Badge className="bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20">
+                        {entry.weight.renderBlocking} render-blocking
+                      </Badge>
+                    )}
+                    <span className="font-medium w-20 text-right">{Math.round(entry.weight.total / 1024)} KB</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="h-32 flex items-center justify-center text-muted-foreground">
+            <p className="text-sm">No page weight data available yet</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function getPath(url: string): string {
+  try {
+    const { pathname, search } = new URL(url);
+    return `${pathname}${search}`;
+  } catch {
+    return url;
+  }
+}
+
 function TrendIndicator({ score }: { score: number }) {
   if (score >= 80) {
     return (
@@ -8,6 +8,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
 import { useThemeContext } from "@/components/ThemeProvider";
+import { RuleSettingsCard } from "@/components/RuleSettingsCard";
 import {
   Settings,
   User,
@@ -16,6 +17,7 @@ import {
   Bell,
   Shield,
   Sparkles,
+  ListChecks,
   ExternalLink,
   LogOut,
 } from "lucide-react";
@@ -50,6 +52,7 @@ export default function SettingsPage() {
                   { label: "Darstellung", icon: Sun },
                   { label: "Benachrichtigungen", icon: Bell },
                   { label: "KI-Agenten", icon: Sparkles },
+                  { label: "Analyse-Regeln", icon: ListChecks },
                   { label: "Sicherheit", icon: Shield },
                 ].map((item) => (
                   <Button
@@ -191,6 +194,8 @@ export default function SettingsPage() {
             </CardContent>
           </Card>
 
+          <RuleSettingsCard />
+
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
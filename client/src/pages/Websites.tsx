@@ -24,6 +24,7 @@ import { useLocation } from "wouter";
 export default function Websites() {
   const [searchQuery, setSearchQuery] = useState("");
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [settingsId, setSettingsId] = useState<string | null>(null);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
@@ -76,6 +77,8 @@ export default function Websites() {
     },
   });
 
+  const settingsWebsite = websites?.find((w) => w.id === settingsId);
+
   const filteredWebsites = websites?.filter(
     (w) =>
       w.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -120,6 +123,7 @@ export default function Websites() {
               onClick={(id) => setLocation(`/websites/${id}`)}
               onAudit={(id) => auditMutation.mutate(id)}
               onDelete={(id) => setDeleteId(id)}
+              onSettings={(id) => setSettingsId(id)}
               isLoading={auditMutation.isPending}
             />
           ))}
@@ -155,6 +159,14 @@ export default function Websites() {
         </Card>
       )}
 
+      {settingsWebsite && (
+        <AddWebsiteDialog
+          website={settingsWebsite}
+          open={!!settingsWebsite}
+          onOpenChange={(open) => !open && setSettingsId(null)}
+        />
+      )}
+
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,95 @@
+import type { CrawlCredentials } from "@shared/schema";
+import { CRAWLER_USER_AGENT } from "./robots";
+
+/**
+ * Carries a website's crawl credentials for the length of one crawl. Auth
+ * headers and cookies are only attached to requests on the site's own hosts,
+ * so third-party images and external links never see them.
+ */
+export class CrawlSession {
+  private cookies = new Map<string, string>();
+  private readonly hosts: Set<string>;
+
+  constructor(
+    siteUrl: string,
+    private readonly credentials: CrawlCredentials | null = null
+  ) {
+    this.hosts = new Set([new URL(siteUrl).hostname]);
+    if (credentials?.loginForm) {
+      this.hosts.add(new URL(credentials.loginForm.url).hostname);
+    }
+  }
+
+  get isAuthenticated(): boolean {
+    return Boolean(this.credentials && (
+      this.credentials.basicAuth ||
+      this.credentials.headers.length > 0 ||
+      this.cookies.size > 0
+    ));
+  }
+
+  /** Posts the configured login form and keeps the cookies it sets. */
+  async login(timeoutMs = 15000): Promise<void> {
+    const form = this.credentials?.loginForm;
+    if (!form) return;
+
+    const body = new URLSearchParams();
+    for (const field of form.fields) {
+      body.append(field.name, field.value);
+    }
+
+    const response = await fetch(form.url, {
+      method: "POST",
+      headers: {
+        ...this.headersFor(form.url),
+        "User-Agent": CRAWLER_USER_AGENT,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: body.toString(),
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    await response.body?.cancel().catch(() => {});
+
+    this.storeCookies(response.headers.getSetCookie());
+    if (this.cookies.size === 0) {
+      throw new Error(`Login form at ${form.url} returned HTTP ${response.status} without setting a cookie`);
+    }
+  }
+
+  headersFor(url: string): Record<string, string> {
+    if (!this.credentials || !this.appliesTo(url)) return {};
+
+    const headers: Record<string, string> = {};
+    for (const header of this.credentials.headers) {
+      headers[header.name] = header.value;
+    }
+    if (this.credentials.basicAuth) {
+      const { username, password } = this.credentials.basicAuth;
+      headers["Authorization"] = `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+    }
+    if (this.cookies.size > 0) {
+      headers["Cookie"] = Array.from(this.cookies.entries())
+        .map(([name, value]) => `${name}=${value}`)
+        .join("; ");
+    }
+    return headers;
+  }
+
+  private appliesTo(url: string): boolean {
+    try {
+      return this.hosts.has(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  private storeCookies(setCookieHeaders: string[]) {
+    for (const header of setCookieHeaders) {
+      const [pair] = header.split(";");
+      const separator = pair.indexOf("=");
+      if (separator <= 0) continue;
+      this.cookies.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim());
+    }
+  }
+}
@@ -0,0 +1,433 @@
+import { createHash } from "crypto";
+import { constants, inflateSync } from "zlib";
+import type { CrawlResult, DocumentInfo, DocumentType } from "../types";
+
+// Documents above this are sized but not downloaded in full
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+// Caps the work spent inflating streams of a single PDF
+const MAX_DECODED_BYTES = 30 * 1024 * 1024;
+// Parsing runs on the event loop of the crawl, so it pauses this often to let other requests through
+const PARSE_SLICE_MS = 20;
+// After this long a PDF keeps whatever text was read so far
+const MAX_PARSE_MS = 3000;
+const MAX_BODY_TEXT_LENGTH = 5000;
+
+const DOCUMENT_TYPES: [RegExp, DocumentType][] = [
+  [/^application\/(x-)?pdf\b/, "pdf"],
+  [/^application\/(msword|vnd\.openxmlformats-officedocument\.wordprocessingml|vnd\.oasis\.opendocument\.text)\b/, "word"],
+  [/^application\/(vnd\.ms-excel|vnd\.openxmlformats-officedocument\.spreadsheetml|vnd\.oasis\.opendocument\.spreadsheet)\b/, "spreadsheet"],
+  [/^application\/(vnd\.ms-powerpoint|vnd\.openxmlformats-officedocument\.presentationml|vnd\.oasis\.opendocument\.presentation)\b/, "presentation"],
+  [/^(application|text)\/rtf\b/, "rtf"],
+];
+
+export interface DocumentDownload {
+  body: Buffer;
+  // Content-Length when the body was cut off, otherwise the bytes received
+  size: number;
+  truncated: boolean;
+}
+
+/**
+ * Maps a Content-Type to the document kind the crawler handles instead of
+ * parsing it as HTML. Servers that send PDFs as octet-stream are caught by
+ * the file extension.
+ */
+export function getDocumentType(contentType: string | null, url: string): DocumentType | null {
+  const mime = (contentType || "").toLowerCase().trim();
+  for (const [pattern, type] of DOCUMENT_TYPES) {
+    if (pattern.test(mime)) return type;
+  }
+  if (mime.startsWith("application/octet-stream") && /\.pdf$/i.test(safePathname(url))) return "pdf";
+  return null;
+}
+
+export async function readDocumentBody(response: Response, maxBytes = MAX_DOCUMENT_BYTES): Promise<DocumentDownload> {
+  const declared = parseInt(response.headers.get("content-length") || "", 10);
+  if (!response.body) return { body: Buffer.alloc(0), size: 0, truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let received = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.length;
+    if (received > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return { body: Buffer.concat(chunks), size: Math.max(received, declared || 0), truncated: true };
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return { body: Buffer.concat(chunks), size: received, truncated: false };
+}
+
+/**
+ * Turns a downloaded document into the page fields the analyzers use.
+ * Only PDFs are read; other formats are recorded with their size.
+ */
+export async function describeDocument(
+  type: DocumentType,
+  contentType: string,
+  download: DocumentDownload
+): Promise<Pick<CrawlResult, "document" | "title" | "bodyText" | "wordCount" | "contentHash">> {
+  const document: DocumentInfo = {
+    type,
+    contentType,
+    size: download.size,
+    truncated: download.truncated || undefined,
+  };
+  if (type !== "pdf" || download.truncated) return { document };
+
+  const pdf = await parsePdf(download.body);
+  const text = pdf.text.replace(/\s+/g, " ").trim();
+  Object.assign(document, {
+    title: pdf.title,
+    author: pdf.author,
+    pageCount: pdf.pageCount,
+    textLength: text.length,
+    encrypted: pdf.encrypted || undefined,
+  });
+
+  return {
+    document,
+    title: pdf.title,
+    bodyText: text.slice(0, MAX_BODY_TEXT_LENGTH),
+    wordCount: text ? text.split(" ").length : 0,
+    contentHash: createHash("sha1").update(`${pdf.title || ""}\n${text}`).digest("hex"),
+  };
+}
+
+interface PdfInfo {
+  title?: string;
+  author?: string;
+  pageCount?: number;
+  text: string;
+  encrypted: boolean;
+}
+
+interface PdfStream {
+  dict: string;
+  data: string;
+}
+
+interface ParseClock {
+  deadline: number;
+  sliceStart: number;
+}
+
+// Yields to the event loop once the current slice is used up; false once the parse budget is spent
+async function pause(clock: ParseClock): Promise<boolean> {
+  const now = Date.now();
+  if (now > clock.deadline) return false;
+  if (now - clock.sliceStart >= PARSE_SLICE_MS) {
+    await new Promise<void>(resolve => setImmediate(resolve));
+    clock.sliceStart = Date.now();
+  }
+  return true;
+}
+
+/**
+ * Reads metadata, page count and visible text from a PDF without a PDF
+ * library. Handles uncompressed and Flate streams, object streams and
+ * ToUnicode maps; anything fancier yields less text, never an error. Parsing
+ * pauses between slices of work and gives up after MAX_PARSE_MS.
+ */
+export async function parsePdf(body: Buffer): Promise<PdfInfo> {
+  const raw = body.toString("latin1");
+  if (!raw.slice(0, 1024).includes("%PDF-")) return { text: "", encrypted: false };
+
+  const clock: ParseClock = { deadline: Date.now() + MAX_PARSE_MS, sliceStart: Date.now() };
+  const encrypted = /\/Encrypt\s+\d+\s+\d+\s+R/.test(raw);
+  const streams = await readStreams(raw, clock);
+  const objects = [raw, ...readObjectStreams(streams)].join("\n");
+
+  const pageObjects = objects.match(/\/Type\s*\/Page(?![A-Za-z])/g);
+  const counts = (objects.match(/\/Type\s*\/Pages[\s\S]{0,200}?\/Count\s+(\d+)/g) || [])
+    .map(match => parseInt(match.replace(/[\s\S]*\/Count\s+/, ""), 10));
+  const pageCount = pageObjects ? pageObjects.length : counts.length > 0 ? Math.max(...counts) : undefined;
+
+  // Strings in encrypted files are ciphertext; the XMP packet may still be readable
+  const info = encrypted ? undefined : findInfoDictionary(raw, objects);
+  const title = (info && readDictString(info, "Title")) || readXmpValue(objects, "title");
+  const author = (info && readDictString(info, "Author")) || readXmpValue(objects, "creator");
+
+  return {
+    title: title?.trim() || undefined,
+    author: author?.trim() || undefined,
+    pageCount,
+    text: encrypted ? "" : await extractText(streams, clock),
+    encrypted,
+  };
+}
+
+async function readStreams(raw: string, clock: ParseClock): Promise<PdfStream[]> {
+  const streams: PdfStream[] = [];
+  const pattern = /(?:^|[^d])stream\r?\n/g;
+  let decodedBytes = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw)) !== null) {
+    if (!(await pause(clock))) break;
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end === -1) break;
+    pattern.lastIndex = end + "endstream".length;
+
+    const objStart = raw.lastIndexOf(" obj", match.index);
+    const dict = raw.slice(objStart === -1 ? Math.max(0, match.index - 1000) : objStart, match.index + 1);
+    if (/\/Subtype\s*\/Image/.test(dict)) continue;
+
+    const filters = (dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/) || [])[1] || "";
+    const data = raw.slice(start, end).replace(/\r?\n$/, "");
+    let decoded: string | null = null;
+    if (!filters) {
+      decoded = data;
+    } else if (filters.replace(/[\[\]\s]/g, "") === "/FlateDecode") {
+      try {
+        // Capping the output keeps a small compression bomb from filling memory
+        decoded = inflateSync(Buffer.from(data, "latin1"), {
+          finishFlush: constants.Z_SYNC_FLUSH,
+          maxOutputLength: MAX_DECODED_BYTES - decodedBytes,
+        }).toString("latin1");
+      } catch (error) {
+        // The stream inflates beyond what is left of the budget, so the rest of the document is skipped
+        if (error instanceof RangeError) break;
+        decoded = null;
+      }
+    }
+    if (decoded === null) continue;
+
+    decodedBytes += decoded.length;
+    if (decodedBytes > MAX_DECODED_BYTES) break;
+    streams.push({ dict, data: decoded });
+  }
+  return streams;
+}
+
+// Objects packed into /ObjStm streams, as "N 0 obj ... endobj" so lookups work uniformly
+function readObjectStreams(streams: PdfStream[]): string[] {
+  const objects: string[] = [];
+  for (const stream of streams) {
+    if (!/\/Type\s*\/ObjStm/.test(stream.dict)) continue;
+    const first = parseInt((stream.dict.match(/\/First\s+(\d+)/) || [])[1] || "", 10);
+    if (isNaN(first)) continue;
+
+    const header = stream.data.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i + 1 < header.length; i += 2) {
+      const from = first + header[i + 1];
+      const to = i + 3 < header.length ? first + header[i + 3] : stream.data.length;
+      objects.push(`${header[i]} 0 obj\n${stream.data.slice(from, to)}\nendobj`);
+    }
+  }
+  return objects;
+}
+
+function findInfoDictionary(raw: string, objects: string): string | undefined {
+  const ref = raw.match(/\/Info\s+(\d+)\s+(\d+)\s+R/g);
+  if (!ref) return undefined;
+  // Incremental updates append a newer trailer; the last one wins
+  const objectNumber = ref[ref.length - 1].match(/\/Info\s+(\d+)/)![1];
+  const start = objects.search(new RegExp(`(^|[^0-9])${objectNumber}\\s+\\d+\\s+obj`));
+  if (start === -1) return undefined;
+  const end = objects.indexOf("endobj", start);
+  return objects.slice(start, end === -1 ? start + 4000 : end);
+}
+
+function readDictString(dict: string, key: string): string | undefined {
+  const match = new RegExp(`\\/${key}\\s*([(<])`).exec(dict);
+  if (!match) return undefined;
+  const start = match.index + match[0].length - 1;
+  const bytes = match[1] === "(" ? readLiteralString(dict, start).bytes : readHexString(dict, start).bytes;
+  return decodePdfString(bytes);
+}
+
+function readXmpValue(objects: string, element: string): string | undefined {
+  const block = new RegExp(`<dc:${element}>([\\s\\S]*?)</dc:${element}>`).exec(objects);
+  if (!block) return undefined;
+  const value = /<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/.exec(block[1]);
+  const text = (value ? value[1] : block[1]).replace(/<[^>]+>/g, "").trim();
+  return text ? decodeXmlEntities(Buffer.from(text, "latin1").toString("utf8")) : undefined;
+}
+
+async function extractText(streams: PdfStream[], clock: ParseClock): Promise<string> {
+  const unicode = await readToUnicodeMaps(streams, clock);
+  const parts: string[] = [];
+
+  for (const stream of streams) {
+    if (/\/Type\s*\/(ObjStm|XRef|Metadata)/.test(stream.dict) || !stream.data.includes("BT")) continue;
+    const blocks = stream.data.match(/\bBT\b[\s\S]*?\bET\b/g) || [];
+    for (const block of blocks) {
+      if (!(await pause(clock))) return parts.join(" ");
+      parts.push(readTextBlock(block, unicode));
+    }
+  }
+  return parts.join(" ");
+}
+
+// Walks the operands of one BT...ET block and keeps what Tj, TJ, ' and " would draw
+function readTextBlock(block: string, unicode: Map<string, string>): string {
+  let text = "";
+  let i = 0;
+  while (i < block.length) {
+    const char = block[i];
+    if (char === "(") {
+      const { bytes, end } = readLiteralString(block, i);
+      text += decodeShownBytes(bytes, unicode);
+      i = end;
+    } else if (char === "<" && block[i + 1] !== "<") {
+      const { bytes, end } = readHexString(block, i);
+      text += decodeShownBytes(bytes, unicode);
+      i = end;
+    } else if (char === "-" || (char >= "0" && char <= "9")) {
+      const number = /^-?\d*\.?\d+/.exec(block.slice(i, i + 20));
+      // Large negative kerning inside a TJ array is how PDFs draw a word gap
+      if (number && parseFloat(number[0]) < -200) text += " ";
+      i += number ? number[0].length : 1;
+    } else if (/^(T[dD*m]|'|")/.test(block.slice(i, i + 2)) && /\s/.test(block[i - 1] || " ")) {
+      text += " ";
+      i++;
+    } else {
+      i++;
+    }
+  }
+  return text;
+}
+
+async function readToUnicodeMaps(streams: PdfStream[], clock: ParseClock): Promise<Map<string, string>> {
+  const map = new Map<string, string>();
+  for (const stream of streams) {
+    if (!stream.data.includes("begincmap")) continue;
+    if (!(await pause(clock))) break;
+
+    const chars = /beginbfchar([\s\S]*?)endbfchar/g;
+    let section: RegExpExecArray | null;
+    while ((section = chars.exec(stream.data)) !== null) {
+      const pairs = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g;
+      let pair: RegExpExecArray | null;
+      while ((pair = pairs.exec(section[1])) !== null) {
+        map.set(pair[1].toLowerCase(), utf16HexToString(pair[2]));
+      }
+    }
+
+    const ranges = /beginbfrange([\s\S]*?)endbfrange/g;
+    while ((section = ranges.exec(stream.data)) !== null) {
+      const entries = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g;
+      let entry: RegExpExecArray | null;
+      while ((entry = entries.exec(section[1])) !== null) {
+        if (!(await pause(clock))) return map;
+        const low = parseInt(entry[1], 16);
+        const high = Math.min(parseInt(entry[2], 16), low + 0xffff);
+        const base = parseInt(entry[3], 16);
+        for (let code = low; code <= high; code++) {
+          map.set(code.toString(16).padStart(entry[1].length, "0"), String.fromCharCode(base + code - low));
+        }
+      }
+    }
+  }
+  return map;
+}
+
+function decodeShownBytes(bytes: number[], unicode: Map<string, string>): string {
+  if (unicode.size === 0) return Buffer.from(bytes).toString("latin1");
+
+  // Fonts with a ToUnicode map mostly use two-byte codes (Identity-H)
+  const hex = bytes.map(byte => byte.toString(16).padStart(2, "0")).join("");
+  let text = "";
+  for (let i = 0; i < hex.length;) {
+    const double = unicode.get(hex.slice(i, i + 4));
+    if (double !== undefined && i + 4 <= hex.length) {
+      text += double;
+      i += 4;
+      continue;
+    }
+    const single = unicode.get(hex.slice(i, i + 2));
+    text += single !== undefined ? single : String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+    i += 2;
+  }
+  return text;
+}
+
+function readLiteralString(source: string, start: number): { bytes: number[]; end: number } {
+  const bytes: number[] = [];
+  let depth = 0;
+  let i = start;
+  for (; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      const next = source[++i];
+      const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+      if (next in escapes) bytes.push(escapes[next]);
+      else if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(source.slice(i, i + 3))![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += octal.length - 1;
+      } else if (next === "\r" || next === "\n") {
+        if (next === "\r" && source[i + 1] === "\n") i++;
+      } else if (next !== undefined) {
+        bytes.push(next.charCodeAt(0));
+      }
+      continue;
+    }
+    if (char === "(") {
+      depth++;
+      if (depth === 1) continue;
+    } else if (char === ")") {
+      depth--;
+      if (depth === 0) return { bytes, end: i + 1 };
+    }
+    bytes.push(char.charCodeAt(0) & 0xff);
+  }
+  return { bytes, end: i };
+}
+
+function readHexString(source: string, start: number): { bytes: number[]; end: number } {
+  const end = source.indexOf(">", start);
+  const hex = source.slice(start + 1, end === -1 ? source.length : end).replace(/[^0-9a-fA-F]/g, "");
+  const padded = hex.length % 2 === 0 ? hex : `${hex}0`;
+  const bytes: number[] = [];
+  for (let i = 0; i < padded.length; i += 2) {
+    bytes.push(parseInt(padded.slice(i, i + 2), 16));
+  }
+  return { bytes, end: end === -1 ? source.length : end + 1 };
+}
+
+// Text strings are UTF-16BE with a byte order mark, otherwise PDFDocEncoding (close enough to Latin-1)
+function decodePdfString(bytes: number[]): string {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return Buffer.from(bytes.slice(3)).toString("utf8");
+  }
+  return Buffer.from(bytes).toString("latin1");
+}
+
+function utf16HexToString(hex: string): string {
+  let text = "";
+  for (let i = 0; i + 3 < hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  return text || String.fromCharCode(parseInt(hex, 16));
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+function safePathname(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,111 @@
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 64;
+// 16 bands of 4 rows make pairs above ~70% similarity near-certain candidates
+const BANDS = 16;
+const ROWS = SIGNATURE_SIZE / BANDS;
+// Shorter texts share too much boilerplate for their similarity to mean anything
+const MIN_WORDS = 30;
+
+// Letters and digits of every script count as word characters. Built with RegExp
+// because the type-check target does not accept the "u" flag on literals
+const WORD_SEPARATOR = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+export interface SimilarPair {
+  // Indexes into the fingerprints passed to findSimilarPairs
+  a: number;
+  b: number;
+  // Estimated Jaccard similarity of the word shingles, 0 to 1
+  similarity: number;
+}
+
+export function splitWords(text: string): string[] {
+  return text.toLowerCase().split(WORD_SEPARATOR).filter(Boolean);
+}
+
+/**
+ * MinHash signature over 5-word shingles of a page's main content, encoded
+ * as hex so it can be stored and compared with fingerprints of later audits.
+ * Returns undefined for texts too short to compare.
+ */
+export function computeContentFingerprint(text: string): string | undefined {
+  const words = splitWords(text);
+  if (words.length < MIN_WORDS) return undefined;
+
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+
+  const signature = SEEDS.map(() => 0xffffffff);
+  shingles.forEach(shingle => {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature.map(value => value.toString(16).padStart(8, "0")).join("");
+}
+
+export function fingerprintSimilarity(a: string, b: string): number {
+  if (a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    if (a.substr(i, 8) === b.substr(i, 8)) equal++;
+  }
+  return equal / (a.length / 8);
+}
+
+/**
+ * Finds every pair of fingerprints at or above minSimilarity. Locality
+ * sensitive hashing over bands of the signature keeps this far below
+ * comparing all pairs on large sites.
+ */
+export function findSimilarPairs(fingerprints: string[], minSimilarity: number): SimilarPair[] {
+  const buckets = new Map<string, number[]>();
+  fingerprints.forEach((fingerprint, index) => {
+    for (let band = 0; band < BANDS; band++) {
+      const key = `${band}:${fingerprint.substr(band * ROWS * 8, ROWS * 8)}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  const compared = new Set<string>();
+  const pairs: SimilarPair[] = [];
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]} ${bucket[j]}`;
+        if (compared.has(key)) continue;
+        compared.add(key);
+
+        const similarity = fingerprintSimilarity(fingerprints[bucket[i]], fingerprints[bucket[j]]);
+        if (similarity >= minSimilarity) pairs.push({ a: bucket[i], b: bucket[j], similarity });
+      }
+    }
+  });
+  return pairs;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer; a bijection, so each seed acts as its own permutation
+function mix32(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
@@ -0,0 +1,35 @@
+// Cookies can carry session tokens from authenticated crawls and are never stored
+const EXCLUDED_HEADERS = new Set(["set-cookie", "set-cookie2"]);
+const MAX_HEADER_VALUE_LENGTH = 1024;
+
+export function captureHeaders(headers: Headers): Record<string, string> {
+  const captured: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    const key = name.toLowerCase();
+    if (EXCLUDED_HEADERS.has(key)) return;
+    captured[key] = value.slice(0, MAX_HEADER_VALUE_LENGTH);
+  });
+  return captured;
+}
+
+/**
+ * Reads the canonical URLs of a Link header such as
+ * `<https://example.com/a.pdf>; rel="canonical"`. Documents like PDFs can only
+ * declare a canonical this way.
+ */
+export function getLinkHeaderCanonicals(header: string | null, baseUrl: string): string[] {
+  if (!header) return [];
+  const canonicals: string[] = [];
+  for (const entry of header.split(/,\s*(?=<)/)) {
+    const match = entry.match(/^\s*<([^>]*)>(.*)$/);
+    const rel = match?.[2].match(/;\s*rel\s*=\s*"?([^";]+)"?/i);
+    if (!match || !rel || !rel[1].toLowerCase().split(/\s+/).includes("canonical")) continue;
+    try {
+      const url = new URL(match[1].trim(), baseUrl).href;
+      if (!canonicals.includes(url)) canonicals.push(url);
+    } catch {
+      // Ignore unparseable targets
+    }
+  }
+  return canonicals;
+}
@@ -0,0 +1,44 @@
+export {
+  CRAWLER_USER_AGENT,
+  MOBILE_CRAWLER_USER_AGENT,
+  RobotsCache,
+  fetchRobotsTxt,
+  parseRobotsTxt,
+  isAllowedByRobots,
+  getCrawlDelayMs,
+  parseXRobotsTag,
+} from "./robots";
+export type { RobotsTxt, RobotsGroup, RobotsRule, XRobotsDirectives } from "./robots";
+export { discoverSitemaps, parseSitemapXml } from "./sitemap";
+export type { SitemapDiscovery } from "./sitemap";
+export {
+  HostRateLimiter,
+  CrawlStatsCollector,
+  CRAWL_PLAN_LIMITS,
+  getCrawlPlanLimits,
+  sleep,
+} from "./scheduler";
+export type { CrawlPlan, CrawlPlanLimits } from "./scheduler";
+export { parseHTML, resolveUrl, extractFontUrls } from "./parser";
+export { fetchFollowingRedirects, isRedirectStatus, isPermanentRedirect } from "./redirects";
+export type { RedirectedResponse, FollowRedirectsOptions } from "./redirects";
+export { CrawlScopeFilter } from "./scope";
+export { normalizeUrl, getUrlKey, isTrackingParam } from "./normalize";
+export type { NormalizeUrlOptions, TrailingSlashPolicy } from "./normalize";
+export { CrawlSession } from "./auth";
+export { captureHeaders, getLinkHeaderCanonicals } from "./headers";
+export { checkLinks } from "./linkChecker";
+export type { LinkCheckOptions } from "./linkChecker";
+export { ResourceInventory, computePageWeight } from "./resources";
+export type { ResourceInventoryOptions } from "./resources";
+export type { CrawlStateStore, CrawlCheckpoint, CompletedVisit, FrontierEntry } from "./state";
+export { crawlMobileVersions, getJsonLdTypes, getInternalLinkKeys } from "./mobile";
+export type { MobileCrawlOptions } from "./mobile";
+export { CrawlTrapDetector } from "./traps";
+export type { CrawlTrapLimits } from "./traps";
+export { getDocumentType, readDocumentBody, describeDocument, parsePdf } from "./documents";
+export type { DocumentDownload } from "./documents";
+export { buildLinkGraph } from "./linkGraph";
+export type { LinkGraph, LinkGraphEdge, PageLinkMetrics } from "./linkGraph";
+export { computeContentFingerprint, fingerprintSimilarity, findSimilarPairs, splitWords } from "./fingerprint";
+export type { SimilarPair } from "./fingerprint";
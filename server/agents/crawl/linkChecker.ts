@@ -0,0 +1,183 @@
+import type { BrokenLink, BrokenLinkSource, LinkCheckSummary } from "@shared/schema";
+import type { CrawlResult } from "../types";
+import type { CrawlSession } from "./auth";
+import { getUrlKey } from "./normalize";
+import { fetchFollowingRedirects } from "./redirects";
+import { CRAWLER_USER_AGENT, isAllowedByRobots, type RobotsCache } from "./robots";
+import { HostRateLimiter } from "./scheduler";
+
+const DEFAULT_MAX_TARGETS = 500;
+const MAX_SOURCES_PER_LINK = 20;
+// Some servers reject HEAD outright instead of answering it like GET
+const HEAD_UNSUPPORTED = [405, 501];
+// External sites often answer bots with these; they say nothing about the link
+const INCONCLUSIVE_EXTERNAL = [401, 403, 429];
+
+export interface LinkCheckOptions {
+  concurrency?: number;
+  timeoutMs?: number;
+  maxTargets?: number;
+  rateLimiter?: HostRateLimiter;
+  robotsCache?: RobotsCache;
+  session?: CrawlSession;
+}
+
+interface LinkTarget {
+  url: string;
+  internal: boolean;
+  sources: BrokenLinkSource[];
+}
+
+interface LinkStatus {
+  statusCode: number;
+  error?: string;
+}
+
+/**
+ * Checks every http(s) link target found on the crawled pages. Targets the
+ * crawl already fetched reuse that status; the rest get a HEAD request (GET
+ * when HEAD is refused), each target at most once per audit.
+ */
+export async function checkLinks(
+  siteUrl: string,
+  pages: CrawlResult[],
+  options: LinkCheckOptions = {}
+): Promise<LinkCheckSummary> {
+  const {
+    concurrency = 4,
+    timeoutMs = 10000,
+    maxTargets = DEFAULT_MAX_TARGETS,
+    robotsCache,
+    session,
+  } = options;
+  const limiter = options.rateLimiter || new HostRateLimiter();
+  const siteHost = new URL(siteUrl).hostname.replace(/^www\./, "");
+
+  const known = new Map<string, LinkStatus>();
+  for (const page of pages) {
+    if (page.skipReason === "robots_txt") continue;
+    const statusCode = page.redirectChain ? page.finalStatusCode : page.statusCode;
+    if (statusCode === undefined) continue;
+    known.set(getUrlKey(page.url), page.redirectLoop
+      ? { statusCode, error: "Redirect loop" }
+      : { statusCode });
+  }
+
+  const targets = new Map<string, LinkTarget>();
+  for (const page of pages) {
+    if (page.skipReason || page.redirectChain || !page.links) continue;
+    for (const link of page.links) {
+      let parsed: URL;
+      try {
+        parsed = new URL(link.href);
+      } catch {
+        continue;
+      }
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") continue;
+
+      const key = getUrlKey(link.href);
+      let target = targets.get(key);
+      if (!target) {
+        target = {
+          url: link.href,
+          internal: parsed.hostname.replace(/^www\./, "") === siteHost,
+          sources: [],
+        };
+        targets.set(key, target);
+      }
+      if (target.sources.length < MAX_SOURCES_PER_LINK &&
+          !target.sources.some(source => source.pageUrl === page.url && source.anchorText === link.text)) {
+        target.sources.push({ pageUrl: page.url, anchorText: link.text });
+      }
+    }
+  }
+
+  const allTargets = Array.from(targets.entries());
+  const toCheck = allTargets.filter(([key]) => !known.has(key));
+  const truncated = toCheck.length > maxTargets;
+  const queue = toCheck.slice(0, maxTargets);
+  const results = new Map<string, LinkStatus>();
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const [key, target] = queue.shift()!;
+      if (target.internal && robotsCache) {
+        const robots = await robotsCache.get(target.url);
+        if (!isAllowedByRobots(robots, target.url)) continue;
+      }
+      results.set(key, await limiter.schedule(target.url, () =>
+        checkLinkStatus(target.url, timeoutMs, target.internal ? session : undefined)
+      ));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => worker()));
+
+  const brokenLinks: BrokenLink[] = [];
+  let internalChecked = 0;
+  let externalChecked = 0;
+  for (const [key, target] of allTargets) {
+    const status = known.get(key) || results.get(key);
+    if (!status) continue;
+    if (target.internal) internalChecked++;
+    else externalChecked++;
+
+    if (isBroken(status, target.internal)) {
+      brokenLinks.push({
+        url: target.url,
+        statusCode: status.statusCode,
+        error: status.error,
+        internal: target.internal,
+        sources: target.sources,
+      });
+    }
+  }
+
+  return {
+    internalChecked,
+    externalChecked,
+    brokenInternal: brokenLinks.filter(link => link.internal).length,
+    brokenExternal: brokenLinks.filter(link => !link.internal).length,
+    truncated,
+    brokenLinks,
+  };
+}
+
+async function checkLinkStatus(url: string, timeoutMs: number, session?: CrawlSession): Promise<LinkStatus> {
+  const request = async (method: "HEAD" | "GET") => {
+    // Redirects are followed hop by hop so credentials never leave the site
+    const { response, loop } = await fetchFollowingRedirects(url, {
+      method,
+      headers: { "User-Agent": CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(timeoutMs),
+    }, {
+      headersFor: session && (hopUrl => session.headersFor(hopUrl)),
+    });
+    // Only the status matters; don't download bodies
+    await response.body?.cancel().catch(() => {});
+    if (loop) {
+      throw new Error("Redirect loop");
+    }
+    return response.status;
+  };
+
+  try {
+    const headStatus = await request("HEAD");
+    if (!HEAD_UNSUPPORTED.includes(headStatus)) {
+      return { statusCode: headStatus };
+    }
+    return { statusCode: await request("GET") };
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      return { statusCode: 0, error: `Timeout after ${timeoutMs}ms` };
+    }
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : undefined;
+    return { statusCode: 0, error: cause || (error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+function isBroken(status: LinkStatus, internal: boolean): boolean {
+  if (status.error) return true;
+  if (status.statusCode === 0) return true;
+  if (status.statusCode < 400) return false;
+  return internal || !INCONCLUSIVE_EXTERNAL.includes(status.statusCode);
+}
@@ -0,0 +1,178 @@
+import type { CrawlResult } from "../types";
+import { getUrlKey } from "./normalize";
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-6;
+
+export interface LinkGraphEdge {
+  sourceUrl: string;
+  sourceKey: string;
+  targetUrl: string;
+  // Redirects are resolved to the key of the page they end on
+  targetKey: string;
+  anchorText: string;
+  nofollow: boolean;
+}
+
+export interface PageLinkMetrics {
+  clickDepth: number | null;
+  inboundLinks: number;
+  outboundLinks: number;
+  pageRank: number;
+}
+
+export interface LinkGraph {
+  edges: LinkGraphEdge[];
+  // Keyed by getUrlKey of the page
+  metrics: Map<string, PageLinkMetrics>;
+}
+
+/**
+ * Builds the internal link graph from the links of every crawled page and
+ * derives per-page metrics. Only followed links count for click depth,
+ * inbound links and PageRank, since nofollow links pass nothing on.
+ */
+export function buildLinkGraph(startUrl: string, pages: CrawlResult[]): LinkGraph {
+  const siteHost = stripWww(new URL(startUrl).hostname);
+  const redirects = new Map<string, string>();
+  for (const page of pages) {
+    if (page.redirectChain && page.finalUrl) redirects.set(getUrlKey(page.url), getUrlKey(page.finalUrl));
+  }
+  const resolve = (key: string) => redirects.get(key) || key;
+
+  const nodes = pages.filter(page => !page.redirectChain && page.skipReason !== "robots_txt");
+  const nodeKeys = new Set(nodes.map(page => getUrlKey(page.url)));
+  const edges: LinkGraphEdge[] = [];
+  const recorded = new Set<string>();
+  const followed = new Map<string, Set<string>>();
+  const outboundCounts = new Map<string, number>();
+
+  for (const page of nodes) {
+    const sourceKey = getUrlKey(page.url);
+    const targets = new Set<string>();
+    const outbound = new Set<string>();
+    const pageNofollow = hasNofollowDirective(page);
+
+    for (const link of page.links || []) {
+      let parsed: URL;
+      try {
+        parsed = new URL(link.href);
+      } catch {
+        continue;
+      }
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") continue;
+
+      const targetKey = resolve(getUrlKey(link.href));
+      if (targetKey === sourceKey) continue;
+      outbound.add(targetKey);
+      if (stripWww(parsed.hostname) !== siteHost && !nodeKeys.has(targetKey)) continue;
+
+      const nofollow = pageNofollow || Boolean(link.nofollow);
+      if (!nofollow) targets.add(targetKey);
+
+      const edgeKey = `${sourceKey} ${targetKey} ${nofollow} ${link.text}`;
+      if (recorded.has(edgeKey)) continue;
+      recorded.add(edgeKey);
+      edges.push({
+        sourceUrl: page.url,
+        sourceKey,
+        targetUrl: link.href,
+        targetKey,
+        anchorText: link.text,
+        nofollow,
+      });
+    }
+
+    followed.set(sourceKey, targets);
+    outboundCounts.set(sourceKey, outbound.size);
+  }
+
+  const inbound = new Map<string, number>();
+  followed.forEach(targets => {
+    targets.forEach(target => inbound.set(target, (inbound.get(target) || 0) + 1));
+  });
+
+  const depths = computeClickDepths(resolve(getUrlKey(startUrl)), followed);
+  const ranks = computePageRank(
+    nodes.filter(page => page.statusCode === 200).map(page => getUrlKey(page.url)),
+    followed
+  );
+
+  const metrics = new Map<string, PageLinkMetrics>();
+  nodeKeys.forEach(key => {
+    metrics.set(key, {
+      clickDepth: depths.has(key) ? depths.get(key)! : null,
+      inboundLinks: inbound.get(key) || 0,
+      outboundLinks: outboundCounts.get(key) || 0,
+      pageRank: ranks.get(key) || 0,
+    });
+  });
+
+  return { edges, metrics };
+}
+
+function computeClickDepths(startKey: string, followed: Map<string, Set<string>>): Map<string, number> {
+  const depths = new Map<string, number>([[startKey, 0]]);
+  const queue = [startKey];
+  while (queue.length > 0) {
+    const key = queue.shift()!;
+    const depth = depths.get(key)!;
+    (followed.get(key) || new Set<string>()).forEach(target => {
+      if (depths.has(target)) return;
+      depths.set(target, depth + 1);
+      queue.push(target);
+    });
+  }
+  return depths;
+}
+
+// Scores are scaled so the strongest page gets 100
+function computePageRank(keys: string[], followed: Map<string, Set<string>>): Map<string, number> {
+  const count = keys.length;
+  const scores = new Map<string, number>();
+  if (count === 0) return scores;
+
+  const index = new Map(keys.map((key, i) => [key, i] as [string, number]));
+  const outLinks = keys.map(key => Array.from(followed.get(key) || [])
+    .map(target => index.get(target))
+    .filter((target): target is number => target !== undefined));
+
+  let rank = keys.map(() => 1 / count);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = keys.map(() => (1 - DAMPING) / count);
+    // Pages without outgoing links hand their rank to every page equally
+    let dangling = 0;
+    outLinks.forEach((targets, i) => {
+      if (targets.length === 0) {
+        dangling += rank[i];
+        return;
+      }
+      const share = (DAMPING * rank[i]) / targets.length;
+      targets.forEach(target => {
+        next[target] += share;
+      });
+    });
+
+    let delta = 0;
+    for (let i = 0; i < count; i++) {
+      next[i] += (DAMPING * dangling) / count;
+      delta += Math.abs(next[i] - rank[i]);
+    }
+    rank = next;
+    if (delta < CONVERGENCE) break;
+  }
+
+  const max = rank.reduce((highest, value) => Math.max(highest, value), 0);
+  keys.forEach((key, i) => scores.set(key, Math.round((rank[i] / max) * 1000) / 10));
+  return scores;
+}
+
+function hasNofollowDirective(page: CrawlResult): boolean {
+  const directives = [...(page.robotsDirectives || []), ...(page.metaRobots || "").split(",")];
+  return directives.some(directive => /^\s*(nofollow|none)\s*$/i.test(directive));
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, "");
+}
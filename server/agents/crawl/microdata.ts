@@ -0,0 +1,61 @@
+import type * as cheerio from "cheerio";
+import type { MicrodataItem, MicrodataValue } from "../types";
+
+// Elements whose itemprop value is a URL attribute rather than their text
+const URL_ATTRIBUTES: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  audio: "src",
+  embed: "src",
+  iframe: "src",
+  img: "src",
+  source: "src",
+  video: "src",
+  object: "data",
+};
+
+/**
+ * Reads the top-level Microdata items of a document, following the value
+ * rules of the HTML spec. Nested itemscope elements become nested items.
+ */
+export function extractMicrodata($: cheerio.CheerioAPI, resolve: (url: string) => string): MicrodataItem[] {
+  const readItem = (scope: cheerio.Cheerio<any>): MicrodataItem => {
+    const item: MicrodataItem = { properties: {} };
+    const type = scope.attr("itemtype")?.trim().split(/\s+/)[0];
+    if (type) item.type = type;
+
+    scope.find("[itemprop]").each((_, el) => {
+      const prop = $(el);
+      // Properties of nested items belong to those items
+      if (prop.parent().closest("[itemscope]")[0] !== scope[0]) return;
+
+      const value = readValue(prop);
+      for (const name of (prop.attr("itemprop") || "").trim().split(/\s+/)) {
+        if (!name) continue;
+        (item.properties[name] = item.properties[name] || []).push(value);
+      }
+    });
+    return item;
+  };
+
+  const readValue = (prop: cheerio.Cheerio<any>): MicrodataValue => {
+    if (prop.is("[itemscope]")) return readItem(prop);
+    const tag = (prop.prop("tagName") || "").toLowerCase();
+    if (tag === "meta") return (prop.attr("content") || "").trim();
+    if (URL_ATTRIBUTES[tag]) {
+      const url = (prop.attr(URL_ATTRIBUTES[tag]) || "").trim();
+      return url ? resolve(url) : "";
+    }
+    if (tag === "time" && prop.attr("datetime")) return prop.attr("datetime")!.trim();
+    if ((tag === "data" || tag === "meter") && prop.attr("value") !== undefined) return prop.attr("value")!.trim();
+    return prop.text().replace(/\s+/g, " ").trim();
+  };
+
+  const items: MicrodataItem[] = [];
+  $("[itemscope]").each((_, el) => {
+    const scope = $(el);
+    if (!scope.is("[itemprop]")) items.push(readItem(scope));
+  });
+  return items;
+}
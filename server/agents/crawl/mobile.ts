@@ -0,0 +1,108 @@
+import type { CrawlResult, JsonLdBlock, MobileSnapshot, PageLink } from "../types";
+import type { CrawlSession } from "./auth";
+import { getUrlKey } from "./normalize";
+import { parseHTML } from "./parser";
+import { fetchFollowingRedirects, isRedirectStatus } from "./redirects";
+import { MOBILE_CRAWLER_USER_AGENT } from "./robots";
+import { HostRateLimiter } from "./scheduler";
+
+export interface MobileCrawlOptions {
+  concurrency?: number;
+  timeoutMs?: number;
+  rateLimiter?: HostRateLimiter;
+  session?: CrawlSession;
+}
+
+/**
+ * Fetches every successfully crawled HTML page a second time as a
+ * smartphone. Links are not followed: the desktop crawl decides which URLs
+ * exist, this pass only shows what mobile visitors get at each of them.
+ */
+export async function crawlMobileVersions(
+  pages: CrawlResult[],
+  options: MobileCrawlOptions = {}
+): Promise<Map<string, MobileSnapshot>> {
+  const { concurrency = 2, timeoutMs = 10000, session } = options;
+  const limiter = options.rateLimiter || new HostRateLimiter();
+  const queue = pages.filter(page => page.statusCode === 200 && !page.skipReason && !page.redirectChain);
+  const snapshots = new Map<string, MobileSnapshot>();
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const page = queue.shift()!;
+      snapshots.set(page.url, await limiter.schedule(page.url, () => fetchMobileSnapshot(page.url, timeoutMs, session)));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, () => worker()));
+
+  return snapshots;
+}
+
+async function fetchMobileSnapshot(url: string, timeoutMs: number, session?: CrawlSession): Promise<MobileSnapshot> {
+  try {
+    const { response, finalUrl, chain } = await fetchFollowingRedirects(url, {
+      headers: {
+        "User-Agent": MOBILE_CRAWLER_USER_AGENT,
+        "Accept": "text/html,application/xhtml+xml",
+      },
+      signal: AbortSignal.timeout(timeoutMs),
+    }, {
+      headersFor: session && (hopUrl => session.headersFor(hopUrl)),
+    });
+    const html = isRedirectStatus(response.status) ? "" : await response.text();
+    const parsed = parseHTML(html, finalUrl);
+
+    return {
+      statusCode: response.status,
+      finalUrl,
+      redirectChain: chain.length > 0 ? chain : undefined,
+      title: parsed.title,
+      viewport: parsed.viewport,
+      wordCount: parsed.wordCount,
+      jsonLdTypes: getJsonLdTypes(parsed.jsonLd || []),
+      internalLinks: getInternalLinkKeys(parsed.links || [], finalUrl),
+    };
+  } catch (error) {
+    return {
+      finalUrl: url,
+      jsonLdTypes: [],
+      internalLinks: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/** Distinct schema.org @type values, including those nested in @graph. */
+export function getJsonLdTypes(blocks: JsonLdBlock[]): string[] {
+  const types = new Set<string>();
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+    const record = node as Record<string, unknown>;
+    const type = record["@type"];
+    (Array.isArray(type) ? type : [type]).forEach(value => {
+      if (typeof value === "string") types.add(value);
+    });
+    if (record["@graph"]) visit(record["@graph"]);
+  };
+  blocks.forEach(block => visit(block.data));
+  return Array.from(types).sort();
+}
+
+export function getInternalLinkKeys(links: PageLink[], pageUrl: string): string[] {
+  const host = new URL(pageUrl).hostname.replace(/^www\./, "");
+  const keys = new Set<string>();
+  for (const link of links) {
+    try {
+      if (new URL(link.href).hostname.replace(/^www\./, "") === host) {
+        keys.add(getUrlKey(link.href));
+      }
+    } catch {
+      // Unparseable hrefs are not links a crawler could follow either
+    }
+  }
+  return Array.from(keys);
+}
@@ -0,0 +1,89 @@
+const TRACKING_PARAMS = [
+  /^utm_/,
+  /^(gclid|gbraid|wbraid|dclid|fbclid|msclkid|yclid|igshid)$/,
+  /^(mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi)$/,
+];
+
+const UNRESERVED = /[A-Za-z0-9\-._~]/;
+
+export type TrailingSlashPolicy = "preserve" | "strip" | "add";
+
+export interface NormalizeUrlOptions {
+  trailingSlash?: TrailingSlashPolicy;
+  stripTrackingParams?: boolean;
+}
+
+export function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMS.some(pattern => pattern.test(lower));
+}
+
+/**
+ * Rewrites a URL into a canonical spelling: no fragment, no default port,
+ * consistent percent-encoding, tracking parameters removed and the rest of
+ * the query sorted. Host and scheme casing and dot segments are handled by
+ * the WHATWG parser. Unparseable input is returned unchanged.
+ */
+export function normalizeUrl(url: string, options: NormalizeUrlOptions = {}): string {
+  const { trailingSlash = "preserve", stripTrackingParams = true } = options;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  parsed.hash = "";
+  parsed.pathname = applyTrailingSlash(normalizeEncoding(parsed.pathname), trailingSlash);
+
+  const params = parsed.search
+    .slice(1)
+    .split("&")
+    .filter(Boolean)
+    .map(normalizeEncoding)
+    .filter(param => !stripTrackingParams || !isTrackingParam(decodeParamName(param)));
+  // Stable sort keeps repeated keys (?a=2&a=1) in their original order
+  params.sort((a, b) => {
+    const nameA = decodeParamName(a);
+    const nameB = decodeParamName(b);
+    return nameA < nameB ? -1 : nameA > nameB ? 1 : 0;
+  });
+  parsed.search = params.length > 0 ? `?${params.join("&")}` : "";
+
+  return parsed.href;
+}
+
+/**
+ * Key used to decide whether two URLs are the same crawl target. /a and /a/
+ * are different resources and keep separate keys; when one redirects to the
+ * other, the redirect handling of the crawl merges them.
+ */
+export function getUrlKey(url: string): string {
+  return normalizeUrl(url);
+}
+
+function normalizeEncoding(value: string): string {
+  return value.replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => {
+    const char = String.fromCharCode(parseInt(hex, 16));
+    return UNRESERVED.test(char) ? char : `%${hex.toUpperCase()}`;
+  });
+}
+
+function applyTrailingSlash(pathname: string, policy: TrailingSlashPolicy): string {
+  if (pathname === "/" || policy === "preserve") return pathname;
+  if (policy === "strip") return pathname.replace(/\/+$/, "") || "/";
+
+  // Paths whose last segment looks like a file keep their spelling
+  const lastSegment = pathname.slice(pathname.lastIndexOf("/") + 1);
+  return pathname.endsWith("/") || lastSegment.includes(".") ? pathname : `${pathname}/`;
+}
+
+function decodeParamName(param: string): string {
+  const name = param.split("=")[0];
+  try {
+    return decodeURIComponent(name.replace(/\+/g, " "));
+  } catch {
+    return name;
+  }
+}
@@ -0,0 +1,241 @@
+import { createHash } from "crypto";
+import * as cheerio from "cheerio";
+import type {
+  CrawlResult,
+  HeadingEntry,
+  HreflangAlternate,
+  JsonLdBlock,
+  PageLink,
+  ScriptAsset,
+  StyleAsset,
+} from "../types";
+import { computeContentFingerprint } from "./fingerprint";
+import { extractMicrodata } from "./microdata";
+
+const MAX_BODY_TEXT_LENGTH = 5000;
+// Site-wide chrome that would make every page look alike
+const BOILERPLATE_ELEMENTS = 'nav, header, footer, aside, form, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]';
+const BLOCK_ELEMENTS = "address, article, aside, blockquote, br, dd, div, dl, dt, figcaption, footer, form, h1, h2, h3, h4, h5, h6, header, hr, li, main, nav, ol, p, pre, section, table, td, th, tr, ul";
+
+export function parseHTML(html: string, baseUrl: string): Partial<CrawlResult> {
+  const $ = cheerio.load(html);
+  const text = (value: string | undefined) => (value || "").replace(/\s+/g, " ").trim();
+  const meta = (selector: string) => text($(selector).first().attr("content")) || undefined;
+
+  // <base href> changes how every relative URL on the page resolves
+  const baseHref = $("base[href]").first().attr("href");
+  const documentBase = baseHref ? resolveUrl(baseHref, baseUrl) : baseUrl;
+
+  // Extract title and meta tags
+  const title = text($("head title").first().text() || $("title").first().text()) || undefined;
+  const metaDescription = meta('meta[name="description" i]');
+  const metaRobots = meta('meta[name="robots" i]')?.toLowerCase();
+  const viewport = meta('meta[name="viewport" i]');
+  const lang = $("html").attr("lang")?.trim() || undefined;
+
+  const declaredCanonicals: string[] = [];
+  $('link[rel~="canonical" i][href]').each((_, el) => {
+    const href = resolveUrl(($(el).attr("href") || "").trim(), documentBase);
+    if (!declaredCanonicals.includes(href)) declaredCanonicals.push(href);
+  });
+  const canonical = declaredCanonicals[0];
+
+  const hreflang: HreflangAlternate[] = [];
+  $('link[rel~="alternate" i][hreflang][href]').each((_, el) => {
+    hreflang.push({
+      hreflang: ($(el).attr("hreflang") || "").trim().toLowerCase(),
+      href: resolveUrl(($(el).attr("href") || "").trim(), documentBase),
+    });
+  });
+
+  // Extract Open Graph (including the article: and product: namespaces) and Twitter Card tags
+  const openGraph: Record<string, string> = {};
+  $('meta[property^="og:"], meta[name^="og:"], meta[property^="article:"], meta[property^="product:"]').each((_, el) => {
+    const key = ($(el).attr("property") || $(el).attr("name") || "").toLowerCase();
+    const content = text($(el).attr("content"));
+    if (key && content && !(key in openGraph)) openGraph[key] = content;
+  });
+
+  const twitterCard: Record<string, string> = {};
+  $('meta[name^="twitter:"], meta[property^="twitter:"]').each((_, el) => {
+    const key = ($(el).attr("name") || $(el).attr("property") || "").toLowerCase();
+    const content = text($(el).attr("content"));
+    if (key && content && !(key in twitterCard)) twitterCard[key] = content;
+  });
+
+  // Extract JSON-LD blocks
+  const jsonLd: JsonLdBlock[] = [];
+  $('script[type="application/ld+json" i]').each((_, el) => {
+    const raw = $(el).html()?.trim() || "";
+    if (!raw) return;
+    try {
+      jsonLd.push({ raw, data: JSON.parse(raw) });
+    } catch (error) {
+      jsonLd.push({ raw, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  const microdata = extractMicrodata($, url => resolveUrl(url, documentBase));
+
+  // Extract all headings in document order
+  const headings: HeadingEntry[] = [];
+  $("h1, h2, h3, h4, h5, h6").each((index, el) => {
+    headings.push({
+      level: parseInt(el.tagName.slice(1), 10),
+      text: text($(el).text()),
+      order: index,
+    });
+  });
+  const h1 = headings.filter(h => h.level === 1 && h.text).map(h => h.text);
+  const h2 = headings.filter(h => h.level === 2 && h.text).map(h => h.text);
+
+  // Extract images
+  const images: { src: string; alt?: string }[] = [];
+  $("img").each((_, el) => {
+    const src = $(el).attr("src") || $(el).attr("data-src");
+    if (!src || src.startsWith("data:")) return;
+    images.push({
+      src: resolveUrl(src.trim(), documentBase),
+      alt: $(el).attr("alt") || undefined,
+    });
+  });
+
+  // Extract links with their rel qualifiers
+  const links: PageLink[] = [];
+  $("a[href]").each((_, el) => {
+    const href = ($(el).attr("href") || "").trim();
+    if (!href || href.startsWith("#")) return;
+    const rel = ($(el).attr("rel") || "").toLowerCase().split(/\s+/).filter(Boolean);
+    links.push({
+      href: resolveUrl(href, documentBase),
+      text: text($(el).text()) || text($(el).attr("title")) || text($(el).find("img[alt]").first().attr("alt")),
+      rel: rel.length > 0 ? rel : undefined,
+      nofollow: rel.includes("nofollow") || undefined,
+      sponsored: rel.includes("sponsored") || undefined,
+      ugc: rel.includes("ugc") || undefined,
+    });
+  });
+
+  // Inventory scripts and stylesheets
+  const scripts: ScriptAsset[] = [];
+  $("script").each((_, el) => {
+    const type = $(el).attr("type")?.toLowerCase();
+    if (type === "application/ld+json") return;
+    const src = $(el).attr("src");
+    scripts.push({
+      src: src ? resolveUrl(src.trim(), documentBase) : undefined,
+      inline: !src,
+      inHead: $(el).closest("head").length > 0,
+      async: $(el).attr("async") !== undefined,
+      defer: $(el).attr("defer") !== undefined,
+      type,
+      size: src ? undefined : Buffer.byteLength($(el).html() || ""),
+    });
+  });
+
+  const stylesheets: StyleAsset[] = [];
+  $('link[rel~="stylesheet" i][href], style').each((_, el) => {
+    const href = el.tagName === "link" ? $(el).attr("href") : undefined;
+    stylesheets.push({
+      href: href ? resolveUrl(href.trim(), documentBase) : undefined,
+      inline: !href,
+      inHead: $(el).closest("head").length > 0,
+      media: $(el).attr("media") || undefined,
+      size: href ? undefined : Buffer.byteLength($(el).html() || ""),
+    });
+  });
+
+  // Fonts the browser fetches up front: preloads and @font-face in inline styles
+  const fonts: string[] = [];
+  $('link[rel~="preload" i][as="font" i][href]').each((_, el) => {
+    fonts.push(resolveUrl(($(el).attr("href") || "").trim(), documentBase));
+  });
+  $("style").each((_, el) => {
+    fonts.push(...extractFontUrls($(el).html() || "", documentBase));
+  });
+
+  const iframes: string[] = [];
+  $("iframe[src]").each((_, el) => {
+    const src = ($(el).attr("src") || "").trim();
+    if (!src || src.startsWith("about:") || src.startsWith("javascript:")) return;
+    iframes.push(resolveUrl(src, documentBase));
+  });
+
+  // Extract visible body text
+  // parse5 always synthesizes a <body>, even for fragments
+  const body = $("body").first().clone();
+  body.find("script, style, noscript, template, svg").remove();
+  // Keep words in adjacent blocks apart ("<p>a</p><p>b</p>" is two words)
+  body.find(BLOCK_ELEMENTS).before(" ").after(" ");
+  const fullText = text(body.text());
+  const bodyText = fullText.slice(0, MAX_BODY_TEXT_LENGTH);
+  const wordCount = fullText ? fullText.split(" ").length : 0;
+  const contentHash = createHash("sha1").update(`${title || ""}\n${fullText}`).digest("hex");
+
+  // Near-duplicate detection compares the main content only, without the site chrome
+  const explicitMain = body.find('main, [role="main"]').first();
+  const main = explicitMain.length > 0
+    ? explicitMain
+    : body.find("article").length > 0 ? body.find("article") : body;
+  const mainContent = main.clone();
+  mainContent.find(BOILERPLATE_ELEMENTS).remove();
+  const contentFingerprint = computeContentFingerprint(text(mainContent.text()));
+  const firstParagraph = mainContent.find("p").toArray()
+    .map(el => text($(el).text()))
+    .find(paragraph => paragraph.length > 0);
+
+  return {
+    title,
+    metaDescription,
+    canonical,
+    declaredCanonicals: declaredCanonicals.length > 0 ? declaredCanonicals : undefined,
+    metaRobots,
+    lang,
+    viewport,
+    hreflang,
+    openGraph,
+    twitterCard,
+    jsonLd,
+    microdata,
+    headings,
+    h1,
+    h2,
+    images,
+    links,
+    scripts,
+    stylesheets,
+    fonts: fonts.filter((font, index) => fonts.indexOf(font) === index),
+    iframes,
+    bodyText,
+    wordCount,
+    contentHash,
+    contentFingerprint,
+    firstParagraph,
+  };
+}
+
+export function resolveUrl(url: string, base: string): string {
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Returns the first url() of every @font-face src, which is the format a
+ * modern browser downloads when the list is ordered woff2-first.
+ */
+export function extractFontUrls(css: string, baseUrl: string): string[] {
+  const urls: string[] = [];
+  const fontFacePattern = /@font-face\s*\{([^}]*)\}/gi;
+  let match: RegExpExecArray | null;
+  while ((match = fontFacePattern.exec(css)) !== null) {
+    const src = /(?:^|[;\s])src\s*:([^;]*)/i.exec(match[1]);
+    const url = src && /url\(\s*(['"]?)([^'")]+)\1\s*\)/i.exec(src[1]);
+    if (url && !url[2].startsWith("data:")) {
+      urls.push(resolveUrl(url[2].trim(), baseUrl));
+    }
+  }
+  return urls;
+}
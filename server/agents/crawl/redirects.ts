@@ -0,0 +1,76 @@
+import type { RedirectHop } from "../types";
+
+const MAX_REDIRECTS = 10;
+
+export interface FollowRedirectsOptions {
+  maxRedirects?: number;
+  // Evaluated per hop so credentials are dropped when a redirect leaves the site
+  headersFor?: (url: string) => Record<string, string>;
+}
+
+export interface RedirectedResponse {
+  response: Response;
+  finalUrl: string;
+  chain: RedirectHop[];
+  loop: boolean;
+}
+
+export function isRedirectStatus(statusCode: number): boolean {
+  return [301, 302, 303, 307, 308].includes(statusCode);
+}
+
+export function isPermanentRedirect(statusCode: number): boolean {
+  return statusCode === 301 || statusCode === 308;
+}
+
+/**
+ * Follows redirects one hop at a time so every intermediate status and
+ * Location is visible. Stops on a loop or after MAX_REDIRECTS hops and
+ * returns the last response it received, whose body is already released
+ * when it is a redirect.
+ */
+export async function fetchFollowingRedirects(
+  url: string,
+  init: RequestInit = {},
+  options: FollowRedirectsOptions = {}
+): Promise<RedirectedResponse> {
+  const { maxRedirects = MAX_REDIRECTS, headersFor } = options;
+  const chain: RedirectHop[] = [];
+  const seen = new Set<string>([url]);
+  let currentUrl = url;
+
+  while (true) {
+    const startTime = Date.now();
+    const headers = { ...(init.headers as Record<string, string> | undefined), ...headersFor?.(currentUrl) };
+    const response = await fetch(currentUrl, { ...init, headers, redirect: "manual" });
+    const location = response.headers.get("location");
+
+    if (!isRedirectStatus(response.status) || !location) {
+      return { response, finalUrl: currentUrl, chain, loop: false };
+    }
+
+    // Release the socket; redirect bodies are never read
+    await response.body?.cancel().catch(() => {});
+
+    let nextUrl: string;
+    try {
+      nextUrl = new URL(location, currentUrl).href;
+    } catch {
+      return { response, finalUrl: currentUrl, chain, loop: false };
+    }
+
+    chain.push({
+      url: currentUrl,
+      statusCode: response.status,
+      location: nextUrl,
+      durationMs: Date.now() - startTime,
+    });
+
+    if (seen.has(nextUrl) || chain.length >= maxRedirects) {
+      return { response, finalUrl: nextUrl, chain, loop: seen.has(nextUrl) };
+    }
+
+    seen.add(nextUrl);
+    currentUrl = nextUrl;
+  }
+}
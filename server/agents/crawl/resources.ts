@@ -0,0 +1,198 @@
+import type { PageWeight } from "@shared/schema";
+import type { CrawlResult, ImageAsset, ResourceAsset, ResourceType } from "../types";
+import type { CrawlSession } from "./auth";
+import { extractFontUrls } from "./parser";
+import { fetchFollowingRedirects, isRedirectStatus } from "./redirects";
+import { CRAWLER_USER_AGENT } from "./robots";
+import type { HostRateLimiter } from "./scheduler";
+
+const DEFAULT_MAX_RESOURCES_PER_PAGE = 40;
+// Below this size the whitespace ratio says little about minification
+const MIN_MINIFY_CHECK_BYTES = 2048;
+
+export interface ResourceInventoryOptions {
+  rateLimiter?: HostRateLimiter;
+  session?: CrawlSession;
+  timeoutMs?: number;
+}
+
+interface FetchedResource {
+  statusCode?: number;
+  size?: number;
+  transferSize?: number;
+  minified?: boolean;
+  cacheControl?: string;
+  contentEncoding?: string;
+  fontUrls: string[];
+  error?: string;
+}
+
+/**
+ * Fetches the scripts, stylesheets, fonts and iframes a page references.
+ * One instance lives for a whole crawl so a bundle shared by every page is
+ * downloaded once.
+ */
+export class ResourceInventory {
+  private cache = new Map<string, Promise<FetchedResource>>();
+  private readonly siteHost: string;
+
+  constructor(
+    siteUrl: string,
+    private readonly options: ResourceInventoryOptions = {}
+  ) {
+    this.siteHost = stripWww(new URL(siteUrl).hostname);
+  }
+
+  async collect(
+    page: Partial<CrawlResult>,
+    maxResources = DEFAULT_MAX_RESOURCES_PER_PAGE
+  ): Promise<ResourceAsset[]> {
+    const assets: ResourceAsset[] = [];
+    const seen = new Set<string>();
+    const add = (asset: Omit<ResourceAsset, "thirdParty">) => {
+      if (seen.has(asset.url) || assets.length >= maxResources || !/^https?:/i.test(asset.url)) return;
+      seen.add(asset.url);
+      assets.push({ ...asset, thirdParty: this.isThirdParty(asset.url) });
+    };
+
+    for (const script of page.scripts || []) {
+      if (!script.src) continue;
+      const synchronous = !script.async && !script.defer && script.type !== "module";
+      add({ url: script.src, type: "script", synchronous, renderBlocking: synchronous && script.inHead });
+    }
+    for (const style of page.stylesheets || []) {
+      if (!style.href) continue;
+      add({ url: style.href, type: "stylesheet", renderBlocking: style.inHead && !isPrintOnly(style.media) });
+    }
+    for (const font of page.fonts || []) {
+      add({ url: font, type: "font", renderBlocking: false });
+    }
+    for (const iframe of page.iframes || []) {
+      add({ url: iframe, type: "iframe", renderBlocking: false });
+    }
+
+    await Promise.all(assets.map(async asset => {
+      const fetched = await this.fetch(asset.url, asset.type);
+      asset.statusCode = fetched.statusCode;
+      asset.size = fetched.size;
+      asset.transferSize = fetched.transferSize;
+      asset.minified = fetched.minified;
+      asset.cacheControl = fetched.cacheControl;
+      asset.contentEncoding = fetched.contentEncoding;
+      asset.error = fetched.error;
+    }));
+
+    // Fonts referenced from external stylesheets only show up once the CSS is fetched
+    const cssFonts: ResourceAsset[] = [];
+    for (const asset of assets.slice()) {
+      if (asset.type !== "stylesheet") continue;
+      const { fontUrls } = await this.fetch(asset.url, asset.type);
+      for (const font of fontUrls) {
+        const before = assets.length;
+        add({ url: font, type: "font", renderBlocking: false });
+        if (assets.length > before) cssFonts.push(assets[assets.length - 1]);
+      }
+    }
+    await Promise.all(cssFonts.map(async asset => {
+      const fetched = await this.fetch(asset.url, asset.type);
+      asset.statusCode = fetched.statusCode;
+      asset.size = fetched.size;
+      asset.transferSize = fetched.transferSize;
+      asset.cacheControl = fetched.cacheControl;
+      asset.contentEncoding = fetched.contentEncoding;
+      asset.error = fetched.error;
+    }));
+
+    return assets;
+  }
+
+  private isThirdParty(url: string): boolean {
+    try {
+      const host = stripWww(new URL(url).hostname);
+      return host !== this.siteHost && !host.endsWith(`.${this.siteHost}`);
+    } catch {
+      return false;
+    }
+  }
+
+  private fetch(url: string, type: ResourceType): Promise<FetchedResource> {
+    let pending = this.cache.get(url);
+    if (!pending) {
+      pending = this.options.rateLimiter
+        ? this.options.rateLimiter.schedule(url, () => this.download(url, type))
+        : this.download(url, type);
+      this.cache.set(url, pending);
+    }
+    return pending;
+  }
+
+  private async download(url: string, type: ResourceType): Promise<FetchedResource> {
+    const { session, timeoutMs = 10000 } = this.options;
+    try {
+      const { response, finalUrl } = await fetchFollowingRedirects(url, {
+        headers: { "User-Agent": CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(timeoutMs),
+      }, {
+        headersFor: session && (hopUrl => session.headersFor(hopUrl)),
+      });
+      // A redirect that ended in a loop or at the hop limit comes back with its body released
+      const body = isRedirectStatus(response.status) ? Buffer.alloc(0) : Buffer.from(await response.arrayBuffer());
+      const contentLength = parseInt(response.headers.get("content-length") || "", 10);
+      const text = type === "script" || type === "stylesheet" ? body.toString("utf8") : "";
+
+      return {
+        statusCode: response.status,
+        size: body.length,
+        // fetch decodes gzip/br transparently, so Content-Length is the only wire size we get
+        transferSize: contentLength >= 0 ? contentLength : body.length,
+        minified: response.ok && text.length >= MIN_MINIFY_CHECK_BYTES ? looksMinified(text) : undefined,
+        cacheControl: response.headers.get("cache-control") || undefined,
+        contentEncoding: response.headers.get("content-encoding") || undefined,
+        fontUrls: response.ok && type === "stylesheet" ? extractFontUrls(text, finalUrl) : [],
+      };
+    } catch (error) {
+      return { fontUrls: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+export function computePageWeight(
+  htmlBytes: number,
+  resources: ResourceAsset[],
+  images: ImageAsset[] = []
+): PageWeight {
+  const sum = (type: ResourceAsset["type"]) => resources
+    .filter(resource => resource.type === type)
+    .reduce((total, resource) => total + (resource.transferSize || 0), 0);
+
+  const weight = {
+    html: htmlBytes,
+    scripts: sum("script"),
+    stylesheets: sum("stylesheet"),
+    fonts: sum("font"),
+    images: images.reduce((total, image) => total + (image.fileSize || 0), 0),
+    iframes: sum("iframe"),
+  };
+
+  return {
+    ...weight,
+    total: weight.html + weight.scripts + weight.stylesheets + weight.fonts + weight.images + weight.iframes,
+    requests: 1 + resources.length + images.length,
+    renderBlocking: resources.filter(resource => resource.renderBlocking).length,
+  };
+}
+
+// Minified code has long lines and little whitespace; readable source has neither
+function looksMinified(text: string): boolean {
+  const lines = text.split("\n").length;
+  const whitespace = text.replace(/\S/g, "").length;
+  return text.length / lines > 200 || whitespace / text.length < 0.1;
+}
+
+function isPrintOnly(media: string | undefined): boolean {
+  return Boolean(media && /^\s*print\s*$/i.test(media));
+}
+
+function stripWww(hostname: string): string {
+  return hostname.replace(/^www\./, "");
+}
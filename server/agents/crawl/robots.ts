@@ -0,0 +1,266 @@
+export const CRAWLER_USER_AGENT = "SiteScout-SEO-Bot/1.0";
+// Carries the "Mobile" token sites sniff for, like Googlebot Smartphone does
+export const MOBILE_CRAWLER_USER_AGENT =
+  "Mozilla/5.0 (Linux; Android 10; K) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36 (compatible; SiteScout-SEO-Bot/1.0)";
+export const ROBOTS_PRODUCT_TOKEN = "sitescout-seo-bot";
+
+const MAX_ROBOTS_SIZE = 500 * 1024;
+const MAX_CRAWL_DELAY_SECONDS = 10;
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  url: string;
+  statusCode: number;
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface XRobotsDirectives {
+  noindex: boolean;
+  nofollow: boolean;
+  raw: string[];
+}
+
+export function parseRobotsTxt(content: string, url = ""): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  for (const rawLine of content.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case "user-agent":
+        // Consecutive user-agent lines share the same group of rules
+        if (!current || !lastWasUserAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasUserAgent = true;
+        continue;
+      case "allow":
+      case "disallow":
+        if (current && value) {
+          current.rules.push({ allow: field === "allow", pattern: value });
+        }
+        break;
+      case "crawl-delay": {
+        const delay = parseFloat(value);
+        if (current && !isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+      case "sitemap":
+        if (value) {
+          sitemaps.push(resolveSitemapUrl(value, url));
+        }
+        break;
+    }
+
+    lastWasUserAgent = false;
+  }
+
+  return { url, statusCode: 200, groups, sitemaps };
+}
+
+export async function fetchRobotsTxt(pageUrl: string): Promise<RobotsTxt> {
+  const robotsUrl = getRobotsUrl(pageUrl);
+
+  try {
+    const response = await fetch(robotsUrl, {
+      headers: {
+        "User-Agent": CRAWLER_USER_AGENT,
+        "Accept": "text/plain",
+      },
+      signal: AbortSignal.timeout(10000),
+    });
+
+    // RFC 9309: a missing robots.txt (4xx) means there are no restrictions, while a
+    // server error means the site may not be crawled at all
+    if (response.status >= 500) {
+      return disallowAll(robotsUrl, response.status);
+    }
+    if (!response.ok) {
+      return { url: robotsUrl, statusCode: response.status, groups: [], sitemaps: [] };
+    }
+
+    const content = (await response.text()).slice(0, MAX_ROBOTS_SIZE);
+    return { ...parseRobotsTxt(content, robotsUrl), statusCode: response.status };
+  } catch {
+    return disallowAll(robotsUrl, 0);
+  }
+}
+
+function disallowAll(url: string, statusCode: number): RobotsTxt {
+  return {
+    url,
+    statusCode,
+    groups: [{ userAgents: ["*"], rules: [{ allow: false, pattern: "/" }] }],
+    sitemaps: [],
+  };
+}
+
+export function isAllowedByRobots(
+  robots: RobotsTxt,
+  url: string,
+  userAgent = ROBOTS_PRODUCT_TOKEN
+): boolean {
+  const group = selectGroup(robots, userAgent);
+  if (!group) return true;
+
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = parsed.pathname + parsed.search;
+  } catch {
+    return true;
+  }
+
+  if (path === "/robots.txt") return true;
+
+  // Longest matching pattern wins; on a tie Allow beats Disallow
+  let bestLength = -1;
+  let allowed = true;
+  for (const rule of group.rules) {
+    if (!matchesRobotsPattern(rule.pattern, path)) continue;
+    const length = rule.pattern.length;
+    if (length > bestLength || (length === bestLength && rule.allow)) {
+      bestLength = length;
+      allowed = rule.allow;
+    }
+  }
+
+  return allowed;
+}
+
+export function getCrawlDelayMs(robots: RobotsTxt, userAgent = ROBOTS_PRODUCT_TOKEN): number {
+  const delay = selectGroup(robots, userAgent)?.crawlDelay;
+  if (delay === undefined) return 0;
+  return Math.min(delay, MAX_CRAWL_DELAY_SECONDS) * 1000;
+}
+
+export function parseXRobotsTag(
+  headerValue: string | null,
+  userAgent = ROBOTS_PRODUCT_TOKEN
+): XRobotsDirectives {
+  const raw: string[] = [];
+  if (!headerValue) return { noindex: false, nofollow: false, raw };
+
+  // Multiple headers are joined with ", " by fetch; a "botname:" prefix scopes the
+  // directives that follow it until the next prefix
+  let scope: string | null = null;
+  for (const part of headerValue.split(",")) {
+    let directive = part.trim().toLowerCase();
+    const scoped = directive.match(/^([a-z0-9_-]+)\s*:\s*(.+)$/);
+    if (scoped && !isKnownDirectiveWithValue(scoped[1])) {
+      scope = scoped[1];
+      directive = scoped[2].trim();
+    }
+    if (scope && scope !== userAgent) continue;
+    if (directive) raw.push(directive.replace(/\s*:\s*/, ":"));
+  }
+
+  const has = (name: string) => raw.some(d => d === name || d.startsWith(`${name}:`));
+
+  return {
+    noindex: has("noindex") || has("none"),
+    nofollow: has("nofollow") || has("none"),
+    raw,
+  };
+}
+
+export class RobotsCache {
+  private entries = new Map<string, Promise<RobotsTxt>>();
+
+  get(url: string): Promise<RobotsTxt> {
+    const origin = new URL(url).origin;
+    let entry = this.entries.get(origin);
+    if (!entry) {
+      entry = fetchRobotsTxt(url);
+      this.entries.set(origin, entry);
+    }
+    return entry;
+  }
+}
+
+function selectGroup(robots: RobotsTxt, userAgent: string): RobotsGroup | undefined {
+  // RFC 9309: a group applies when its product token equals ours, ignoring case
+  const token = getProductToken(userAgent);
+  const specific = robots.groups.filter(g =>
+    g.userAgents.some(ua => ua !== "*" && getProductToken(ua) === token)
+  );
+
+  if (specific.length > 0) {
+    // Merge every group that names this crawler explicitly
+    return specific.reduce<RobotsGroup>(
+      (merged, group) => ({
+        userAgents: merged.userAgents.concat(group.userAgents),
+        rules: merged.rules.concat(group.rules),
+        crawlDelay: merged.crawlDelay ?? group.crawlDelay,
+      }),
+      { userAgents: [], rules: [] }
+    );
+  }
+
+  return robots.groups.find(g => g.userAgents.includes("*"));
+}
+
+// "SiteScout-SEO-Bot/1.0" names the product token "sitescout-seo-bot"
+function getProductToken(value: string): string {
+  return (value.toLowerCase().match(/^[a-z_-]+/) || [""])[0];
+}
+
+function matchesRobotsPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map(part => escapeRegex(normalizePercentEncoding(part)))
+    .join(".*");
+
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(normalizePercentEncoding(path));
+}
+
+function normalizePercentEncoding(value: string): string {
+  return value.replace(/%[0-9a-f]{2}/gi, match => match.toUpperCase());
+}
+
+function isKnownDirectiveWithValue(name: string): boolean {
+  return ["max-snippet", "max-image-preview", "max-video-preview", "unavailable_after"].includes(name);
+}
+
+function getRobotsUrl(pageUrl: string): string {
+  return `${new URL(pageUrl).origin}/robots.txt`;
+}
+
+function resolveSitemapUrl(value: string, base: string): string {
+  try {
+    return new URL(value, base || undefined).href;
+  } catch {
+    return value;
+  }
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,144 @@
+import type { CrawlStats } from "@shared/schema";
+
+export type CrawlPlan = "free" | "pro";
+
+export interface CrawlPlanLimits {
+  maxPages: number;
+  concurrency: number;
+  maxCrawlTimeMs: number;
+}
+
+export const CRAWL_PLAN_LIMITS: Record<CrawlPlan, CrawlPlanLimits> = {
+  free: { maxPages: 25, concurrency: 2, maxCrawlTimeMs: 2 * 60 * 1000 },
+  pro: { maxPages: 250, concurrency: 4, maxCrawlTimeMs: 10 * 60 * 1000 },
+};
+
+export function getCrawlPlanLimits(plan: CrawlPlan | null | undefined): CrawlPlanLimits {
+  return CRAWL_PLAN_LIMITS[plan || "free"] || CRAWL_PLAN_LIMITS.free;
+}
+
+interface HostState {
+  active: number;
+  nextSlotAt: number;
+  intervalMs: number;
+  waiters: (() => void)[];
+}
+
+/**
+ * Spaces out requests per hostname and caps how many run against one host
+ * at a time. Page fetches and image probes share one instance per crawl.
+ */
+export class HostRateLimiter {
+  private hosts = new Map<string, HostState>();
+
+  constructor(
+    private readonly minIntervalMs = 250,
+    private readonly maxConcurrentPerHost = 2
+  ) {}
+
+  setCrawlDelay(url: string, delayMs: number) {
+    const state = this.getState(url);
+    state.intervalMs = Math.max(this.minIntervalMs, delayMs);
+  }
+
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const state = this.getState(url);
+    await this.acquire(state);
+    try {
+      return await task();
+    } finally {
+      state.active--;
+      state.waiters.shift()?.();
+    }
+  }
+
+  private async acquire(state: HostState) {
+    // A crawl-delay means strictly sequential requests
+    const limit = state.intervalMs > this.minIntervalMs ? 1 : this.maxConcurrentPerHost;
+    while (state.active >= limit) {
+      await new Promise<void>(resolve => state.waiters.push(resolve));
+    }
+    state.active++;
+
+    const now = Date.now();
+    const slot = Math.max(now, state.nextSlotAt);
+    state.nextSlotAt = slot + state.intervalMs;
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+
+  private getState(url: string): HostState {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      host = url;
+    }
+
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextSlotAt: 0, intervalMs: this.minIntervalMs, waiters: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
+
+export class CrawlStatsCollector {
+  private startedAt = Date.now();
+  private pagesCrawled = 0;
+  private pagesSkipped = 0;
+  private errors = 0;
+  private bytesDownloaded = 0;
+  private timedOut = false;
+
+  constructor(
+    private readonly pageBudget: number,
+    private readonly concurrency: number
+  ) {}
+
+  recordPage(bytes: number, statusCode?: number) {
+    this.pagesCrawled++;
+    this.bytesDownloaded += bytes;
+    if (!statusCode || statusCode >= 400) {
+      this.errors++;
+    }
+  }
+
+  recordBytes(bytes: number) {
+    this.bytesDownloaded += bytes;
+  }
+
+  recordSkip() {
+    this.pagesSkipped++;
+  }
+
+  recordError() {
+    this.errors++;
+  }
+
+  markTimedOut() {
+    this.timedOut = true;
+  }
+
+  toJSON(): CrawlStats {
+    const durationMs = Date.now() - this.startedAt;
+    return {
+      pagesCrawled: this.pagesCrawled,
+      pagesSkipped: this.pagesSkipped,
+      errors: this.errors,
+      bytesDownloaded: this.bytesDownloaded,
+      durationMs,
+      pagesPerSecond: durationMs > 0 ? Math.round((this.pagesCrawled / durationMs) * 100000) / 100 : 0,
+      concurrency: this.concurrency,
+      pageBudget: this.pageBudget,
+      budgetExhausted: this.pagesCrawled >= this.pageBudget,
+      timedOut: this.timedOut,
+    };
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
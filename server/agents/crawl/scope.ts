@@ -0,0 +1,114 @@
+import { DEFAULT_CRAWL_SCOPE, type CrawlScope } from "@shared/schema";
+import { normalizeUrl } from "./normalize";
+
+const REGEX_PREFIX = "regex:";
+
+/**
+ * Decides which discovered URLs belong to a crawl and rewrites them to the
+ * form that gets queued, so query-string variants collapse onto one entry.
+ */
+export class CrawlScopeFilter {
+  private readonly scope: CrawlScope;
+  private readonly startHost: string;
+  private readonly rootHost: string;
+  private readonly include: PathMatcher[];
+  private readonly exclude: PathMatcher[];
+  private readonly stripParams: RegExp[];
+  private readonly keepParams: RegExp[];
+
+  constructor(startUrl: string, scope?: Partial<CrawlScope> | null) {
+    this.scope = { ...DEFAULT_CRAWL_SCOPE, ...(scope || {}) };
+    this.startHost = new URL(startUrl).hostname;
+    this.rootHost = this.startHost.replace(/^www\./, "");
+    this.include = compilePatterns(this.scope.includePatterns);
+    this.exclude = compilePatterns(this.scope.excludePatterns);
+    this.stripParams = this.scope.stripQueryParams.map(globToRegExp);
+    this.keepParams = this.scope.keepQueryParams.map(globToRegExp);
+  }
+
+  /** Returns the normalized URL to enqueue, or null when it falls outside the scope. */
+  normalize(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return null;
+    if (!this.isHostInScope(parsed.hostname)) return null;
+
+    const params = Array.from(parsed.searchParams.keys());
+    for (const name of params) {
+      if (!this.keepsParam(name)) parsed.searchParams.delete(name);
+    }
+
+    const normalized = new URL(normalizeUrl(parsed.href));
+    if (this.include.length > 0 && !this.include.some(matches => matches(normalized))) return null;
+    if (this.exclude.some(matches => matches(normalized))) return null;
+    if (normalized.href.length > this.scope.maxUrlLength) return null;
+
+    return normalized.href;
+  }
+
+  withinDepth(depth: number): boolean {
+    return this.scope.maxDepth === null || depth <= this.scope.maxDepth;
+  }
+
+  private isHostInScope(hostname: string): boolean {
+    if (hostname === this.startHost) return true;
+    return this.scope.followSubdomains &&
+      (hostname === this.rootHost || hostname.endsWith(`.${this.rootHost}`));
+  }
+
+  private keepsParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    if (this.scope.stripAllQueryParams) {
+      return this.keepParams.some(pattern => pattern.test(lower));
+    }
+    return !this.stripParams.some(pattern => pattern.test(lower));
+  }
+}
+
+type PathMatcher = (url: URL) => boolean;
+
+// Globs match the path alone; regular expressions also see the query string
+function compilePatterns(patterns: string[]): PathMatcher[] {
+  const compiled: PathMatcher[] = [];
+  for (const pattern of patterns) {
+    if (pattern.startsWith(REGEX_PREFIX)) {
+      try {
+        const regex = new RegExp(pattern.slice(REGEX_PREFIX.length));
+        compiled.push(url => regex.test(url.pathname + url.search));
+      } catch {
+        // Invalid expressions are rejected on save; ignore any that slipped through
+      }
+    } else {
+      const regex = pathGlobToRegExp(pattern);
+      compiled.push(url => regex.test(url.pathname));
+    }
+  }
+  return compiled;
+}
+
+// "*" stays within one path segment, "**" crosses segments
+function pathGlobToRegExp(glob: string): RegExp {
+  const path = glob.startsWith("/") ? glob : `/${glob}`;
+  const source = path
+    .split("**")
+    .map(part => part
+      .split("*")
+      .map(chunk => escapeRegExp(chunk).replace(/\\\?/g, "[^/]"))
+      .join("[^/]*"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.toLowerCase().split("*").map(escapeRegExp).join(".*");
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
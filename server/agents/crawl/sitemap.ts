@@ -0,0 +1,144 @@
+import { gunzipSync } from "zlib";
+import type { SitemapFileSummary } from "@shared/schema";
+import { CRAWLER_USER_AGENT, RobotsCache } from "./robots";
+import type { CrawlSession } from "./auth";
+import { readDocumentBody } from "./documents";
+
+const MAX_SITEMAP_FILES = 50;
+const MAX_SITEMAP_URLS = 50000;
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export interface SitemapDiscovery {
+  sitemaps: SitemapFileSummary[];
+  urls: string[];
+}
+
+export async function discoverSitemaps(
+  startUrl: string,
+  robotsCache: RobotsCache = new RobotsCache(),
+  session?: CrawlSession
+): Promise<SitemapDiscovery> {
+  const robots = await robotsCache.get(startUrl);
+  const candidates = robots.sitemaps.length > 0
+    ? robots.sitemaps
+    : [`${new URL(startUrl).origin}/sitemap.xml`];
+
+  const sitemaps: SitemapFileSummary[] = [];
+  const urls: string[] = [];
+  const seenUrls = new Set<string>();
+  const seenSitemaps = new Set<string>();
+  const queue: { url: string; source: SitemapFileSummary["source"] }[] = candidates.map(url => ({
+    url,
+    source: robots.sitemaps.length > 0 ? "robots" : "default",
+  }));
+
+  while (queue.length > 0 && sitemaps.length < MAX_SITEMAP_FILES) {
+    const { url, source } = queue.shift()!;
+    if (seenSitemaps.has(url)) continue;
+    seenSitemaps.add(url);
+
+    const file = await fetchSitemap(url, session?.headersFor(url));
+    sitemaps.push({
+      url,
+      source,
+      statusCode: file.statusCode,
+      type: file.type,
+      urlCount: file.locs.length,
+      error: file.error,
+    });
+
+    if (file.type === "index") {
+      for (const loc of file.locs) {
+        queue.push({ url: loc, source: "index" });
+      }
+      continue;
+    }
+
+    for (const loc of file.locs) {
+      if (urls.length >= MAX_SITEMAP_URLS) break;
+      if (!seenUrls.has(loc)) {
+        seenUrls.add(loc);
+        urls.push(loc);
+      }
+    }
+  }
+
+  return { sitemaps, urls };
+}
+
+export function parseSitemapXml(xml: string): { type: "index" | "urlset"; locs: string[] } {
+  const type = /<(?:\w+:)?sitemapindex[\s>]/i.test(xml) ? "index" : "urlset";
+  const locs: string[] = [];
+  const locPattern = /<(?:\w+:)?loc>([\s\S]*?)<\/(?:\w+:)?loc>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = locPattern.exec(xml)) !== null) {
+    const loc = decodeXmlText(match[1]);
+    if (loc) locs.push(loc);
+  }
+
+  return { type, locs };
+}
+
+async function fetchSitemap(url: string, authHeaders: Record<string, string> = {}): Promise<{
+  statusCode: number;
+  type: "index" | "urlset";
+  locs: string[];
+  error?: string;
+}> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        ...authHeaders,
+        "User-Agent": CRAWLER_USER_AGENT,
+        "Accept": "application/xml,text/xml,application/gzip;q=0.9,*/*;q=0.8",
+      },
+      signal: AbortSignal.timeout(20000),
+    });
+
+    if (!response.ok) {
+      return { statusCode: response.status, type: "urlset", locs: [], error: `HTTP ${response.status}` };
+    }
+
+    const download = await readDocumentBody(response, MAX_SITEMAP_BYTES);
+    if (download.truncated) {
+      return { statusCode: response.status, type: "urlset", locs: [], error: "Sitemap exceeds 50MB" };
+    }
+
+    // fetch only decodes Content-Encoding; .xml.gz files arrive still compressed
+    let body = download.body;
+    if (body[0] === 0x1f && body[1] === 0x8b) {
+      try {
+        body = gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+      } catch (error) {
+        if (!(error instanceof RangeError)) throw error;
+        return { statusCode: response.status, type: "urlset", locs: [], error: "Sitemap exceeds 50MB when decompressed" };
+      }
+    }
+
+    const xml = body.toString("utf-8");
+    if (!/<(?:\w+:)?(urlset|sitemapindex)[\s>]/i.test(xml)) {
+      return { statusCode: response.status, type: "urlset", locs: [], error: "Not a valid XML sitemap" };
+    }
+
+    return { statusCode: response.status, ...parseSitemapXml(xml) };
+  } catch (error) {
+    return {
+      statusCode: 0,
+      type: "urlset",
+      locs: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .trim();
+}
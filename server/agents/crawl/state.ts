@@ -0,0 +1,31 @@
+import type { CrawlResult } from "../types";
+
+export interface FrontierEntry {
+  url: string;
+  urlKey: string;
+  depth: number;
+}
+
+export interface CompletedVisit {
+  // The requested URL plus a redirect target that was recorded in its place
+  entries: FrontierEntry[];
+  // False for URLs skipped by robots.txt, which do not use up the page budget
+  fetched: boolean;
+  pages: CrawlResult[];
+}
+
+export interface CrawlCheckpoint {
+  pending: FrontierEntry[];
+  visited: (FrontierEntry & { fetched: boolean })[];
+  pages: CrawlResult[];
+}
+
+/**
+ * Persists the crawl frontier as it changes. A URL stays pending until its
+ * visit completes, so pages in flight during a crash are fetched again.
+ */
+export interface CrawlStateStore {
+  load(): Promise<CrawlCheckpoint | null>;
+  enqueue(entries: FrontierEntry[]): Promise<void>;
+  complete(visit: CompletedVisit): Promise<void>;
+}
@@ -0,0 +1,266 @@
+import type { CrawlTrap, CrawlTrapKind } from "@shared/schema";
+
+const SESSION_PARAMS = /^(sid|sessid|sessionid|session_id|jsessionid|phpsessid|aspsessionid\w*|cfid|cftoken|zenid|oscsid|xtcsid)$/i;
+const PATH_SESSION = /;(jsessionid|phpsessid|sid)=/i;
+const PAGINATION_PARAMS = /^(page|p|paged|pg|seite|pagenum|page_num)$/i;
+const PAGINATION_SEGMENTS = /^(page|seite)$/i;
+const DATE_PARAMS = /^(date|day|month|year|week|cal|calendar)$/i;
+const DATE_VALUE = /^(\d{4})-(0?[1-9]|1[0-2])(-\d{1,2})?$/;
+const YEAR_SEGMENT = /^\d{4}$/;
+const MONTH_SEGMENT = /^(0?[1-9]|1[0-2])$/;
+// Nothing crawlable is dated before the web existed
+const MIN_CALENDAR_YEAR = 1990;
+const MAX_EXAMPLES = 5;
+
+export interface CrawlTrapLimits {
+  // Distinct query strings queued for one path before further ones count as faceted navigation
+  maxQueryVariantsPerPath: number;
+  // Filter parameters a single URL may combine
+  maxFilterParams: number;
+  // Pages past this one count as endless pagination; set per website in the crawl scope
+  maxPaginationPage: number;
+}
+
+const DEFAULT_LIMITS: CrawlTrapLimits = {
+  maxQueryVariantsPerPath: 25,
+  maxFilterParams: 3,
+  maxPaginationPage: 50,
+};
+
+interface CalendarDate {
+  year: number;
+  month?: number;
+}
+
+interface TrapMatch {
+  kind: CrawlTrapKind;
+  pattern: string;
+  suggestedRule: string;
+}
+
+/**
+ * Recognizes URL spaces that never run out: session IDs, relative-link
+ * loops, endless pagination, calendars and filter permutations. The crawler
+ * asks before queueing a discovered link; trapped URLs are not expanded and
+ * are collected per pattern for the report.
+ */
+export class CrawlTrapDetector {
+  private readonly limits: CrawlTrapLimits;
+  private readonly now = new Date();
+  private queryVariants = new Map<string, Set<string>>();
+  private traps = new Map<string, CrawlTrap>();
+  private blocked = new Set<string>();
+
+  constructor(limits: Partial<CrawlTrapLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  /** Returns the trap a URL belongs to, or null when it may be queued. */
+  check(url: string, sourcePage?: string): CrawlTrapKind | null {
+    const parsed = parseUrl(url);
+    const match = parsed && this.detect(parsed);
+    if (!match) return null;
+
+    const key = `${match.kind} ${match.pattern}`;
+    let trap = this.traps.get(key);
+    if (!trap) {
+      trap = { ...match, exampleUrls: [], sourcePages: [], blockedCount: 0 };
+      this.traps.set(key, trap);
+    }
+    if (!this.blocked.has(url)) {
+      this.blocked.add(url);
+      trap.blockedCount++;
+    }
+    if (trap.exampleUrls.length < MAX_EXAMPLES && !trap.exampleUrls.includes(url)) {
+      trap.exampleUrls.push(url);
+    }
+    if (sourcePage && trap.sourcePages.length < MAX_EXAMPLES && !trap.sourcePages.includes(sourcePage)) {
+      trap.sourcePages.push(sourcePage);
+    }
+    return match.kind;
+  }
+
+  /** Counts URLs that are already queued towards the variant limits without reporting them. */
+  prime(urls: string[]) {
+    for (const url of urls) {
+      const parsed = parseUrl(url);
+      if (parsed) this.detect(parsed);
+    }
+  }
+
+  getTraps(): CrawlTrap[] {
+    return Array.from(this.traps.values()).sort((a, b) => b.blockedCount - a.blockedCount);
+  }
+
+  private detect(url: URL): TrapMatch | null {
+    return detectSessionId(url) ||
+      detectRepeatingPath(url) ||
+      this.detectPagination(url) ||
+      this.detectCalendar(url) ||
+      this.detectFacets(url);
+  }
+
+  private detectPagination(url: URL): TrapMatch | null {
+    for (const [name, value] of Array.from(url.searchParams.entries())) {
+      if (PAGINATION_PARAMS.test(name) && /^\d+$/.test(value) && parseInt(value, 10) > this.limits.maxPaginationPage) {
+        return {
+          kind: "infinite_pagination",
+          pattern: `${url.pathname}?${name}=N`,
+          suggestedRule: `Answer ?${name}= values past the last page with 404 and don't link a next page from the last one`,
+        };
+      }
+    }
+
+    const segments = url.pathname.split("/");
+    for (let i = 0; i < segments.length - 1; i++) {
+      if (PAGINATION_SEGMENTS.test(segments[i]) && /^\d+$/.test(segments[i + 1]) &&
+          parseInt(segments[i + 1], 10) > this.limits.maxPaginationPage) {
+        return {
+          kind: "infinite_pagination",
+          pattern: `${segments.slice(0, i + 1).join("/")}/N`,
+          suggestedRule: `Answer /${segments[i]}/N past the last page with 404 and don't link a next page from the last one`,
+        };
+      }
+    }
+    return null;
+  }
+
+  private detectCalendar(url: URL): TrapMatch | null {
+    const dates: CalendarDate[] = [];
+    const segments = url.pathname.split("/");
+    const template = segments.map((segment, i) => {
+      const date = segment.match(DATE_VALUE);
+      if (date) {
+        dates.push({ year: parseInt(date[1], 10), month: parseInt(date[2], 10) });
+        return "{date}";
+      }
+      if (YEAR_SEGMENT.test(segment) && MONTH_SEGMENT.test(segments[i + 1] || "")) {
+        dates.push({ year: parseInt(segment, 10), month: parseInt(segments[i + 1], 10) });
+        return "{year}";
+      }
+      if (i > 0 && isMonthAfterYear(segments, i)) return "{month}";
+      return segment;
+    }).join("/");
+
+    const params = Array.from(url.searchParams.entries()).map(([name, value]) => {
+      const date = value.match(DATE_VALUE);
+      if (date) dates.push({ year: parseInt(date[1], 10), month: parseInt(date[2], 10) });
+      else if (!DATE_PARAMS.test(name) || !/^\d{1,4}$/.test(value)) return `${name}=${value}`;
+      else if (value.length === 4) dates.push({ year: parseInt(value, 10) });
+      return `${name}={date}`;
+    });
+    const dateParams = params.filter(param => param.endsWith("={date}"));
+    if (dates.length === 0) return null;
+
+    const pattern = `${template}${dateParams.length > 0 ? `?${dateParams.join("&")}` : ""}`;
+    const suggestedRule = dateParams.length > 0
+      ? dateParams.map(param => `Disallow: /*?*${param.split("=")[0]}=`).join("\n")
+      : "Answer dates outside the range that has content with 404 and don't link further than that";
+
+    // Archives of past months are real content however far back they go; only dates nothing can exist for are traps
+    if (dates.some(date => date.year < MIN_CALENDAR_YEAR || this.isFuture(date))) {
+      return { kind: "calendar", pattern, suggestedRule };
+    }
+    return null;
+  }
+
+  private isFuture({ year, month }: CalendarDate): boolean {
+    const currentYear = this.now.getFullYear();
+    return year > currentYear || (year === currentYear && month !== undefined && month > this.now.getMonth() + 1);
+  }
+
+  private detectFacets(url: URL): TrapMatch | null {
+    const filters = Array.from(new Set(Array.from(url.searchParams.keys())))
+      .filter(name => !PAGINATION_PARAMS.test(name))
+      .sort();
+    if (filters.length === 0) return null;
+
+    const query = Array.from(url.searchParams.entries())
+      .filter(([name]) => !PAGINATION_PARAMS.test(name))
+      .map(([name, value]) => `${name}=${value}`)
+      .sort()
+      .join("&");
+    const overLimit = filters.length > this.limits.maxFilterParams ||
+      isOverLimit(this.queryVariants, `${url.origin}${url.pathname}`, query, this.limits.maxQueryVariantsPerPath);
+    if (!overLimit) return null;
+
+    return {
+      kind: "faceted_navigation",
+      pattern: `${url.pathname}?…`,
+      suggestedRule: [
+        ...filters.map(name => `Disallow: /*?*${name}=`),
+        `<link rel="canonical" href="${url.origin}${url.pathname}">`,
+      ].join("\n"),
+    };
+  }
+}
+
+function detectSessionId(url: URL): TrapMatch | null {
+  const pathSession = url.pathname.match(PATH_SESSION);
+  if (pathSession) {
+    return {
+      kind: "session_id",
+      pattern: `;${pathSession[1]}=…`,
+      suggestedRule: `Disallow: /*;${pathSession[1]}=`,
+    };
+  }
+
+  const param = Array.from(url.searchParams.keys()).find(name => SESSION_PARAMS.test(name));
+  if (param) {
+    return {
+      kind: "session_id",
+      pattern: `?${param}=…`,
+      suggestedRule: `Disallow: /*?*${param}=`,
+    };
+  }
+  return null;
+}
+
+// Relative links resolved against the wrong base produce /a/b/a/b/a/b/...
+function detectRepeatingPath(url: URL): TrapMatch | null {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const counts = new Map<string, number>();
+  segments.forEach(segment => counts.set(segment, (counts.get(segment) || 0) + 1));
+
+  let repeated = Array.from(counts.keys()).find(segment => counts.get(segment)! >= 3);
+  for (let size = 2; !repeated && size * 2 <= segments.length; size++) {
+    for (let i = 0; i + size * 2 <= segments.length; i++) {
+      const block = segments.slice(i, i + size).join("/");
+      if (block === segments.slice(i + size, i + size * 2).join("/")) {
+        repeated = block;
+        break;
+      }
+    }
+  }
+  if (!repeated) return null;
+
+  return {
+    kind: "repeating_path",
+    pattern: `/…/${repeated}/…/${repeated}`,
+    suggestedRule: `Disallow: /*/${repeated}/*/${repeated}`,
+  };
+}
+
+function isMonthAfterYear(segments: string[], i: number): boolean {
+  return YEAR_SEGMENT.test(segments[i - 1]) && MONTH_SEGMENT.test(segments[i]);
+}
+
+function isOverLimit(variants: Map<string, Set<string>>, key: string, variant: string, limit: number): boolean {
+  let seen = variants.get(key);
+  if (!seen) {
+    seen = new Set();
+    variants.set(key, seen);
+  }
+  if (seen.has(variant)) return false;
+  if (seen.size >= limit) return true;
+  seen.add(variant);
+  return false;
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
@@ -1,71 +1,300 @@
 import type { CrawlResult, ImageAsset } from "./types";
-import { detectImageDetails, detectDuplicates } from "./image";
+import { DEFAULT_CRAWL_SCOPE, type CrawlScope, type CrawlStats, type CrawlTrap, type SocialImage } from "@shared/schema";
+import { detectImageDetails, detectDuplicates, probeImage } from "./image";
+import {
+  CRAWLER_USER_AGENT,
+  RobotsCache,
+  HostRateLimiter,
+  CrawlStatsCollector,
+  CrawlScopeFilter,
+  CrawlSession,
+  normalizeUrl,
+  getUrlKey,
+  captureHeaders,
+  getLinkHeaderCanonicals,
+  isAllowedByRobots,
+  getCrawlDelayMs,
+  parseXRobotsTag,
+  parseHTML,
+  resolveUrl,
+  fetchFollowingRedirects,
+  isRedirectStatus,
+  ResourceInventory,
+  computePageWeight,
+  CrawlTrapDetector,
+  getDocumentType,
+  readDocumentBody,
+  describeDocument,
+  buildLinkGraph,
+  type CompletedVisit,
+  type DocumentDownload,
+  type RedirectedResponse,
+  type CrawlStateStore,
+  type FrontierEntry,
+  type LinkGraphEdge,
+} from "./crawl";
 
 export interface CrawlOptions {
   maxPages?: number;
   analyzeImages?: boolean;
   maxImagesPerPage?: number;
+  analyzeResources?: boolean;
+  maxResourcesPerPage?: number;
+  seedUrls?: string[];
+  robotsCache?: RobotsCache;
+  concurrency?: number;
+  maxCrawlTimeMs?: number;
+  pageTimeoutMs?: number;
+  minRequestIntervalMs?: number;
+  maxConcurrentPerHost?: number;
+  rateLimiter?: HostRateLimiter;
+  scope?: Partial<CrawlScope> | null;
+  session?: CrawlSession;
+  stateStore?: CrawlStateStore;
+  detectTraps?: boolean;
+}
+
+export interface CrawlOutcome {
+  pages: CrawlResult[];
+  stats: CrawlStats;
+  traps: CrawlTrap[];
+  links: LinkGraphEdge[];
 }
 
 const defaultOptions: CrawlOptions = {
   maxPages: 5,
   analyzeImages: true,
   maxImagesPerPage: 10,
+  analyzeResources: true,
+  maxResourcesPerPage: 40,
+  concurrency: 2,
+  maxCrawlTimeMs: 2 * 60 * 1000,
+  pageTimeoutMs: 10000,
+  minRequestIntervalMs: 250,
+  maxConcurrentPerHost: 2,
+  detectTraps: true,
 };
 
+const MAX_REFERRERS_PER_URL = 10;
+
+interface FetchedPage extends RedirectedResponse {
+  html: string;
+  download?: DocumentDownload;
+}
+
 export async function crawlWebsite(
   url: string, 
   options: CrawlOptions | number = 5
 ): Promise<CrawlResult[]> {
+  const { pages } = await runCrawl(url, options);
+  return pages;
+}
+
+export async function runCrawl(
+  url: string,
+  options: CrawlOptions | number = 5
+): Promise<CrawlOutcome> {
   const opts = typeof options === "number" 
     ? { ...defaultOptions, maxPages: options }
     : { ...defaultOptions, ...options };
+  const maxPages = opts.maxPages || 5;
+  const concurrency = Math.max(1, opts.concurrency || 1);
+  const deadline = Date.now() + (opts.maxCrawlTimeMs || 120000);
+
+  // visited, depths and referrers are keyed by getUrlKey so spelling variants share one entry
   const results: CrawlResult[] = [];
   const visited = new Set<string>();
-  const toVisit = [url];
-  const allImageHashes = new Map<string, string[]>();
-  
-  while (toVisit.length > 0 && results.length < (opts.maxPages || 5)) {
-    const currentUrl = toVisit.shift()!;
-    
-    if (visited.has(currentUrl)) continue;
-    visited.add(currentUrl);
-    
+  const scope = new CrawlScopeFilter(url, opts.scope);
+  const toVisit = [normalizeUrl(url), ...getSeedUrls(url, scope, opts.seedUrls)];
+  const depths = new Map<string, number>(toVisit.map(seed => [getUrlKey(seed), 0] as [string, number]));
+  const referrers = new Map<string, string[]>();
+  const robotsCache = opts.robotsCache || new RobotsCache();
+  const limiter = opts.rateLimiter || new HostRateLimiter(opts.minRequestIntervalMs, opts.maxConcurrentPerHost);
+  const stats = new CrawlStatsCollector(maxPages, concurrency);
+  const resources = opts.analyzeResources
+    ? new ResourceInventory(url, { rateLimiter: limiter, session: opts.session, timeoutMs: opts.pageTimeoutMs })
+    : undefined;
+  const traps = opts.detectTraps
+    ? new CrawlTrapDetector({ maxPaginationPage: opts.scope?.maxPaginationPage ?? DEFAULT_CRAWL_SCOPE.maxPaginationPage })
+    : undefined;
+  // Most pages share one og:image, so each is downloaded once per crawl
+  const socialImages = new Map<string, Promise<SocialImage>>();
+  const idleWorkers: (() => void)[] = [];
+  let pagesFetched = 0;
+  let inFlight = 0;
+
+  // Persistence failures are logged and the crawl carries on in memory
+  const persist = async (action: (store: CrawlStateStore) => Promise<void>) => {
+    if (!opts.stateStore) return;
     try {
-      const result = await crawlPage(currentUrl, opts);
-      
-      if (result.imagesDetailed) {
-        for (const img of result.imagesDetailed) {
-          if (img.hash) {
-            const urls = allImageHashes.get(img.hash) || [];
-            urls.push(img.absoluteSrc);
-            allImageHashes.set(img.hash, urls);
-          }
+      await action(opts.stateStore);
+    } catch (error) {
+      console.error("Failed to persist crawl state:", error);
+    }
+  };
+
+  const checkpoint = opts.stateStore ? await opts.stateStore.load() : null;
+  if (checkpoint) {
+    toVisit.length = 0;
+    for (const entry of checkpoint.visited) {
+      visited.add(entry.urlKey);
+      depths.set(entry.urlKey, entry.depth);
+      if (entry.fetched) pagesFetched++;
+    }
+    for (const entry of checkpoint.pending) {
+      toVisit.push(entry.url);
+      depths.set(entry.urlKey, entry.depth);
+    }
+    traps?.prime([...checkpoint.visited, ...checkpoint.pending].map(entry => entry.url));
+    for (const page of checkpoint.pages) {
+      results.push(page);
+      // Byte counts are not restored; redirect entries share a fetch with their target
+      if (page.skipReason === "robots_txt") stats.recordSkip();
+      else if (!page.redirectChain) stats.recordPage(0, page.statusCode);
+      for (const link of page.links || []) {
+        const linkUrl = scope.normalize(link.href);
+        if (linkUrl) addReferrer(referrers, getUrlKey(linkUrl), page.url);
+      }
+    }
+  } else {
+    await persist(store => store.enqueue(toVisit.map(seed => ({ url: seed, urlKey: getUrlKey(seed), depth: 0 }))));
+  }
+
+  const wakeIdleWorkers = () => {
+    while (idleWorkers.length > 0) idleWorkers.shift()!();
+  };
+
+  const processUrl = async (currentUrl: string): Promise<CompletedVisit | undefined> => {
+    const depth = depths.get(getUrlKey(currentUrl)) || 0;
+    const visit: CompletedVisit = {
+      entries: [{ url: currentUrl, urlKey: getUrlKey(currentUrl), depth }],
+      fetched: false,
+      pages: [],
+    };
+    const record = (page: CrawlResult) => {
+      results.push(page);
+      visit.pages.push(page);
+    };
+
+    try {
+      const robots = await robotsCache.get(currentUrl);
+      if (!isAllowedByRobots(robots, currentUrl)) {
+        stats.recordSkip();
+        record({
+          url: currentUrl,
+          skipReason: "robots_txt",
+          depth,
+        });
+        return visit;
+      }
+
+      // Re-check after the robots lookup so parallel workers cannot overshoot the budget
+      if (pagesFetched >= maxPages) return undefined;
+      pagesFetched++;
+      visit.fetched = true;
+      limiter.setCrawlDelay(currentUrl, getCrawlDelayMs(robots));
+
+      const { result, redirect, bytes } = await crawlPage(currentUrl, opts, limiter, socialImages, resources);
+      result.depth = depth;
+      stats.recordPage(bytes, result.statusCode);
+      for (const img of result.imagesDetailed || []) {
+        stats.recordBytes(img.fileSize || 0);
+      }
+
+      if (redirect) {
+        record({ ...redirect, depth });
+
+        // The target is only recorded as a page when it is an on-site URL nobody else has crawled.
+        // A redirect that only drops tracking parameters lands on the same key as the URL that was requested.
+        const targetKey = getUrlKey(result.url);
+        if (
+          redirect.redirectLoop ||
+          isRedirectStatus(result.statusCode || 0) ||
+          scope.normalize(result.url) === null ||
+          (targetKey !== getUrlKey(currentUrl) && visited.has(targetKey))
+        ) {
+          return visit;
+        }
+        visited.add(targetKey);
+        if (targetKey !== getUrlKey(currentUrl)) {
+          visit.entries.push({ url: result.url, urlKey: targetKey, depth });
         }
       }
       
-      results.push(result);
+      record(result);
       
-      if (result.links) {
-        const baseUrl = new URL(url);
-        for (const link of result.links) {
-          try {
-            const linkUrl = new URL(link.href, url);
-            if (linkUrl.hostname === baseUrl.hostname && !visited.has(linkUrl.href)) {
-              toVisit.push(linkUrl.href);
-            }
-          } catch {
-          }
+      const linkDepth = depth + 1;
+      const discovered: FrontierEntry[] = [];
+      const enqueueLinks = followsLinks(result) && scope.withinDepth(linkDepth);
+      for (const link of result.links || []) {
+        const linkUrl = scope.normalize(link.href);
+        if (!linkUrl) continue;
+        const key = getUrlKey(linkUrl);
+        // Every link counts as a referrer, even to URLs that were already crawled or are not followed
+        addReferrer(referrers, key, result.url);
+        if (!enqueueLinks || visited.has(key) || depths.has(key)) continue;
+        if (traps?.check(linkUrl, result.url)) continue;
+        toVisit.push(linkUrl);
+        depths.set(key, linkDepth);
+        discovered.push({ url: linkUrl, urlKey: key, depth: linkDepth });
+      }
+      // Canonical targets are crawled even when nothing links to them, so their status can be checked
+      const canonicalUrl = result.canonical ? scope.normalize(result.canonical) : null;
+      if (canonicalUrl && scope.withinDepth(linkDepth)) {
+        const key = getUrlKey(canonicalUrl);
+        if (!visited.has(key) && !depths.has(key)) {
+          toVisit.push(canonicalUrl);
+          depths.set(key, linkDepth);
+          discovered.push({ url: canonicalUrl, urlKey: key, depth: linkDepth });
         }
       }
+      if (discovered.length > 0) {
+        await persist(store => store.enqueue(discovered));
+      }
     } catch (error) {
       console.error(`Failed to crawl ${currentUrl}:`, error);
-      results.push({
+      stats.recordError();
+      record({
         url: currentUrl,
         statusCode: 500,
       });
     }
-  }
+    return visit;
+  };
+
+  const worker = async () => {
+    while (pagesFetched < maxPages) {
+      if (Date.now() > deadline) {
+        stats.markTimedOut();
+        return;
+      }
+
+      const currentUrl = toVisit.shift();
+      if (currentUrl === undefined) {
+        // Queue is drained; wait for an in-flight page to discover more links
+        if (inFlight === 0) return;
+        await new Promise<void>(resolve => idleWorkers.push(resolve));
+        continue;
+      }
+
+      const key = getUrlKey(currentUrl);
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      inFlight++;
+      try {
+        const visit = await processUrl(currentUrl);
+        if (visit) {
+          await persist(store => store.complete(visit));
+        }
+      } finally {
+        inFlight--;
+        wakeIdleWorkers();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
   
   if (opts.analyzeImages) {
     for (const result of results) {
@@ -75,119 +304,191 @@ export async function crawlWebsite(
     }
   }
   
-  return results;
+  // Referrers are only complete once every page is crawled, so blocked URLs and redirects get them now
+  for (const result of results) {
+    if (result.skipReason === "robots_txt" || result.redirectChain) {
+      result.linkedFrom = referrers.get(getUrlKey(result.url));
+    }
+  }
+
+  const linkGraph = buildLinkGraph(url, results);
+  for (const result of results) {
+    const metrics = result.redirectChain ? undefined : linkGraph.metrics.get(getUrlKey(result.url));
+    if (metrics) Object.assign(result, metrics);
+  }
+
+  return {
+    pages: results,
+    stats: stats.toJSON(),
+    traps: traps ? traps.getTraps() : [],
+    links: linkGraph.edges,
+  };
 }
 
-async function crawlPage(url: string, opts: CrawlOptions): Promise<CrawlResult> {
+async function crawlPage(
+  url: string,
+  opts: CrawlOptions,
+  limiter: HostRateLimiter,
+  socialImages: Map<string, Promise<SocialImage>>,
+  resources?: ResourceInventory
+): Promise<{ result: CrawlResult; redirect?: CrawlResult; bytes: number }> {
   const startTime = Date.now();
   
   try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "SiteScout-SEO-Bot/1.0",
-        "Accept": "text/html,application/xhtml+xml",
-      },
-      signal: AbortSignal.timeout(10000),
+    const { response, finalUrl, chain, loop, html, download } = await limiter.schedule(url, async (): Promise<FetchedPage> => {
+      const fetched = await fetchFollowingRedirects(url, {
+        headers: {
+          "User-Agent": CRAWLER_USER_AGENT,
+          "Accept": "text/html,application/xhtml+xml",
+        },
+        signal: AbortSignal.timeout(opts.pageTimeoutMs || 10000),
+      }, {
+        headersFor: opts.session && (hopUrl => opts.session!.headersFor(hopUrl)),
+      });
+      if (isRedirectStatus(fetched.response.status)) {
+        return { ...fetched, html: "" };
+      }
+      // Documents are read as bytes; decoding a PDF as text only produces garbage
+      if (fetched.response.ok && getDocumentType(fetched.response.headers.get("content-type"), fetched.finalUrl)) {
+        return { ...fetched, html: "", download: await readDocumentBody(fetched.response) };
+      }
+      return { ...fetched, html: await fetched.response.text() };
     });
     
     const loadTime = Date.now() - startTime;
-    const html = await response.text();
+    const redirect: CrawlResult | undefined = chain.length > 0
+      ? {
+          url,
+          statusCode: chain[0].statusCode,
+          loadTime,
+          redirectChain: chain,
+          finalUrl,
+          finalStatusCode: response.status,
+          redirectLoop: loop || undefined,
+        }
+      : undefined;
+
+    if (isRedirectStatus(response.status)) {
+      return { result: { url: finalUrl, statusCode: response.status, loadTime }, redirect, bytes: 0 };
+    }
+
+    const robotsDirectives = parseXRobotsTag(response.headers.get("x-robots-tag"));
+
+    if (download) {
+      const contentType = response.headers.get("content-type") || "";
+      return {
+        result: {
+          url: finalUrl,
+          statusCode: response.status,
+          loadTime,
+          responseHeaders: captureHeaders(response.headers),
+          ...(await describeDocument(getDocumentType(contentType, finalUrl)!, contentType, download)),
+          ...getCanonicals([], response.headers.get("link"), finalUrl),
+          robotsDirectives: robotsDirectives.raw.length > 0 ? robotsDirectives.raw : undefined,
+          skipReason: robotsDirectives.noindex ? "x_robots_noindex" : undefined,
+        },
+        redirect,
+        bytes: download.body.length,
+      };
+    }
     
-    const parsed = parseHTML(html, url);
+    const parsed = parseHTML(html, finalUrl);
     
     let imagesDetailed: ImageAsset[] | undefined;
     if (opts.analyzeImages && parsed.images && parsed.images.length > 0) {
       const imagesToAnalyze = parsed.images.slice(0, opts.maxImagesPerPage || 10);
       imagesDetailed = await Promise.all(
         imagesToAnalyze.map(img => 
-          detectImageDetails(img.src, img.alt, html)
+          detectImageDetails(img.src, img.alt, html, { rateLimiter: limiter, session: opts.session })
         )
       );
     }
     
+    const socialImageUrl = parsed.openGraph?.["og:image"] || parsed.twitterCard?.["twitter:image"];
+    let socialImage: SocialImage | undefined;
+    if (socialImageUrl) {
+      const imageUrl = resolveUrl(socialImageUrl, finalUrl);
+      if (!socialImages.has(imageUrl)) {
+        socialImages.set(imageUrl, probeSocialImage(imageUrl, opts, limiter));
+      }
+      socialImage = await socialImages.get(imageUrl);
+    }
+
+    const pageResources = resources ? await resources.collect(parsed, opts.maxResourcesPerPage) : undefined;
+    const contentLength = parseInt(response.headers.get("content-length") || "", 10);
+    const htmlBytes = contentLength >= 0 ? contentLength : Buffer.byteLength(html);
+
     return {
-      url,
-      statusCode: response.status,
-      loadTime,
-      ...parsed,
-      imagesDetailed,
+      result: {
+        url: finalUrl,
+        statusCode: response.status,
+        loadTime,
+        responseHeaders: captureHeaders(response.headers),
+        ...parsed,
+        ...getCanonicals(parsed.declaredCanonicals || [], response.headers.get("link"), finalUrl),
+        socialImage,
+        imagesDetailed,
+        resources: pageResources,
+        pageWeight: pageResources && computePageWeight(htmlBytes, pageResources, imagesDetailed),
+        robotsDirectives: robotsDirectives.raw.length > 0 ? robotsDirectives.raw : undefined,
+        skipReason: robotsDirectives.noindex ? "x_robots_noindex" : undefined,
+      },
+      redirect,
+      bytes: Buffer.byteLength(html),
     };
   } catch (error) {
     return {
-      url,
-      statusCode: 0,
-      loadTime: Date.now() - startTime,
+      result: {
+        url,
+        statusCode: 0,
+        loadTime: Date.now() - startTime,
+      },
+      bytes: 0,
     };
   }
 }
 
-function parseHTML(html: string, baseUrl: string): Partial<CrawlResult> {
-  // Extract title
-  const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-  const title = titleMatch?.[1]?.trim();
-  
-  // Extract meta description
-  const metaDescMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i) ||
-                        html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*name=["']description["']/i);
-  const metaDescription = metaDescMatch?.[1]?.trim();
-  
-  // Extract H1s
-  const h1Matches = html.matchAll(/<h1[^>]*>([^<]*(?:<[^/][^>]*>[^<]*)*)<\/h1>/gi);
-  const h1 = [...h1Matches].map(m => stripTags(m[1]).trim()).filter(Boolean);
-  
-  // Extract H2s
-  const h2Matches = html.matchAll(/<h2[^>]*>([^<]*(?:<[^/][^>]*>[^<]*)*)<\/h2>/gi);
-  const h2 = [...h2Matches].map(m => stripTags(m[1]).trim()).filter(Boolean);
-  
-  // Extract images
-  const imgMatches = html.matchAll(/<img[^>]*src=["']([^"']+)["'][^>]*>/gi);
-  const images: { src: string; alt?: string }[] = [];
-  for (const match of imgMatches) {
-    const src = match[1];
-    const altMatch = match[0].match(/alt=["']([^"']*)["']/i);
-    images.push({
-      src: resolveUrl(src, baseUrl),
-      alt: altMatch?.[1] || undefined,
-    });
+async function probeSocialImage(url: string, opts: CrawlOptions, limiter: HostRateLimiter): Promise<SocialImage> {
+  try {
+    const { ok, fileSize, width, height, format } = await probeImage(url, { rateLimiter: limiter, session: opts.session });
+    return ok ? { url, width, height, fileSize, format } : { url, error: "Failed to fetch image" };
+  } catch (error) {
+    return { url, error: error instanceof Error ? error.message : String(error) };
   }
-  
-  // Extract links
-  const linkMatches = html.matchAll(/<a[^>]*href=["']([^"']+)["'][^>]*>([^<]*(?:<[^/][^>]*>[^<]*)*)<\/a>/gi);
-  const links: { href: string; text: string }[] = [];
-  for (const match of linkMatches) {
-    links.push({
-      href: resolveUrl(match[1], baseUrl),
-      text: stripTags(match[2]).trim(),
-    });
+}
+
+function getSeedUrls(startUrl: string, scope: CrawlScopeFilter, seedUrls: string[] = []): string[] {
+  const seen = new Set<string>([getUrlKey(startUrl)]);
+  const seeds: string[] = [];
+  for (const seed of seedUrls) {
+    const normalized = scope.normalize(seed);
+    if (!normalized || seen.has(getUrlKey(normalized))) continue;
+    seen.add(getUrlKey(normalized));
+    seeds.push(normalized);
   }
-  
-  // Extract body text (simplified)
-  const bodyMatch = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
-  const bodyHtml = bodyMatch?.[1] || html;
-  const bodyText = stripTags(bodyHtml)
-    .replace(/\s+/g, " ")
-    .trim()
-    .slice(0, 5000);
-  
-  return {
-    title,
-    metaDescription,
-    h1,
-    h2,
-    images,
-    links,
-    bodyText,
-  };
+  return seeds;
 }
 
-function stripTags(html: string): string {
-  return html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ");
+// Merges the canonicals of the HTML with those of the Link header, HTML first
+function getCanonicals(htmlCanonicals: string[], linkHeader: string | null, baseUrl: string): Partial<CrawlResult> {
+  const declared = htmlCanonicals.slice();
+  for (const url of getLinkHeaderCanonicals(linkHeader, baseUrl)) {
+    if (!declared.includes(url)) declared.push(url);
+  }
+  return declared.length > 0 ? { canonical: declared[0], declaredCanonicals: declared } : {};
 }
 
-function resolveUrl(url: string, base: string): string {
-  try {
-    return new URL(url, base).href;
-  } catch {
-    return url;
+function followsLinks(result: CrawlResult): boolean {
+  const directives = (result.robotsDirectives || []).concat(
+    (result.metaRobots || "").toLowerCase().split(",").map(d => d.trim())
+  );
+  return !directives.some(d => d === "nofollow" || d === "none");
+}
+
+function addReferrer(referrers: Map<string, string[]>, url: string, source: string) {
+  const sources = referrers.get(url) || [];
+  if (sources.length < MAX_REFERRERS_PER_URL && !sources.includes(source)) {
+    sources.push(source);
+    referrers.set(url, sources);
   }
 }
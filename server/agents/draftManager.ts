@@ -7,6 +7,7 @@ import {
   type Issue
 } from "@shared/schema";
 import { getModeSettings, generateModeProposals, type OptimizationProposal } from "./optimizationModes";
+import type { PageProposal } from "./types";
 
 export interface DraftProposal {
   issueId?: string;
@@ -97,6 +98,33 @@ export class DraftManager {
     return drafts;
   }
 
+  // One draft per affected page, so each page gets its own distinct value
+  async createDraftsForPages(issue: Issue, pageProposals: PageProposal[]): Promise<Draft[]> {
+    const draftType = this.issueToDraftType(issue.issueType);
+    if (!draftType) return [];
+
+    const drafts: Draft[] = [];
+    for (const page of pageProposals) {
+      drafts.push(await this.createDraft({
+        issueId: issue.id,
+        pageUrl: page.pageUrl,
+        draftType,
+        currentValue: page.currentValue,
+        safeProposal: page.safe,
+        balancedProposal: page.balanced,
+        aggressiveProposal: page.aggressive,
+        reasoning: issue.description || "",
+        metadata: {
+          issueType: issue.issueType,
+          severity: issue.severity,
+          category: issue.category,
+          affectedPages: pageProposals.length,
+        },
+      }));
+    }
+    return drafts;
+  }
+
   async getDrafts(): Promise<Draft[]> {
     return storage.getDrafts(this.auditId);
   }
@@ -167,12 +195,17 @@ export class DraftManager {
       "missing_title": "title",
       "short_title": "title",
       "long_title": "title",
+      "duplicate_title": "title",
       "missing_meta_description": "meta_description",
       "short_meta_description": "meta_description",
       "long_meta_description": "meta_description",
+      "duplicate_meta_description": "meta_description",
       "missing_h1": "heading",
       "multiple_h1": "heading",
+      "duplicate_h1": "heading",
       "heading_hierarchy": "heading",
+      "empty_heading": "heading",
+      "styling_heading": "heading",
       "keyword_stuffing": "keyword",
       "low_keyword_density": "keyword",
       "missing_keywords": "keyword",
@@ -180,6 +213,15 @@ export class DraftManager {
       "broken_internal_links": "internal_link",
       "thin_content": "content",
       "duplicate_content": "content",
+      "invalid_structured_data": "structured_data",
+      "structured_data_missing_required": "structured_data",
+      "structured_data_missing_recommended": "structured_data",
+      "structured_data_mismatch": "structured_data",
+      "missing_structured_data": "structured_data",
+      "missing_social_tags": "social_tags",
+      "social_tag_mismatch": "social_tags",
+      "broken_social_image": "social_tags",
+      "social_image_size": "social_tags",
       "oversized_images": "image",
       "png_to_webp": "image",
       "images_missing_alt": "image",
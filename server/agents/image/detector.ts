@@ -1,15 +1,68 @@
-import probe from "probe-image-size";
+import probeImageSize from "probe-image-size";
 import { createHash } from "crypto";
 import type { ImageAsset, ImageIssueType } from "../types";
+import { CRAWLER_USER_AGENT, captureHeaders, type CrawlSession, type HostRateLimiter } from "../crawl";
 
 const MAX_FILE_SIZE = 150 * 1024;
 const MAX_WIDTH = 1200;
 const COMPRESSION_THRESHOLD = 0.5;
 
+export interface DetectImageOptions {
+  rateLimiter?: HostRateLimiter;
+  session?: CrawlSession;
+}
+
+export interface ImageProbe {
+  ok: boolean;
+  headers: Record<string, string>;
+  buffer: Buffer;
+  fileSize: number;
+  width?: number;
+  height?: number;
+  format?: string;
+}
+
+/** Downloads an image and reads its dimensions and format from the file header. */
+export async function probeImage(imageUrl: string, options: DetectImageOptions = {}): Promise<ImageProbe> {
+  const fetchImage = async () => {
+    const response = await fetch(imageUrl, {
+      headers: {
+        ...options.session?.headersFor(imageUrl),
+        "User-Agent": CRAWLER_USER_AGENT,
+      },
+      signal: AbortSignal.timeout(15000),
+    });
+    return {
+      ok: response.ok,
+      headers: captureHeaders(response.headers),
+      buffer: response.ok ? Buffer.from(await response.arrayBuffer()) : Buffer.alloc(0),
+    };
+  };
+
+  const { ok, headers, buffer } = options.rateLimiter
+    ? await options.rateLimiter.schedule(imageUrl, fetchImage)
+    : await fetchImage();
+  const result: ImageProbe = { ok, headers, buffer, fileSize: buffer.length };
+  if (!ok) return result;
+
+  try {
+    const probeResult = probeImageSize.sync(buffer);
+    if (probeResult) {
+      result.width = probeResult.width;
+      result.height = probeResult.height;
+      result.format = probeResult.type;
+    }
+  } catch {
+    result.format = detectFormatFromUrl(imageUrl);
+  }
+  return result;
+}
+
 export async function detectImageDetails(
   imageUrl: string,
   alt?: string,
-  pageHtml?: string
+  pageHtml?: string,
+  options: DetectImageOptions = {}
 ): Promise<ImageAsset> {
   const startTime = Date.now();
   const issues: ImageIssueType[] = [];
@@ -21,31 +74,17 @@ export async function detectImageDetails(
   let hasLazyLoading = false;
 
   try {
-    const response = await fetch(imageUrl, {
-      headers: {
-        "User-Agent": "SiteScout-SEO-Bot/1.0",
-      },
-      signal: AbortSignal.timeout(15000),
-    });
-
-    if (!response.ok) {
+    const probed = await probeImage(imageUrl, options);
+    if (!probed.ok) {
       return createErrorAsset(imageUrl, alt, "Failed to fetch image");
     }
 
-    const buffer = Buffer.from(await response.arrayBuffer());
-    fileSize = buffer.length;
+    const { buffer, headers } = probed;
+    fileSize = probed.fileSize;
     hash = createHash("sha256").update(buffer).digest("hex").slice(0, 16);
-
-    try {
-      const probeResult = probe.sync(buffer);
-      if (probeResult) {
-        width = probeResult.width;
-        height = probeResult.height;
-        format = probeResult.type;
-      }
-    } catch {
-      format = detectFormatFromUrl(imageUrl);
-    }
+    width = probed.width;
+    height = probed.height;
+    format = probed.format;
 
     if (pageHtml) {
       const imgTagMatch = new RegExp(`<img[^>]*src=["']${escapeRegex(imageUrl)}["'][^>]*>`, "i").exec(pageHtml);
@@ -96,6 +135,7 @@ export async function detectImageDetails(
       hasLazyLoading,
       loadTime,
       hash,
+      responseHeaders: headers,
       issues,
       recommendedAction: generateRecommendation(issues, format, fileSize, width),
     };
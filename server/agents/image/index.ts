@@ -1,4 +1,5 @@
-export { detectImageDetails, detectDuplicates } from "./detector";
+export { detectImageDetails, detectDuplicates, probeImage } from "./detector";
+export type { DetectImageOptions, ImageProbe } from "./detector";
 export { 
   optimizeImage, 
   fetchAndOptimize, 
@@ -0,0 +1,111 @@
+import type { CrawlResult } from "./types";
+import { splitWords } from "./crawl";
+
+const MAX_SUGGESTIONS_PER_PAGE = 5;
+const MAX_PHRASE_WORDS = 3;
+// Phrases on more than this share of pages come from the template, not the page topic
+const BOILERPLATE_SHARE = 0.5;
+
+const STOPWORDS = new Set([
+  "a", "about", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been", "but", "by", "can", "do",
+  "for", "from", "has", "have", "how", "if", "in", "into", "is", "it", "its", "more", "no", "not", "of", "on",
+  "or", "our", "out", "so", "than", "that", "the", "their", "them", "then", "there", "these", "they", "this",
+  "to", "up", "us", "was", "we", "were", "what", "when", "which", "who", "will", "with", "you", "your",
+  "aber", "alle", "als", "am", "an", "auch", "auf", "aus", "bei", "bis", "das", "dass", "dem", "den", "der",
+  "des", "die", "dies", "diese", "dieser", "du", "durch", "ein", "eine", "einem", "einen", "einer", "es",
+  "für", "hat", "haben", "ich", "ihr", "ihre", "im", "in", "ist", "kann", "mehr", "mit", "nach", "nicht",
+  "noch", "nur", "oder", "sich", "sie", "sind", "so", "über", "um", "und", "uns", "unser", "unsere", "vom",
+  "von", "vor", "war", "was", "wenn", "werden", "wie", "wir", "wird", "zu", "zum", "zur",
+]);
+
+export function tokenize(text: string | undefined): string[] {
+  return splitWords(text || "");
+}
+
+/** Counts whole-phrase occurrences of a keyword, ignoring case and punctuation. */
+export function countKeyword(text: string | undefined, keyword: string): number {
+  const phrase = tokenize(keyword);
+  const words = tokenize(text);
+  if (phrase.length === 0) return 0;
+
+  let count = 0;
+  for (let i = 0; i + phrase.length <= words.length; i++) {
+    if (phrase.every((word, offset) => words[i + offset] === word)) count++;
+  }
+  return count;
+}
+
+export function containsKeyword(text: string | undefined, keyword: string): boolean {
+  return countKeyword(text, keyword) > 0;
+}
+
+/** Share of the words of a text taken up by the keyword, in percent. */
+export function getKeywordDensity(text: string | undefined, keyword: string): number {
+  const words = tokenize(text).length;
+  if (words === 0) return 0;
+  return (countKeyword(text, keyword) * tokenize(keyword).length / words) * 100;
+}
+
+/**
+ * Proposes target keywords per page from the phrases its text repeats
+ * most, with title and H1 counting extra. Phrases that appear on most pages of the site are left
+ * out, since they come from navigation and footer text.
+ */
+export function extractKeywordSuggestions(pages: CrawlResult[]): Map<string, string[]> {
+  const phrasesByPage = pages.map(page => {
+    const scores = new Map<string, number>();
+    const add = (text: string | undefined, weight: number) => {
+      getPhrases(text).forEach(phrase => scores.set(phrase, (scores.get(phrase) || 0) + weight));
+    };
+    add(page.bodyText, 1);
+    add(page.title, 3);
+    (page.h1 || []).forEach(h1 => add(h1, 3));
+    add(page.metaDescription, 1);
+    return scores;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  phrasesByPage.forEach(scores => {
+    scores.forEach((_, phrase) => documentFrequency.set(phrase, (documentFrequency.get(phrase) || 0) + 1));
+  });
+  const maxPages = Math.max(2, Math.floor(pages.length * BOILERPLATE_SHARE));
+
+  const suggestions = new Map<string, string[]>();
+  pages.forEach((page, index) => {
+    const ranked = Array.from(phrasesByPage[index].entries())
+      .filter(([phrase, score]) => score >= 3 && documentFrequency.get(phrase)! <= maxPages)
+      // Longer phrases are more specific, so they win ties with their parts
+      .map(([phrase, score]) => ({ phrase, score: score * (1 + (phrase.split(" ").length - 1) * 0.5) }))
+      .sort((a, b) => b.score - a.score);
+
+    const picked: string[] = [];
+    for (const { phrase } of ranked) {
+      if (picked.length >= MAX_SUGGESTIONS_PER_PAGE) break;
+      if (picked.some(existing => existing.includes(phrase) || phrase.includes(existing))) continue;
+      picked.push(phrase);
+    }
+    if (picked.length > 0) suggestions.set(page.url, picked);
+  });
+  return suggestions;
+}
+
+// Every occurrence of every phrase, so repeated phrases weigh more. Phrases
+// never span punctuation, which keeps "Shoes | Shop" from becoming "shoes shop".
+function getPhrases(text: string | undefined): string[] {
+  const phrases: string[] = [];
+  (text || "").split(/[.!?|,;:()\u2013\u2014]+|\s-\s/).forEach(segment => {
+    const words = tokenize(segment);
+    for (let i = 0; i < words.length; i++) {
+      for (let size = 1; size <= MAX_PHRASE_WORDS && i + size <= words.length; size++) {
+        const phrase = words.slice(i, i + size);
+        if (isStopword(phrase[0]) || isStopword(phrase[phrase.length - 1])) continue;
+        phrases.push(phrase.join(" "));
+      }
+    }
+  });
+  return phrases;
+}
+
+function isStopword(word: string): boolean {
+  return word.length < 3 || STOPWORDS.has(word) || /^\d+$/.test(word);
+}
@@ -1,9 +1,45 @@
 import { storage } from "../storage";
-import { crawlWebsite } from "./crawler";
-import { analyzePageSEO, analyzeImageSEO, generateImageReport, calculateHealthScore } from "./seoAnalyzer";
+import { runCrawl } from "./crawler";
+import {
+  RobotsCache,
+  CrawlSession,
+  HostRateLimiter,
+  checkLinks,
+  crawlMobileVersions,
+  discoverSitemaps,
+  getCrawlPlanLimits,
+  getUrlKey,
+  type CrawlStateStore,
+  type FrontierEntry,
+} from "./crawl";
+import { decryptJson } from "../lib/secrets";
+import {
+  analyzePageSEO,
+  analyzeImageSEO,
+  analyzeRobotsSEO,
+  analyzeRedirectSEO,
+  analyzeDuplicateUrlSEO,
+  analyzeDuplicateMetadataSEO,
+  analyzeNearDuplicateSEO,
+  analyzeHeaderSEO,
+  analyzeResourceSEO,
+  analyzeBrokenLinkSEO,
+  analyzeCrawlTrapSEO,
+  analyzeDocumentSEO,
+  analyzeLinkGraphSEO,
+  analyzeMobileParitySEO,
+  analyzeSitemapSEO,
+  analyzeCanonicalSEO,
+  generateImageReport,
+  generateSitemapCoverage,
+  generateCanonicalReport,
+  calculateHealthScore,
+} from "./seoAnalyzer";
+import { ruleRegistry } from "./rules";
+import { extractKeywordSuggestions } from "./keywords";
 import { generateAIImprovement, generateAgentThought, generateModeAwareProposals } from "./aiEngine";
 import type { AgentType, CrawlResult, SEOIssue, ImageReport } from "./types";
-import type { Audit, OptimizationMode } from "@shared/schema";
+import type { Audit, CrawlCredentials, InsertPage, OptimizationMode } from "@shared/schema";
 import { DraftManager } from "./draftManager";
 import { getModeLabel, getModeSettings, calculateSeoImpactEstimate } from "./optimizationModes";
 
@@ -47,6 +83,116 @@ export class AgentOrchestrator {
     });
   }
 
+  private async getCrawlSettings() {
+    const website = await storage.getWebsite(this.websiteId);
+    const owner = website ? await storage.getUser(website.userId) : undefined;
+    return {
+      ...getCrawlPlanLimits(owner?.subscriptionTier),
+      scope: website?.crawlScope,
+      mobileParity: Boolean(website?.mobileParityEnabled),
+      nearDuplicateThreshold: website?.nearDuplicateThreshold ?? 90,
+    };
+  }
+
+  private async createCrawlSession(url: string): Promise<CrawlSession> {
+    const stored = await storage.getWebsiteCredentials(this.websiteId);
+    if (!stored) return new CrawlSession(url);
+
+    try {
+      const session = new CrawlSession(url, decryptJson<CrawlCredentials>(stored.encryptedData));
+      await session.login();
+      await this.log(
+        "audit",
+        "Crawling with stored site credentials",
+        "This website is password-protected, so requests to its own hosts carry the configured credentials.",
+        "Authenticate crawl"
+      );
+      return session;
+    } catch (error) {
+      // Never include the credentials themselves in the log
+      await this.log(
+        "audit",
+        "Could not use stored site credentials",
+        `Continuing without authentication: ${error instanceof Error ? error.message : "unknown error"}`,
+        "Crawl anonymously"
+      );
+      return new CrawlSession(url);
+    }
+  }
+
+  private createCrawlStateStore(): CrawlStateStore {
+    const toEntry = ({ url, urlKey, depth }: FrontierEntry): FrontierEntry => ({ url, urlKey, depth });
+
+    return {
+      load: async () => {
+        const [frontier, pages] = await Promise.all([
+          storage.getCrawlFrontier(this.auditId),
+          storage.getCrawlPages(this.auditId),
+        ]);
+        if (frontier.length === 0) return null;
+
+        const pending = frontier.filter(entry => entry.status === "pending");
+        await this.log(
+          "audit",
+          `Resuming interrupted crawl with ${pages.length} pages already fetched`,
+          `${pending.length} URLs were still queued when the server stopped. Pages fetched before the restart are reused.`,
+          "Resume crawl"
+        );
+        return {
+          pending: pending.map(toEntry),
+          visited: frontier
+            .filter(entry => entry.status !== "pending")
+            .map(entry => ({ ...toEntry(entry), fetched: entry.status === "fetched" })),
+          pages: pages.map(page => page.data as CrawlResult),
+        };
+      },
+      enqueue: entries => storage.addCrawlFrontierEntries(this.auditId, entries),
+      complete: visit => storage.completeCrawlVisit(
+        this.auditId,
+        visit.entries,
+        visit.fetched ? "fetched" : "skipped",
+        visit.pages.map(page => ({ urlKey: getUrlKey(page.url), data: page }))
+      ),
+    };
+  }
+
+  private toPageRows(crawlData: CrawlResult[]): InsertPage[] {
+    // Redirect and robots.txt stubs carry no response of their own; their target is stored instead
+    const responses = new Map<string, CrawlResult>();
+    for (const page of crawlData) {
+      if (page.redirectChain || page.skipReason === "robots_txt") continue;
+      const urlKey = getUrlKey(page.url);
+      if (!responses.has(urlKey)) responses.set(urlKey, page);
+    }
+
+    return Array.from(responses.entries()).map(([urlKey, page]) => {
+      return {
+        auditId: this.auditId,
+        websiteId: this.websiteId,
+        url: page.url,
+        urlKey,
+        statusCode: page.statusCode ?? null,
+        title: page.title ?? null,
+        metaDescription: page.metaDescription ?? null,
+        headings: page.headings?.map(({ level, text }) => ({ level, text })) ?? null,
+        wordCount: page.wordCount ?? null,
+        loadTime: page.loadTime ?? null,
+        contentHash: page.contentHash ?? null,
+        contentFingerprint: page.contentFingerprint ?? null,
+        suggestedKeywords: page.suggestedKeywords ?? null,
+        depth: page.depth ?? null,
+        clickDepth: page.clickDepth ?? null,
+        inboundLinks: page.inboundLinks ?? 0,
+        outboundLinks: page.outboundLinks ?? 0,
+        pageRank: page.pageRank ?? null,
+        pageWeight: page.pageWeight ?? null,
+        social: page.openGraph || page.twitterCard || page.socialImage
+          ? { openGraph: page.openGraph || {}, twitterCard: page.twitterCard || {}, image: page.socialImage }
+          : null,
+      };
+    });
+  }
+
   async runAudit(url: string): Promise<Audit> {
     try {
       // Phase 0: Set status to CRAWLING (start of active work)
@@ -88,25 +234,177 @@ export class AgentOrchestrator {
         "Start crawl"
       );
       
+      await this.updateProgress(12, "Sitemaps werden gesucht");
+
+      const robotsCache = new RobotsCache();
+      const session = await this.createCrawlSession(url);
+      const sitemap = await discoverSitemaps(url, robotsCache, session);
+
+      await this.log(
+        "audit",
+        sitemap.urls.length > 0
+          ? `Found ${sitemap.urls.length} URLs in ${sitemap.sitemaps.length} sitemap file(s)`
+          : "No XML sitemap found",
+        sitemap.urls.length > 0
+          ? "Seeding the crawl queue with sitemap URLs so important pages are covered first."
+          : "Falling back to link discovery from the homepage.",
+        "Discover sitemaps",
+        { sitemaps: sitemap.sitemaps }
+      );
+
       await this.updateProgress(15, "Website wird gecrawlt");
 
-      const crawlResults = await crawlWebsite(url, 5);
+      const { mobileParity, nearDuplicateThreshold, ...crawlSettings } = await this.getCrawlSettings();
+      const rateLimiter = new HostRateLimiter();
+      const { pages: crawlData, stats: crawlStats, traps, links } = await runCrawl(url, {
+        ...crawlSettings,
+        seedUrls: sitemap.urls,
+        robotsCache,
+        rateLimiter,
+        session,
+        stateStore: this.createCrawlStateStore(),
+      });
+      const crawlResults = crawlData.filter(page => !page.skipReason && !page.redirectChain && !page.document);
+      const documents = crawlData.filter(page => !page.skipReason && !page.redirectChain && page.document);
+      const skippedPages = crawlData.filter(page => page.skipReason);
+
+      await storage.updateAudit(this.auditId, { crawlStats });
 
       await this.log(
         "audit",
         `Crawl complete. Found ${crawlResults.length} pages.`,
-        `Successfully crawled ${crawlResults.length} pages. Now analyzing each page for SEO issues.`,
-        "Analyze pages"
+        `Successfully crawled ${crawlResults.length} pages in ${(crawlStats.durationMs / 1000).toFixed(1)}s (${crawlStats.pagesPerSecond} pages/s, ${Math.round(crawlStats.bytesDownloaded / 1024)}KB, ${crawlStats.errors} errors). Now analyzing each page for SEO issues.`,
+        "Analyze pages",
+        { crawlStats }
       );
+
+      if (skippedPages.length > 0) {
+        await this.log(
+          "audit",
+          `Skipped ${skippedPages.length} URLs due to robots rules`,
+          `${skippedPages.filter(p => p.skipReason === "robots_txt").length} disallowed by robots.txt, ${skippedPages.filter(p => p.skipReason === "x_robots_noindex").length} marked noindex via X-Robots-Tag.`,
+          "Respect robots rules",
+          { skipped: skippedPages.map(p => ({ url: p.url, reason: p.skipReason })) }
+        );
+      }
       
+      if (documents.length > 0) {
+        await this.log(
+          "audit",
+          `Found ${documents.length} linked documents`,
+          "PDFs and office files are indexed by search engines too, so their metadata is checked alongside the HTML pages.",
+          "Inspect documents",
+          { documents: documents.map(page => ({ url: page.url, ...page.document })) }
+        );
+      }
+
+      if (traps.length > 0) {
+        await this.log(
+          "audit",
+          `Stopped following ${traps.reduce((total, trap) => total + trap.blockedCount, 0)} URLs in ${traps.length} crawler trap(s)`,
+          "These URL patterns generate near-endless variants of the same pages, so the crawl budget was kept for real content.",
+          "Avoid crawler traps",
+          { traps: traps.map(trap => ({ kind: trap.kind, pattern: trap.pattern, blocked: trap.blockedCount })) }
+        );
+      }
+
+      await this.updateProgress(25, "Links werden geprüft");
+
+      const linkCheck = await checkLinks(url, crawlData, {
+        concurrency: crawlSettings.concurrency,
+        rateLimiter,
+        robotsCache,
+        session,
+      });
+
+      await this.log(
+        "audit",
+        `Checked ${linkCheck.internalChecked} internal and ${linkCheck.externalChecked} external links`,
+        `${linkCheck.brokenInternal} broken internal and ${linkCheck.brokenExternal} broken external link targets found.${linkCheck.truncated ? " The link budget was exhausted, so some targets were not checked." : ""}`,
+        "Check links",
+        { brokenLinks: linkCheck.brokenLinks.map(link => ({ url: link.url, statusCode: link.statusCode })) }
+      );
+
+      if (mobileParity) {
+        await this.updateProgress(27, "Mobile Version wird geprüft");
+
+        const snapshots = await crawlMobileVersions(crawlResults, {
+          concurrency: crawlSettings.concurrency,
+          rateLimiter,
+          session,
+        });
+        for (const page of crawlResults) {
+          page.mobile = snapshots.get(page.url);
+        }
+
+        await this.log(
+          "audit",
+          `Fetched ${snapshots.size} pages with a smartphone user agent`,
+          "Search engines index the mobile version of a page, so titles, content, structured data and links are compared against the desktop crawl.",
+          "Compare mobile version"
+        );
+      }
+
       await this.updateProgress(30, `${crawlResults.length} Seiten gefunden`);
 
       // Phase 3: Analyze each page for issues
-      const allIssues: SEOIssue[] = [];
+      const sitemapCoverage = generateSitemapCoverage(sitemap, crawlData);
+      const canonicalReport = generateCanonicalReport(crawlData, sitemap.urls);
+      const previousFingerprints = await storage.getPreviousFingerprints(this.websiteId, this.auditId);
+      const allIssues: SEOIssue[] = [
+        ...analyzeRobotsSEO(crawlData),
+        ...analyzeRedirectSEO(crawlData),
+        ...analyzeDuplicateUrlSEO(crawlResults),
+        ...analyzeDuplicateMetadataSEO(crawlResults),
+        ...analyzeNearDuplicateSEO(crawlResults, nearDuplicateThreshold / 100, previousFingerprints),
+        ...analyzeHeaderSEO(crawlResults),
+        ...analyzeResourceSEO(crawlResults),
+        ...analyzeBrokenLinkSEO(linkCheck),
+        ...analyzeCrawlTrapSEO(traps),
+        ...analyzeDocumentSEO(documents, crawlResults),
+        ...analyzeLinkGraphSEO(crawlResults, url, sitemap.urls, crawlStats),
+        ...analyzeMobileParitySEO(crawlResults),
+        ...analyzeSitemapSEO(sitemapCoverage, url, crawlData),
+        ...analyzeCanonicalSEO(crawlData),
+      ];
       let analyzedPages = 0;
 
+      const ruleOverrides = await storage.getRuleOverrides(this.websiteId);
+      const ruleSet = ruleRegistry.createRuleSet(ruleOverrides, this.optimizationMode);
+      if (ruleOverrides.length > 0) {
+        await this.log(
+          "audit",
+          `Applying ${ruleOverrides.length} customized analysis rules`,
+          `${ruleSet.size} of ${ruleRegistry.list().length} page rules are active for this website.`,
+          "Configure rules"
+        );
+      }
+
+      // Site-wide keywords are checked on the homepage, page keywords on their own page
+      const targetKeywords = await storage.getTargetKeywords(this.websiteId);
+      const keywordSuggestions = extractKeywordSuggestions(crawlResults);
+      const startKey = getUrlKey(url);
       for (const page of crawlResults) {
-        const pageIssues = analyzePageSEO(page);
+        const urlKey = getUrlKey(page.url);
+        const keywords = targetKeywords
+          .filter(keyword => keyword.pageUrlKey ? keyword.pageUrlKey === urlKey : urlKey === startKey)
+          // Page keywords come first, since the first keyword is the one title and H1 should name
+          .sort((a, b) => Number(Boolean(b.pageUrlKey)) - Number(Boolean(a.pageUrlKey)))
+          .map(keyword => keyword.keyword);
+        if (keywords.length > 0) page.targetKeywords = keywords;
+        page.suggestedKeywords = keywordSuggestions.get(page.url);
+      }
+      if (targetKeywords.length > 0) {
+        await this.log(
+          "audit",
+          `Checking ${targetKeywords.length} target keywords`,
+          `Keyword placement and density are measured against the ${getModeSettings(this.optimizationMode).keywords.densityTarget}% density target of ${modeLabel} mode.`,
+          "Analyze keywords"
+        );
+      }
+
+      for (const page of crawlResults) {
+        const pageIssues = analyzePageSEO(page, ruleSet);
         allIssues.push(...pageIssues);
         analyzedPages++;
         
@@ -207,12 +505,17 @@ export class AgentOrchestrator {
           aiReasoning: modeProposals.reasoning,
           confidence: modeProposals.confidences[this.optimizationMode],
           autoFixable: issue.autoFixable,
+          ruleId: issue.ruleId ?? null,
+          ruleVersion: issue.ruleVersion ?? null,
+          affectedUrls: issue.affectedUrls ?? null,
           aiFixProposalSafe: modeProposals.safe,
           aiFixProposalRecommended: modeProposals.balanced,
           aiFixProposalAggressive: modeProposals.aggressive,
         });
 
-        const drafts = await this.draftManager.createDraftsForIssue(createdIssue);
+        const drafts = issue.pageProposals
+          ? await this.draftManager.createDraftsForPages(createdIssue, issue.pageProposals)
+          : await this.draftManager.createDraftsForIssue(createdIssue);
         draftsCreated += drafts.length;
 
         switch (issue.severity) {
@@ -271,6 +574,18 @@ export class AgentOrchestrator {
         highCount
       );
 
+      // Stored before finalizing, so a failed insert cannot turn a finished audit into a failed one
+      await storage.createPages(this.toPageRows(crawlData));
+      await storage.createLinkEdges(links.map(link => ({
+        auditId: this.auditId,
+        sourceUrl: link.sourceUrl,
+        sourceKey: link.sourceKey,
+        targetUrl: link.targetUrl,
+        targetKey: link.targetKey,
+        anchorText: link.anchorText,
+        nofollow: link.nofollow,
+      })));
+
       // FINALIZE audit - this makes report and PDF available
       const updatedAudit = await storage.updateAudit(this.auditId, {
         status: "finalized",
@@ -284,10 +599,14 @@ export class AgentOrchestrator {
         lowCount,
         score: healthScore,
         pagesScanned: crawlResults.length,
-        crawlData: crawlResults as any,
+        sitemapData: sitemapCoverage,
+        linkCheckData: linkCheck,
+        canonicalData: canonicalReport,
         optimizationMode: this.optimizationMode,
       });
 
+      await storage.deleteCrawlState(this.auditId);
+
       // Update website health score
       await storage.updateWebsite(this.websiteId, {
         healthScore,
@@ -316,6 +635,7 @@ export class AgentOrchestrator {
         status: "failed",
         completedAt: new Date(),
       });
+      await storage.deleteCrawlState(this.auditId).catch(() => {});
 
       throw error;
     }
@@ -414,3 +734,47 @@ export class AgentOrchestrator {
     return this.optimizationMode;
   }
 }
+
+const MAX_RESUME_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Startup sweep for audits left running by a previous process. Audits still
+ * crawling resume from their stored frontier; anything further along is
+ * failed, because issues and drafts may already be half written.
+ */
+export async function recoverInterruptedAudits(): Promise<{ resumed: number; failed: number }> {
+  const unfinished = await storage.getUnfinishedAudits();
+  let resumed = 0;
+  let failed = 0;
+
+  for (const audit of unfinished) {
+    const website = await storage.getWebsite(audit.websiteId);
+    const age = audit.createdAt ? Date.now() - new Date(audit.createdAt).getTime() : 0;
+
+    let reason: string | undefined;
+    if (!website?.isActive) {
+      reason = "Abgebrochen: Die Website wurde entfernt";
+    } else if (audit.status !== "queued" && audit.status !== "crawling") {
+      reason = "Abgebrochen: Der Server wurde während der Analyse neu gestartet. Bitte starte den Audit erneut.";
+    } else if (age > MAX_RESUME_AGE_MS) {
+      reason = "Abgebrochen: Der unterbrochene Crawl ist älter als 24 Stunden. Bitte starte den Audit erneut.";
+    }
+
+    if (reason || !website) {
+      await storage.updateAudit(audit.id, {
+        status: "failed",
+        currentStep: reason,
+        completedAt: new Date(),
+      });
+      await storage.deleteCrawlState(audit.id);
+      failed++;
+      continue;
+    }
+
+    const orchestrator = new AgentOrchestrator(audit.id, audit.websiteId, audit.optimizationMode || "balanced");
+    orchestrator.runAudit(website.url).catch(console.error);
+    resumed++;
+  }
+
+  return { resumed, failed };
+}
@@ -0,0 +1,149 @@
+import type { HeadingOutlineNode, HeadingProblem } from "@shared/schema";
+import type { PageProposal, SEOIssue } from "../types";
+import type { PageRule } from "./registry";
+
+export interface OutlineThresholds {
+  maxLength: number;
+  maxRepeats: number;
+}
+
+type HeadingInput = { level: number; text: string };
+
+/**
+ * Marks the problems of every heading and the level it should have.
+ * Levels are corrected so no level is skipped after the previous heading;
+ * empty headings are left out of that, since they are removed anyway.
+ */
+export function buildHeadingOutline(headings: HeadingInput[], thresholds: OutlineThresholds): HeadingOutlineNode[] {
+  const seen = new Map<string, number>();
+  let previousLevel = 1;
+  let previousCorrected = 1;
+
+  return headings.map(({ level, text }) => {
+    const problems: HeadingProblem[] = [];
+    if (!text.trim()) {
+      return { level, text, suggestedLevel: null, problems: ["empty"] };
+    }
+
+    if (level > previousLevel + 1) problems.push("skipped_level");
+    if (text.length > thresholds.maxLength) problems.push("too_long");
+    const key = text.trim().toLowerCase();
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    if (count > thresholds.maxRepeats) problems.push("repeated");
+
+    const corrected = level === 1 ? 1 : Math.min(level, previousCorrected + 1);
+    previousLevel = level;
+    previousCorrected = corrected;
+    return { level, text, suggestedLevel: corrected !== level ? corrected : null, problems };
+  });
+}
+
+type OutlineFix = "levels" | "empty" | "styling";
+
+function formatOutline(nodes: HeadingOutlineNode[], fixes: OutlineFix[] = []): string {
+  const lines: string[] = [];
+  let indent = 0;
+  for (const node of nodes) {
+    const isEmpty = node.problems.includes("empty");
+    const isStyling = node.problems.includes("too_long") || node.problems.includes("repeated");
+    if (isEmpty && fixes.includes("empty")) continue;
+    if (isStyling && fixes.includes("styling")) {
+      lines.push(`${"  ".repeat(indent)}<p>${node.text}</p>`);
+      continue;
+    }
+
+    const level = fixes.includes("levels") && node.suggestedLevel ? node.suggestedLevel : node.level;
+    indent = level - 1;
+    lines.push(`${"  ".repeat(indent)}<h${level}>${node.text}</h${level}>`);
+  }
+  return lines.join("\n");
+}
+
+function truncateHeading(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+export const headingHierarchyRule: PageRule = {
+  id: "heading_hierarchy",
+  version: 1,
+  name: "Überschriften-Hierarchie",
+  description: "Übersprungene Ebenen, leere Überschriften und Überschriften, die nur zur Formatierung dienen",
+  category: "Headings",
+  defaultSeverity: "medium",
+  thresholds: {
+    maxLength: { label: "Maximallänge", defaultValue: 120, unit: "Zeichen" },
+    maxRepeats: { label: "Gleicher Text höchstens", defaultValue: 1, unit: "mal" },
+  },
+  evaluate(page, { thresholds }) {
+    const headings = page.headings || [];
+    if (headings.length === 0) return null;
+
+    const nodes = buildHeadingOutline(headings, { maxLength: thresholds.maxLength, maxRepeats: thresholds.maxRepeats });
+    const skipped = nodes.filter(node => node.problems.includes("skipped_level"));
+    const empty = nodes.filter(node => node.problems.includes("empty"));
+    const styling = nodes.filter(node => node.problems.includes("too_long") || node.problems.includes("repeated"));
+    const issues: SEOIssue[] = [];
+
+    if (skipped.length > 0) {
+      const jumps = skipped.map(node => {
+        const before = nodes.slice(0, nodes.indexOf(node)).reverse().find(other => !other.problems.includes("empty"));
+        return `H${before ? before.level : 1} → H${node.level} at "${truncateHeading(node.text)}"`;
+      });
+      issues.push({
+        type: "heading_hierarchy",
+        category: "Headings",
+        title: "Skipped Heading Levels",
+        description: `${skipped.length} heading(s) skip a level: ${jumps.join(", ")}. Screen readers and search engines use the heading levels to understand how sections nest.`,
+        severity: "medium",
+        riskLevel: "medium",
+        currentValue: jumps.join("\n"),
+        suggestedValue: skipped.map(node => `<h${node.suggestedLevel}>${node.text}</h${node.suggestedLevel}>`).join("\n"),
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (empty.length > 0) {
+      issues.push({
+        type: "empty_heading",
+        category: "Headings",
+        title: "Empty Headings",
+        description: `${empty.length} heading element(s) contain no text. They show up as blank entries in the page outline of assistive technology.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: empty.map(node => `<h${node.level}></h${node.level}>`).join("\n"),
+        suggestedValue: "Remove the empty heading elements or give them a label",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (styling.length > 0) {
+      issues.push({
+        type: "styling_heading",
+        category: "Headings",
+        title: "Headings Used for Styling",
+        description: `${styling.length} heading(s) are longer than ${thresholds.maxLength} characters or repeat the same text, which suggests they are used for their look rather than to label a section: ${styling.map(node => `"${truncateHeading(node.text)}"`).join(", ")}.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: styling.map(node => `<h${node.level}>${node.text}</h${node.level}>`).join("\n"),
+        suggestedValue: "Use a paragraph or a styled element with a CSS class instead",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (issues.length === 0) return null;
+
+    // A single draft rewrites the whole outline, so only the first issue carries it
+    const proposal: PageProposal = {
+      pageUrl: page.url,
+      currentValue: formatOutline(nodes),
+      safe: formatOutline(nodes, ["levels"]),
+      balanced: formatOutline(nodes, ["levels", "empty"]),
+      aggressive: formatOutline(nodes, ["levels", "empty", "styling"]),
+    };
+    return issues.map((issue, index) => ({ ...issue, pageProposals: index === 0 ? [proposal] : [] }));
+  },
+};
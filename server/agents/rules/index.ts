@@ -0,0 +1,19 @@
+import { RuleRegistry } from "./registry";
+import { PAGE_RULES } from "./pageRules";
+import { headingHierarchyRule } from "./headings";
+import { KEYWORD_RULES } from "./keywordRules";
+import { structuredDataRule } from "./structuredData";
+import { socialTagsRule } from "./social";
+
+export { RuleRegistry, RuleSet } from "./registry";
+export type { PageRule, RuleContext, RuleThreshold } from "./registry";
+export { PAGE_RULES } from "./pageRules";
+export { buildHeadingOutline, headingHierarchyRule } from "./headings";
+export type { OutlineThresholds } from "./headings";
+export { KEYWORD_RULES } from "./keywordRules";
+export { SCHEMA_TYPES, collectStructuredItems, structuredDataRule, validateStructuredItem } from "./structuredData";
+export type { SchemaTypeName, StructuredDataItem, StructuredDataValidation } from "./structuredData";
+export { socialTagsRule } from "./social";
+
+export const ruleRegistry = new RuleRegistry();
+[...PAGE_RULES, headingHierarchyRule, ...KEYWORD_RULES, structuredDataRule, socialTagsRule].forEach(rule => ruleRegistry.register(rule));
@@ -0,0 +1,251 @@
+import type { OptimizationMode } from "@shared/schema";
+import type { CrawlResult, PageProposal } from "../types";
+import { getModeSettings, type ModeSettings } from "../optimizationModes";
+import { containsKeyword, countKeyword, tokenize } from "../keywords";
+import type { PageRule } from "./registry";
+
+type Placement = "title" | "metaDescription" | "h1" | "firstParagraph" | "url";
+
+const PLACEMENT_LABELS: Record<Placement, string> = {
+  title: "title",
+  metaDescription: "meta description",
+  h1: "H1",
+  firstParagraph: "first paragraph",
+  url: "URL",
+};
+
+// Each placement strategy also covers the placements of the more careful ones
+const PLACEMENTS_BY_STRATEGY: Record<ModeSettings["keywords"]["placementStrategy"], Placement[]> = {
+  natural: ["title", "metaDescription"],
+  optimized: ["title", "metaDescription", "h1", "firstParagraph"],
+  comprehensive: ["title", "metaDescription", "h1", "firstParagraph", "url"],
+};
+
+const MODES: OptimizationMode[] = ["safe", "balanced", "aggressive"];
+
+function hasKeyword(page: CrawlResult, placement: Placement, keyword: string): boolean {
+  switch (placement) {
+    case "h1":
+      return (page.h1 || []).some(h1 => containsKeyword(h1, keyword));
+    case "url":
+      return containsKeyword(getPath(page.url), keyword);
+    default:
+      return containsKeyword(page[placement], keyword);
+  }
+}
+
+function getPath(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname);
+  } catch {
+    return url;
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function slugify(value: string): string {
+  return tokenize(value).join("-");
+}
+
+function shorten(value: string, maxLength: number): string {
+  if (value.length <= maxLength) return value;
+  const boundary = value.lastIndexOf(" ", maxLength);
+  return value.slice(0, boundary > maxLength / 2 ? boundary : maxLength).replace(/[\s,;:|–-]+$/, "");
+}
+
+function getCurrentValue(page: CrawlResult, placement: Placement): string {
+  switch (placement) {
+    case "h1":
+      return page.h1?.[0] || "";
+    case "url":
+      return getPath(page.url);
+    default:
+      return page[placement] || "";
+  }
+}
+
+// Title, H1 and URL name one topic, so only the primary keyword goes there
+function proposePlacement(page: CrawlResult, placement: Placement, keywords: string[]): string {
+  const current = getCurrentValue(page, placement);
+  const joined = capitalize(keywords.join(", "));
+  switch (placement) {
+    case "title":
+      return shorten(current ? `${capitalize(keywords[0])} – ${current}` : capitalize(keywords[0]), 60);
+    case "h1":
+      return current ? `${capitalize(keywords[0])}: ${current}` : capitalize(keywords[0]);
+    case "metaDescription":
+      return shorten(current ? `${joined} – ${current}` : joined, 160);
+    case "firstParagraph":
+      return `Mention ${keywords.map(keyword => `"${keyword}"`).join(", ")} in the opening sentence`;
+    case "url":
+      return `/${slugify(keywords[0])}/ (301 redirect from ${current})`;
+  }
+}
+
+function formatPlacements(entries: { placement: Placement; value: string }[]): string {
+  return entries.map(({ placement, value }) => `${capitalize(PLACEMENT_LABELS[placement])}: ${value}`).join("\n");
+}
+
+export const missingKeywordsRule: PageRule = {
+  id: "missing_keywords",
+  version: 1,
+  name: "Keyword-Platzierung",
+  description: "Ziel-Keywords fehlen in Titel, H1, Meta-Description, URL oder erstem Absatz",
+  category: "Keywords",
+  defaultSeverity: "medium",
+  evaluate(page) {
+    const keywords = page.targetKeywords || [];
+    if (keywords.length === 0) return null;
+
+    const isHomepage = getPath(page.url) === "/";
+    const placements = (Object.keys(PLACEMENT_LABELS) as Placement[])
+      // The homepage URL cannot carry a keyword
+      .filter(placement => !(placement === "url" && isHomepage));
+    const primary = keywords[0];
+    const missing = new Map<Placement, string[]>();
+    for (const placement of placements) {
+      const candidates = ["title", "h1", "url"].includes(placement) ? [primary] : keywords;
+      const absent = candidates.filter(keyword => !hasKeyword(page, placement, keyword));
+      if (absent.length > 0) missing.set(placement, absent);
+    }
+    if (missing.size === 0) return null;
+
+    const missingPlacements = Array.from(missing.keys());
+    const severity = missing.has("title") && missing.has("h1") ? "high" : missing.has("title") || missing.has("h1") ? "medium" : "low";
+    const proposeFor = (forMode: OptimizationMode) => formatPlacements(
+      PLACEMENTS_BY_STRATEGY[getModeSettings(forMode).keywords.placementStrategy]
+        .filter(placement => missing.has(placement))
+        .map(placement => ({ placement, value: proposePlacement(page, placement, missing.get(placement)!) }))
+    );
+    const [safe, balanced, aggressive] = MODES.map(proposeFor);
+    const proposal: PageProposal = {
+      pageUrl: page.url,
+      currentValue: formatPlacements(missingPlacements.map(placement => ({ placement, value: getCurrentValue(page, placement) || "(none)" }))),
+      safe,
+      balanced,
+      aggressive,
+    };
+
+    return {
+      type: "missing_keywords",
+      category: "Keywords",
+      title: "Target Keywords Not Placed",
+      description: `Target keywords are missing from prominent places: ${missingPlacements.map(placement => `${PLACEMENT_LABELS[placement]} (${missing.get(placement)!.map(keyword => `"${keyword}"`).join(", ")})`).join(", ")}. Search engines weigh these places most when working out what a page is about.`,
+      severity,
+      riskLevel: "low",
+      currentValue: proposal.currentValue,
+      suggestedValue: balanced,
+      pageUrl: page.url,
+      autoFixable: false,
+      pageProposals: [proposal],
+    };
+  },
+};
+
+type KeywordUsage = { keyword: string; count: number; density: number };
+
+function getKeywordUsage(page: CrawlResult): { words: number; usage: KeywordUsage[] } {
+  const words = tokenize(page.bodyText).length;
+  const usage = (page.targetKeywords || []).map(keyword => {
+    const count = countKeyword(page.bodyText, keyword);
+    return { keyword, count, density: words > 0 ? (count * tokenize(keyword).length / words) * 100 : 0 };
+  });
+  return { words, usage };
+}
+
+// Occurrences of a keyword that give the density target of a mode
+function getTargetCount(keyword: string, words: number, mode: OptimizationMode): number {
+  return Math.max(1, Math.round(getModeSettings(mode).keywords.densityTarget * words / 100 / tokenize(keyword).length));
+}
+
+function formatUsage({ keyword, count, density }: KeywordUsage): string {
+  return `"${keyword}": ${count}× (${density.toFixed(1)}%)`;
+}
+
+export const lowKeywordDensityRule: PageRule = {
+  id: "low_keyword_density",
+  version: 1,
+  name: "Keyword-Dichte zu niedrig",
+  description: "Ziel-Keywords kommen im Text deutlich seltener vor als die Zieldichte des Modus",
+  category: "Keywords",
+  defaultSeverity: "low",
+  thresholds: {
+    minShare: { label: "Mindestens", defaultValue: 50, unit: "% der Zieldichte" },
+    minWords: { label: "Erst ab", defaultValue: 150, unit: "Wörtern" },
+  },
+  evaluate(page, { thresholds, mode }) {
+    const { words, usage } = getKeywordUsage(page);
+    if (words < thresholds.minWords) return null;
+
+    const minDensity = mode.keywords.densityTarget * thresholds.minShare / 100;
+    const low = usage.filter(entry => entry.density < minDensity);
+    if (low.length === 0) return null;
+
+    const proposeFor = (forMode: OptimizationMode) => low
+      .map(entry => {
+        const target = getTargetCount(entry.keyword, words, forMode);
+        return `Use "${entry.keyword}" ${Math.max(1, target - entry.count)} more time(s), ${target}× in total`;
+      })
+      .join("\n");
+    const [safe, balanced, aggressive] = MODES.map(proposeFor);
+
+    return {
+      type: "low_keyword_density",
+      category: "Keywords",
+      title: "Low Keyword Density",
+      description: `${low.map(formatUsage).join(", ")} in ${words} words, below ${minDensity.toFixed(1)}% (${thresholds.minShare}% of the ${mode.keywords.densityTarget}% target). The text may not be recognized as relevant for these keywords.`,
+      severity: low.some(entry => entry.count === 0) ? "medium" : "low",
+      riskLevel: "low",
+      currentValue: low.map(formatUsage).join("\n"),
+      suggestedValue: balanced,
+      pageUrl: page.url,
+      autoFixable: false,
+      pageProposals: [{ pageUrl: page.url, currentValue: low.map(formatUsage).join("\n"), safe, balanced, aggressive }],
+    };
+  },
+};
+
+export const keywordStuffingRule: PageRule = {
+  id: "keyword_stuffing",
+  version: 1,
+  name: "Keyword-Stuffing",
+  description: "Ziel-Keywords kommen im Text weit häufiger vor als die Zieldichte des Modus",
+  category: "Keywords",
+  defaultSeverity: "high",
+  thresholds: {
+    maxShare: { label: "Höchstens", defaultValue: 200, unit: "% der Zieldichte" },
+    minWords: { label: "Erst ab", defaultValue: 150, unit: "Wörtern" },
+  },
+  evaluate(page, { thresholds, mode }) {
+    const { words, usage } = getKeywordUsage(page);
+    if (words < thresholds.minWords) return null;
+
+    const maxDensity = mode.keywords.densityTarget * thresholds.maxShare / 100;
+    const stuffed = usage.filter(entry => entry.density > maxDensity);
+    if (stuffed.length === 0) return null;
+
+    const proposeFor = (forMode: OptimizationMode) => stuffed
+      .map(entry => `Reduce "${entry.keyword}" to ${getTargetCount(entry.keyword, words, forMode)}× and use synonyms instead`)
+      .join("\n");
+    const [safe, balanced, aggressive] = MODES.map(proposeFor);
+
+    return {
+      type: "keyword_stuffing",
+      category: "Keywords",
+      title: "Keyword Stuffing",
+      description: `${stuffed.map(formatUsage).join(", ")} in ${words} words, above ${maxDensity.toFixed(1)}% (${thresholds.maxShare}% of the ${mode.keywords.densityTarget}% target). Search engines can treat heavy repetition as spam and rank the page lower.`,
+      severity: "high",
+      riskLevel: "medium",
+      currentValue: stuffed.map(formatUsage).join("\n"),
+      suggestedValue: balanced,
+      pageUrl: page.url,
+      autoFixable: false,
+      pageProposals: [{ pageUrl: page.url, currentValue: stuffed.map(formatUsage).join("\n"), safe, balanced, aggressive }],
+    };
+  },
+};
+
+export const KEYWORD_RULES: PageRule[] = [missingKeywordsRule, lowKeywordDensityRule, keywordStuffingRule];
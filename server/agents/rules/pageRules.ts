@@ -0,0 +1,403 @@
+import type { CrawlResult } from "../types";
+import { normalizeUrl } from "../crawl";
+import type { PageRule } from "./registry";
+
+export const missingTitleRule: PageRule = {
+  id: "missing_title",
+  version: 1,
+  name: "Fehlender Seitentitel",
+  description: "Seite hat kein <title>-Element",
+  category: "Meta Tags",
+  defaultSeverity: "critical",
+  evaluate(page) {
+    if (page.title) return null;
+    return {
+      type: "missing_title",
+      category: "Meta Tags",
+      title: "Missing Page Title",
+      description: "This page is missing a title tag. Page titles are crucial for SEO and user experience.",
+      severity: "critical",
+      riskLevel: "low",
+      currentValue: "",
+      suggestedValue: generateTitleSuggestion(page),
+      pageUrl: page.url,
+      autoFixable: true,
+    };
+  },
+};
+
+export const shortTitleRule: PageRule = {
+  id: "short_title",
+  version: 1,
+  name: "Seitentitel zu kurz",
+  description: "Titel mit weniger Zeichen als die Mindestlänge",
+  category: "Meta Tags",
+  defaultSeverity: "medium",
+  thresholds: {
+    minLength: { label: "Mindestlänge", defaultValue: 30, unit: "Zeichen" },
+  },
+  evaluate(page, { thresholds }) {
+    if (!page.title || page.title.length >= thresholds.minLength) return null;
+    return {
+      type: "short_title",
+      category: "Meta Tags",
+      title: "Title Too Short",
+      description: `Title is only ${page.title.length} characters. Titles should be at least ${thresholds.minLength} characters for optimal SEO.`,
+      severity: "medium",
+      riskLevel: "low",
+      currentValue: page.title,
+      suggestedValue: generateTitleSuggestion(page),
+      pageUrl: page.url,
+      autoFixable: true,
+    };
+  },
+};
+
+export const longTitleRule: PageRule = {
+  id: "long_title",
+  version: 1,
+  name: "Seitentitel zu lang",
+  description: "Titel, die in Suchergebnissen abgeschnitten werden",
+  category: "Meta Tags",
+  defaultSeverity: "low",
+  thresholds: {
+    maxLength: { label: "Maximallänge", defaultValue: 60, unit: "Zeichen" },
+  },
+  evaluate(page, { thresholds }) {
+    if (!page.title || page.title.length <= thresholds.maxLength) return null;
+    return {
+      type: "long_title",
+      category: "Meta Tags",
+      title: "Title Too Long",
+      description: `Title is ${page.title.length} characters. Titles over ${thresholds.maxLength} characters may be truncated in search results.`,
+      severity: "low",
+      riskLevel: "low",
+      currentValue: page.title,
+      suggestedValue: truncate(page.title, thresholds.maxLength),
+      pageUrl: page.url,
+      autoFixable: true,
+    };
+  },
+};
+
+export const missingMetaDescriptionRule: PageRule = {
+  id: "missing_meta_description",
+  version: 1,
+  name: "Fehlende Meta-Description",
+  description: "Seite hat keine Meta-Description",
+  category: "Meta Tags",
+  defaultSeverity: "high",
+  evaluate(page) {
+    if (page.metaDescription) return null;
+    return {
+      type: "missing_meta_description",
+      category: "Meta Tags",
+      title: "Missing Meta Description",
+      description: "This page is missing a meta description. Meta descriptions help improve click-through rates from search results.",
+      severity: "high",
+      riskLevel: "low",
+      currentValue: "",
+      suggestedValue: generateMetaDescriptionSuggestion(page),
+      pageUrl: page.url,
+      autoFixable: true,
+    };
+  },
+};
+
+export const shortMetaDescriptionRule: PageRule = {
+  id: "short_meta_description",
+  version: 1,
+  name: "Meta-Description zu kurz",
+  description: "Meta-Descriptions unter der Mindestlänge",
+  category: "Meta Tags",
+  defaultSeverity: "medium",
+  thresholds: {
+    minLength: { label: "Mindestlänge", defaultValue: 120, unit: "Zeichen" },
+  },
+  evaluate(page, { thresholds }) {
+    if (!page.metaDescription || page.metaDescription.length >= thresholds.minLength) return null;
+    return {
+      type: "short_meta_description",
+      category: "Meta Tags",
+      title: "Meta Description Too Short",
+      description: `Meta description is only ${page.metaDescription.length} characters. Aim for at least ${thresholds.minLength} characters.`,
+      severity: "medium",
+      riskLevel: "low",
+      currentValue: page.metaDescription,
+      suggestedValue: generateMetaDescriptionSuggestion(page),
+      pageUrl: page.url,
+      autoFixable: true,
+    };
+  },
+};
+
+export const longMetaDescriptionRule: PageRule = {
+  id: "long_meta_description",
+  version: 1,
+  name: "Meta-Description zu lang",
+  description: "Meta-Descriptions, die in Suchergebnissen abgeschnitten werden",
+  category: "Meta Tags",
+  defaultSeverity: "low",
+  thresholds: {
+    maxLength: { label: "Maximallänge", defaultValue: 160, unit: "Zeichen" },
+  },
+  evaluate(page, { thresholds }) {
+    if (!page.metaDescription || page.metaDescription.length <= thresholds.maxLength) return null;
+    return {
+      type: "long_meta_description",
+      category: "Meta Tags",
+      title: "Meta Description Too Long",
+      description: `Meta description is ${page.metaDescription.length} characters. Descriptions over ${thresholds.maxLength} characters may be truncated.`,
+      severity: "low",
+      riskLevel: "low",
+      currentValue: page.metaDescription,
+      suggestedValue: truncate(page.metaDescription, thresholds.maxLength),
+      pageUrl: page.url,
+      autoFixable: true,
+    };
+  },
+};
+
+export const missingH1Rule: PageRule = {
+  id: "missing_h1",
+  version: 1,
+  name: "Fehlende H1",
+  description: "Seite hat keine H1-Überschrift",
+  category: "Headings",
+  defaultSeverity: "high",
+  evaluate(page) {
+    if (page.h1 && page.h1.length > 0) return null;
+    return {
+      type: "missing_h1",
+      category: "Headings",
+      title: "Missing H1 Tag",
+      description: "This page is missing an H1 heading. H1 tags are important for accessibility and SEO.",
+      severity: "high",
+      riskLevel: "medium",
+      currentValue: "",
+      suggestedValue: page.title || "Add a descriptive H1 heading",
+      pageUrl: page.url,
+      autoFixable: false,
+    };
+  },
+};
+
+export const multipleH1Rule: PageRule = {
+  id: "multiple_h1",
+  version: 1,
+  name: "Mehrere H1",
+  description: "Seite hat mehr als eine H1-Überschrift",
+  category: "Headings",
+  defaultSeverity: "medium",
+  evaluate(page) {
+    if (!page.h1 || page.h1.length <= 1) return null;
+    return {
+      type: "multiple_h1",
+      category: "Headings",
+      title: "Multiple H1 Tags",
+      description: `Found ${page.h1.length} H1 tags. Best practice is to have exactly one H1 per page.`,
+      severity: "medium",
+      riskLevel: "medium",
+      currentValue: page.h1.join(", "),
+      suggestedValue: "Keep only the primary H1 heading",
+      pageUrl: page.url,
+      autoFixable: false,
+    };
+  },
+};
+
+export const missingAltTextRule: PageRule = {
+  id: "missing_alt_text",
+  version: 1,
+  name: "Bilder ohne Alt-Text",
+  description: "Bilder ohne beschreibenden Alternativtext",
+  category: "Accessibility",
+  defaultSeverity: "medium",
+  thresholds: {
+    highSeverityCount: { label: "Hoch ab", defaultValue: 6, unit: "Bildern" },
+  },
+  evaluate(page, { thresholds }) {
+    const imagesWithoutAlt = (page.images || []).filter(img => !img.alt || img.alt.trim() === "");
+    if (imagesWithoutAlt.length === 0) return null;
+    return {
+      type: "missing_alt_text",
+      category: "Accessibility",
+      title: `${imagesWithoutAlt.length} Images Missing Alt Text`,
+      description: "Images without alt text hurt accessibility and SEO. Add descriptive alt text to all images.",
+      severity: imagesWithoutAlt.length >= thresholds.highSeverityCount ? "high" : "medium",
+      riskLevel: "low",
+      currentValue: `${imagesWithoutAlt.length} images without alt text`,
+      suggestedValue: "Add descriptive alt text to each image",
+      pageUrl: page.url,
+      autoFixable: false,
+    };
+  },
+};
+
+export const slowPageRule: PageRule = {
+  id: "slow_page",
+  version: 1,
+  name: "Langsame Ladezeit",
+  description: "Seiten, deren HTML länger als erlaubt zum Laden braucht",
+  category: "Performance",
+  defaultSeverity: "medium",
+  thresholds: {
+    maxLoadTimeMs: { label: "Maximale Ladezeit", defaultValue: 3000, unit: "ms" },
+    highLoadTimeMs: { label: "Hoch ab", defaultValue: 5000, unit: "ms" },
+  },
+  evaluate(page, { thresholds }) {
+    if (!page.loadTime || page.loadTime <= thresholds.maxLoadTimeMs) return null;
+    return {
+      type: "slow_page",
+      category: "Performance",
+      title: "Slow Page Load Time",
+      description: `Page took ${(page.loadTime / 1000).toFixed(1)}s to load. Aim for under ${(thresholds.maxLoadTimeMs / 1000).toFixed(1)} seconds.`,
+      severity: page.loadTime > thresholds.highLoadTimeMs ? "high" : "medium",
+      riskLevel: "high",
+      currentValue: `${(page.loadTime / 1000).toFixed(1)}s`,
+      suggestedValue: "Optimize images, enable caching, minify resources",
+      pageUrl: page.url,
+      autoFixable: false,
+    };
+  },
+};
+
+export const thinContentRule: PageRule = {
+  id: "thin_content",
+  version: 1,
+  name: "Zu wenig Inhalt",
+  description: "Seiten mit weniger Wörtern als die Mindestanzahl",
+  category: "Content",
+  defaultSeverity: "medium",
+  thresholds: {
+    minWords: { label: "Mindestanzahl", defaultValue: 300, unit: "Wörter" },
+    highSeverityWords: { label: "Hoch unter", defaultValue: 100, unit: "Wörtern" },
+  },
+  evaluate(page, { thresholds }) {
+    if (!page.bodyText) return null;
+    const wordCount = page.bodyText.split(/\s+/).length;
+    if (wordCount >= thresholds.minWords) return null;
+    return {
+      type: "thin_content",
+      category: "Content",
+      title: "Thin Content",
+      description: `Page has only ${wordCount} words. Consider adding more valuable content.`,
+      severity: wordCount < thresholds.highSeverityWords ? "high" : "medium",
+      riskLevel: "high",
+      currentValue: `${wordCount} words`,
+      suggestedValue: `Add more comprehensive, valuable content (aim for ${Math.max(thresholds.minWords, 500)}+ words)`,
+      pageUrl: page.url,
+      autoFixable: false,
+    };
+  },
+};
+
+export const httpErrorRule: PageRule = {
+  id: "http_error",
+  version: 1,
+  name: "HTTP-Fehler",
+  description: "Seiten, die nicht mit Status 200 antworten",
+  category: "Technical",
+  defaultSeverity: "high",
+  evaluate(page) {
+    if (!page.statusCode || page.statusCode === 200) return null;
+    return {
+      type: "http_error",
+      category: "Technical",
+      title: `HTTP ${page.statusCode} Error`,
+      description: `Page returned HTTP ${page.statusCode} status code.`,
+      severity: page.statusCode >= 500 ? "critical" : "high",
+      riskLevel: "high",
+      currentValue: `HTTP ${page.statusCode}`,
+      suggestedValue: "Fix server configuration or redirect issues",
+      pageUrl: page.url,
+      autoFixable: false,
+    };
+  },
+};
+
+export const missingCanonicalRule: PageRule = {
+  id: "missing_canonical",
+  version: 1,
+  name: "Fehlendes Canonical",
+  description: "Indexierbare Seiten ohne <link rel=\"canonical\">",
+  category: "Technical",
+  defaultSeverity: "low",
+  evaluate(page) {
+    if (page.canonical || page.statusCode !== 200) return null;
+    if (page.metaRobots?.split(",").some(d => ["noindex", "none"].includes(d.trim()))) return null;
+    // Tracking parameters and sorted queries collapse into the spelling the page should declare
+    const canonicalUrl = normalizeUrl(page.url);
+    return {
+      type: "missing_canonical",
+      category: "Technical",
+      title: "Missing Canonical Tag",
+      description: "This page does not declare a canonical URL. Search engines then choose one themselves among all URL variants that serve it, such as those with tracking parameters.",
+      severity: "low",
+      riskLevel: "low",
+      currentValue: "",
+      suggestedValue: `<link rel="canonical" href="${canonicalUrl}">`,
+      pageUrl: page.url,
+      autoFixable: false,
+    };
+  },
+};
+
+export const PAGE_RULES: PageRule[] = [
+  missingTitleRule,
+  shortTitleRule,
+  longTitleRule,
+  missingMetaDescriptionRule,
+  shortMetaDescriptionRule,
+  longMetaDescriptionRule,
+  missingH1Rule,
+  multipleH1Rule,
+  missingAltTextRule,
+  slowPageRule,
+  thinContentRule,
+  httpErrorRule,
+  missingCanonicalRule,
+];
+
+function truncate(value: string, maxLength: number): string {
+  return value.slice(0, Math.max(0, maxLength - 3)) + "...";
+}
+
+function generateTitleSuggestion(page: CrawlResult): string {
+  if (page.h1 && page.h1[0]) {
+    return page.h1[0].slice(0, 55) + (page.h1[0].length > 55 ? "..." : "");
+  }
+
+  if (page.bodyText) {
+    const words = page.bodyText.split(/\s+/).slice(0, 10).join(" ");
+    return words.slice(0, 55) + "...";
+  }
+
+  try {
+    const hostname = new URL(page.url).hostname.replace(/^www\./, "");
+    return `Welcome to ${hostname}`;
+  } catch {
+    return "Your Page Title Here - Describe Your Content";
+  }
+}
+
+function generateMetaDescriptionSuggestion(page: CrawlResult): string {
+  if (page.bodyText) {
+    const sentences = page.bodyText.split(/[.!?]+/);
+    let description = "";
+    for (const sentence of sentences) {
+      if (description.length + sentence.length < 155) {
+        description += sentence.trim() + ". ";
+      } else {
+        break;
+      }
+    }
+    return description.trim() || page.bodyText.slice(0, 155) + "...";
+  }
+
+  if (page.title) {
+    return `Learn more about ${page.title}. Discover valuable information and insights.`;
+  }
+
+  return "Discover valuable content and insights on this page. Learn more about our offerings.";
+}
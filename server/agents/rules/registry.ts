@@ -0,0 +1,146 @@
+import type { OptimizationMode, RuleConfig, RuleOverride, RuleOverrideInput, Severity } from "@shared/schema";
+import type { CrawlResult, SEOIssue } from "../types";
+import { getModeSettings, type ModeSettings } from "../optimizationModes";
+
+export interface RuleThreshold {
+  label: string;
+  defaultValue: number;
+  unit?: string;
+}
+
+export interface RuleContext {
+  thresholds: Record<string, number>;
+  // Settings of the optimization mode the audit runs in
+  mode: ModeSettings;
+}
+
+/**
+ * A single page-level check. `version` must be bumped whenever the logic or
+ * a default changes, so stored issues can be traced to the rule that made them.
+ */
+export interface PageRule {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  category: string;
+  defaultSeverity: Severity;
+  thresholds?: Record<string, RuleThreshold>;
+  evaluate(page: CrawlResult, context: RuleContext): SEOIssue | SEOIssue[] | null;
+}
+
+type RuleSettings = Pick<RuleOverride, "ruleId" | "enabled" | "severity" | "thresholds">;
+
+export class RuleRegistry {
+  private rules = new Map<string, PageRule>();
+
+  register(rule: PageRule) {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Rule ${rule.id} is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  get(id: string): PageRule | undefined {
+    return this.rules.get(id);
+  }
+
+  list(): PageRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /** Thresholds of a rule with the stored override applied. */
+  getThresholds(ruleId: string, overrides: RuleSettings[] = []): Record<string, number> {
+    const rule = this.rules.get(ruleId);
+    if (!rule) throw new Error(`Rule ${ruleId} is not registered`);
+    return resolveThresholds(rule, overrides.find(override => override.ruleId === ruleId)?.thresholds);
+  }
+
+  createRuleSet(overrides: RuleSettings[] = [], mode: OptimizationMode = "balanced"): RuleSet {
+    return new RuleSet(this.list(), overrides, getModeSettings(mode));
+  }
+
+  describe(overrides: RuleSettings[] = []): RuleConfig[] {
+    const byRule = new Map(overrides.map(override => [override.ruleId, override] as [string, RuleSettings]));
+    return this.list().map(rule => {
+      const override = byRule.get(rule.id);
+      const thresholds = resolveThresholds(rule, override?.thresholds);
+      return {
+        id: rule.id,
+        version: rule.version,
+        name: rule.name,
+        description: rule.description,
+        category: rule.category,
+        defaultSeverity: rule.defaultSeverity,
+        severity: override?.severity ?? null,
+        enabled: override?.enabled ?? true,
+        thresholds: Object.keys(rule.thresholds || {}).map(key => ({
+          key,
+          label: rule.thresholds![key].label,
+          unit: rule.thresholds![key].unit,
+          defaultValue: rule.thresholds![key].defaultValue,
+          value: thresholds[key],
+        })),
+        overridden: Boolean(override),
+      };
+    });
+  }
+
+  /** Returns an error message when the override does not fit the rule. */
+  validateOverride(ruleId: string, override: RuleOverrideInput): string | null {
+    const rule = this.rules.get(ruleId);
+    if (!rule) return `Unknown rule ${ruleId}`;
+    const unknown = Object.keys(override.thresholds || {}).filter(key => !rule.thresholds?.[key]);
+    return unknown.length > 0 ? `Unknown thresholds for ${ruleId}: ${unknown.join(", ")}` : null;
+  }
+}
+
+/** The rules of one audit with a website's overrides applied. */
+export class RuleSet {
+  private readonly active: { rule: PageRule; context: RuleContext; severity: Severity | null }[];
+
+  constructor(rules: PageRule[], overrides: RuleSettings[], mode: ModeSettings) {
+    const byRule = new Map(overrides.map(override => [override.ruleId, override] as [string, RuleSettings]));
+    this.active = rules
+      .filter(rule => byRule.get(rule.id)?.enabled !== false)
+      .map(rule => {
+        const override = byRule.get(rule.id);
+        return {
+          rule,
+          context: { thresholds: resolveThresholds(rule, override?.thresholds), mode },
+          severity: override?.severity ?? null,
+        };
+      });
+  }
+
+  get size(): number {
+    return this.active.length;
+  }
+
+  evaluate(page: CrawlResult): SEOIssue[] {
+    const issues: SEOIssue[] = [];
+    for (const { rule, context, severity } of this.active) {
+      const result = rule.evaluate(page, context);
+      const found = result === null ? [] : Array.isArray(result) ? result : [result];
+      for (const issue of found) {
+        issues.push({
+          ...issue,
+          severity: severity || issue.severity,
+          ruleId: rule.id,
+          ruleVersion: rule.version,
+        });
+      }
+    }
+    return issues;
+  }
+}
+
+// Stored thresholds of a rule that has since dropped a setting are ignored
+function resolveThresholds(rule: PageRule, stored?: Record<string, number> | null): Record<string, number> {
+  const thresholds: Record<string, number> = {};
+  for (const key of Object.keys(rule.thresholds || {})) {
+    const value = stored?.[key];
+    thresholds[key] = typeof value === "number" ? value : rule.thresholds![key].defaultValue;
+  }
+  return thresholds;
+}
@@ -0,0 +1,255 @@
+import type { CrawlResult, PageProposal, SEOIssue } from "../types";
+import { getUrlKey } from "../crawl";
+import type { PageRule } from "./registry";
+
+// Open Graph ratio of Facebook and LinkedIn cards, also used by large X cards
+const CARD_ASPECT_RATIO = 1.91;
+// Below this Facebook drops the image from the preview
+const MIN_IMAGE_SIZE = 200;
+// Smallest image X renders as a large card
+const MIN_LARGE_CARD = { width: 300, height: 157 };
+// X rejects larger images, Facebook allows 8 MB
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const SUPPORTED_IMAGE_FORMATS = ["jpg", "jpeg", "png", "webp", "gif"];
+const TWITTER_CARD_TYPES = ["summary", "summary_large_image", "app", "player"];
+const REQUIRED_TAGS = ["og:title", "og:description", "og:image", "og:url", "twitter:card"];
+const IMAGE_PLACEHOLDER = "<1200x630 image URL>";
+
+type TagLevel = "missing" | "corrected" | "complete";
+
+function getTags(page: CrawlResult): Map<string, string> {
+  const tags = new Map<string, string>();
+  Object.keys(page.openGraph || {}).forEach(key => tags.set(key, page.openGraph![key]));
+  Object.keys(page.twitterCard || {}).forEach(key => tags.set(key, page.twitterCard![key]));
+  return tags;
+}
+
+function getExpectedUrl(page: CrawlResult): string {
+  return page.canonical || page.url;
+}
+
+function isAbsoluteUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function resolve(value: string, base: string): string {
+  try {
+    return new URL(value, base).href;
+  } catch {
+    return value;
+  }
+}
+
+function fitLength(value: string, maxLength: number): string {
+  if (value.length <= maxLength) return value;
+  const boundary = value.lastIndexOf(" ", maxLength - 1);
+  return `${value.slice(0, boundary > maxLength / 2 ? boundary : maxLength - 1).replace(/[\s,;:|–-]+$/, "")}…`;
+}
+
+function getImageProblems(page: CrawlResult, thresholds: Record<string, number>): string[] {
+  const image = page.socialImage;
+  if (!image || image.error) return [];
+
+  const problems: string[] = [];
+  if (image.width && image.height) {
+    if (image.width < MIN_IMAGE_SIZE || image.height < MIN_IMAGE_SIZE) {
+      problems.push(`${image.width}×${image.height}px is below the ${MIN_IMAGE_SIZE}×${MIN_IMAGE_SIZE}px minimum, so Facebook shows no image`);
+    } else if (image.width < thresholds.minWidth || image.height < thresholds.minHeight) {
+      problems.push(`${image.width}×${image.height}px is smaller than ${thresholds.minWidth}×${thresholds.minHeight}px and looks blurry in large cards`);
+    }
+    const deviation = Math.abs(image.width / image.height / CARD_ASPECT_RATIO - 1) * 100;
+    if (deviation > thresholds.aspectTolerance) {
+      problems.push(`aspect ratio ${(image.width / image.height).toFixed(2)}:1 differs from ${CARD_ASPECT_RATIO}:1, so the image is cropped`);
+    }
+  }
+  if (image.fileSize && image.fileSize > MAX_IMAGE_BYTES) {
+    problems.push(`${(image.fileSize / 1024 / 1024).toFixed(1)} MB exceeds the 5 MB limit of X`);
+  }
+  if (image.format && !SUPPORTED_IMAGE_FORMATS.includes(image.format)) {
+    problems.push(`${image.format.toUpperCase()} images are not shown by social networks`);
+  }
+  return problems;
+}
+
+function isImageUsable(page: CrawlResult, thresholds: Record<string, number>): boolean {
+  return Boolean(page.socialImage && !page.socialImage.error) && getImageProblems(page, thresholds).length === 0;
+}
+
+/**
+ * Proposes the social tags of a page. "missing" only adds absent tags,
+ * "corrected" also fixes wrong values and adds the optional tags, and
+ * "complete" sets every tag explicitly, shortened to what cards display.
+ */
+function proposeTags(page: CrawlResult, thresholds: Record<string, number>, level: TagLevel): Map<string, string> {
+  const tags = getTags(page);
+  const title = page.title || page.h1?.[0] || "";
+  const description = page.metaDescription || "";
+  const image = tags.get("og:image") || tags.get("twitter:image") || page.imagesDetailed?.[0]?.absoluteSrc || IMAGE_PLACEHOLDER;
+  const largeCard = page.socialImage?.width && page.socialImage.height
+    ? page.socialImage.width >= MIN_LARGE_CARD.width && page.socialImage.height >= MIN_LARGE_CARD.height
+    : image === IMAGE_PLACEHOLDER;
+  const setDefault = (key: string, value: string) => {
+    if (value && !tags.get(key)) tags.set(key, value);
+  };
+
+  setDefault("og:title", title);
+  setDefault("og:description", description);
+  setDefault("og:image", image);
+  setDefault("og:url", getExpectedUrl(page));
+  setDefault("og:type", page.openGraph?.["article:published_time"] ? "article" : "website");
+  setDefault("twitter:card", largeCard ? "summary_large_image" : "summary");
+  if (level === "missing") return tags;
+
+  if (getUrlKey(tags.get("og:url")!) !== getUrlKey(getExpectedUrl(page))) tags.set("og:url", getExpectedUrl(page));
+  if (!isAbsoluteUrl(tags.get("og:image")!) && tags.get("og:image") !== IMAGE_PLACEHOLDER) {
+    tags.set("og:image", resolve(tags.get("og:image")!, page.url));
+  }
+  if (!TWITTER_CARD_TYPES.includes(tags.get("twitter:card")!)) {
+    tags.set("twitter:card", largeCard ? "summary_large_image" : "summary");
+  }
+  setDefault("og:site_name", new URL(page.url).hostname.replace(/^www\./, ""));
+  if (page.lang) setDefault("og:locale", page.lang.replace("-", "_"));
+  if (page.socialImage?.width && page.socialImage.height && !page.socialImage.error) {
+    setDefault("og:image:width", String(page.socialImage.width));
+    setDefault("og:image:height", String(page.socialImage.height));
+  }
+  setDefault("og:image:alt", page.h1?.[0] || title);
+  if (level === "corrected") return tags;
+
+  if (tags.get("og:title")) tags.set("og:title", fitLength(tags.get("og:title")!, 60));
+  if (tags.get("og:description")) tags.set("og:description", fitLength(tags.get("og:description")!, 160));
+  if (page.socialImage && !isImageUsable(page, thresholds)) {
+    tags.set("og:image", IMAGE_PLACEHOLDER);
+    tags.delete("og:image:width");
+    tags.delete("og:image:height");
+    tags.set("twitter:card", "summary_large_image");
+  }
+  if (tags.get("og:title")) tags.set("twitter:title", tags.get("og:title")!);
+  if (tags.get("og:description")) tags.set("twitter:description", tags.get("og:description")!);
+  tags.set("twitter:image", tags.get("og:image")!);
+  return tags;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+function formatTags(tags: Map<string, string>): string {
+  return Array.from(tags.entries())
+    .map(([key, value]) => {
+      const attribute = key.startsWith("twitter:") ? "name" : "property";
+      return `<meta ${attribute}="${key}" content="${escapeAttribute(value)}">`;
+    })
+    .join("\n");
+}
+
+export const socialTagsRule: PageRule = {
+  id: "social_tags",
+  version: 1,
+  name: "Social-Media-Vorschau",
+  description: "Open-Graph- und Twitter-Card-Tags: fehlende oder widersprüchliche Angaben, Größe und Seitenverhältnis des og:image",
+  category: "Social",
+  defaultSeverity: "medium",
+  thresholds: {
+    minWidth: { label: "Bildbreite mindestens", defaultValue: 1200, unit: "px" },
+    minHeight: { label: "Bildhöhe mindestens", defaultValue: 630, unit: "px" },
+    aspectTolerance: { label: "Abweichung vom Seitenverhältnis 1,91:1", defaultValue: 10, unit: "%" },
+  },
+  evaluate(page, { thresholds }) {
+    if (page.statusCode !== undefined && page.statusCode !== 200) return null;
+
+    const tags = getTags(page);
+    const issues: SEOIssue[] = [];
+
+    const missing = REQUIRED_TAGS.filter(key => !tags.get(key));
+    if (missing.length > 0) {
+      issues.push({
+        type: "missing_social_tags",
+        category: "Social",
+        title: "Missing Social Media Tags",
+        description: `${missing.join(", ")} ${missing.length === 1 ? "is" : "are"} missing. Facebook, LinkedIn and X then guess the title, text and image of shared links, or show a bare URL.`,
+        severity: missing.includes("og:title") || missing.includes("og:image") ? "medium" : "low",
+        riskLevel: "low",
+        currentValue: formatTags(tags) || "(none)",
+        suggestedValue: `Add ${missing.join(", ")}`,
+        pageUrl: page.url,
+        autoFixable: true,
+      });
+    }
+
+    const mismatches: string[] = [];
+    const ogUrl = tags.get("og:url");
+    if (ogUrl && getUrlKey(resolve(ogUrl, page.url)) !== getUrlKey(getExpectedUrl(page))) {
+      mismatches.push(`og:url ${ogUrl} differs from the ${page.canonical ? "canonical" : "page"} URL ${getExpectedUrl(page)}, so shares are counted for another URL`);
+    }
+    const ogImage = tags.get("og:image");
+    if (ogImage && !isAbsoluteUrl(ogImage)) {
+      mismatches.push(`og:image "${ogImage}" is not an absolute URL, which Facebook and LinkedIn cannot load`);
+    }
+    const cardType = tags.get("twitter:card");
+    if (cardType && !TWITTER_CARD_TYPES.includes(cardType)) {
+      mismatches.push(`twitter:card "${cardType}" is not a card type X knows`);
+    }
+    const twitterTitle = tags.get("twitter:title");
+    if (twitterTitle && tags.get("og:title") && twitterTitle !== tags.get("og:title") && page.title !== twitterTitle) {
+      mismatches.push(`twitter:title "${twitterTitle}" matches neither og:title nor the page title`);
+    }
+    if (mismatches.length > 0) {
+      issues.push({
+        type: "social_tag_mismatch",
+        category: "Social",
+        title: "Conflicting Social Media Tags",
+        description: `${mismatches.join("; ")}.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: formatTags(tags),
+        suggestedValue: "Correct the conflicting tags",
+        pageUrl: page.url,
+        autoFixable: true,
+      });
+    }
+
+    if (page.socialImage?.error) {
+      issues.push({
+        type: "broken_social_image",
+        category: "Social",
+        title: "Social Image Cannot Be Loaded",
+        description: `The share image ${page.socialImage.url} could not be downloaded (${page.socialImage.error}). Shared links show no image.`,
+        severity: "high",
+        riskLevel: "low",
+        currentValue: page.socialImage.url,
+        suggestedValue: "Point og:image to a reachable image",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const imageProblems = getImageProblems(page, thresholds);
+    if (imageProblems.length > 0) {
+      issues.push({
+        type: "social_image_size",
+        category: "Social",
+        title: "Social Image Unsuitable",
+        description: `The share image ${page.socialImage!.url}: ${imageProblems.join("; ")}. Use a ${thresholds.minWidth}×${thresholds.minHeight}px JPEG or PNG.`,
+        severity: imageProblems.some(problem => problem.includes("minimum") || problem.includes("not shown")) ? "high" : "medium",
+        riskLevel: "low",
+        currentValue: `${page.socialImage!.url} (${page.socialImage!.width}×${page.socialImage!.height}px)`,
+        suggestedValue: `${thresholds.minWidth}×${thresholds.minHeight}px image`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (issues.length === 0) return null;
+
+    // One draft rewrites all social tags of the page, so only the first issue carries it
+    const proposal: PageProposal = {
+      pageUrl: page.url,
+      currentValue: formatTags(tags),
+      safe: formatTags(proposeTags(page, thresholds, "missing")),
+      balanced: formatTags(proposeTags(page, thresholds, "corrected")),
+      aggressive: formatTags(proposeTags(page, thresholds, "complete")),
+    };
+    return issues.map((issue, index) => ({ ...issue, pageProposals: index === 0 ? [proposal] : [] }));
+  },
+};
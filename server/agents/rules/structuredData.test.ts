@@ -0,0 +1,21 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { CrawlResult } from "../types";
+import { getModeSettings } from "../optimizationModes";
+import { RuleSet } from "./registry";
+import { structuredDataRule } from "./structuredData";
+
+function evaluate(page: Partial<CrawlResult>) {
+  return new RuleSet([structuredDataRule], [], getModeSettings("balanced")).evaluate(page as CrawlResult);
+}
+
+test("breadcrumb proposals keep path segments that are not valid UTF-8", () => {
+  const issues = evaluate({
+    url: "https://example.com/caf%E9/menu",
+    statusCode: 200,
+    openGraph: { "og:type": "article" },
+  });
+
+  assert.ok(issues.length > 0);
+  assert.ok(JSON.stringify(issues.map(issue => issue.pageProposals)).includes("Caf%E9"));
+});
@@ -0,0 +1,564 @@
+import type { CrawlResult, MicrodataItem, MicrodataValue, PageProposal, SEOIssue } from "../types";
+import { containsKeyword } from "../keywords";
+import type { PageRule } from "./registry";
+
+type JsonObject = Record<string, unknown>;
+
+export type SchemaTypeName = "Organization" | "LocalBusiness" | "Product" | "Article" | "BreadcrumbList" | "FAQPage" | "Event";
+
+interface SchemaTypeSpec {
+  required: string[];
+  // At least one property of each group must be present
+  requiredOneOf?: string[][];
+  recommended: string[];
+  // Google rich result the type qualifies for once the required properties are there
+  richResult: string;
+  subtypes: string[];
+  validateNested?: (data: JsonObject) => string[];
+}
+
+// The schema.org subset search engines build rich results from, with the
+// properties their structured data guidelines ask for
+export const SCHEMA_TYPES: Record<SchemaTypeName, SchemaTypeSpec> = {
+  Organization: {
+    required: ["name", "url"],
+    recommended: ["logo", "sameAs", "contactPoint"],
+    richResult: "Organization logo",
+    subtypes: ["Corporation", "NGO", "EducationalOrganization", "OnlineBusiness", "OnlineStore"],
+  },
+  LocalBusiness: {
+    required: ["name", "address"],
+    recommended: ["telephone", "url", "openingHoursSpecification", "geo", "priceRange", "image"],
+    richResult: "Local business",
+    subtypes: [
+      "Restaurant", "Store", "ProfessionalService", "MedicalBusiness", "Dentist", "LegalService", "HomeAndConstructionBusiness",
+      "AutomotiveBusiness", "FoodEstablishment", "LodgingBusiness", "Hotel", "HealthAndBeautyBusiness", "FinancialService",
+    ],
+    validateNested: data => getNodes(data.address).some(address => !address.streetAddress && !address.addressLocality)
+      ? ["address needs at least streetAddress or addressLocality"]
+      : [],
+  },
+  Product: {
+    required: ["name"],
+    requiredOneOf: [["offers", "review", "aggregateRating"]],
+    recommended: ["image", "description", "sku", "brand"],
+    richResult: "Product snippet",
+    subtypes: ["IndividualProduct", "ProductModel", "ProductGroup"],
+    validateNested: data => getNodes(data.offers).flatMap((offer, index) => {
+      const problems: string[] = [];
+      const isAggregate = getTypes(offer).includes("AggregateOffer");
+      if (isAggregate ? !hasValue(offer, "lowPrice") : !hasValue(offer, "price") && !hasValue(offer, "priceSpecification")) {
+        problems.push(`offers[${index}] is missing "${isAggregate ? "lowPrice" : "price"}"`);
+      }
+      if (!hasValue(offer, "priceCurrency") && !hasValue(offer, "priceSpecification")) {
+        problems.push(`offers[${index}] is missing "priceCurrency"`);
+      }
+      return problems;
+    }),
+  },
+  Article: {
+    required: ["headline"],
+    recommended: ["image", "datePublished", "dateModified", "author"],
+    richResult: "Article",
+    subtypes: ["NewsArticle", "BlogPosting", "TechArticle", "Report", "ScholarlyArticle"],
+    validateNested: data => {
+      const headline = data.headline;
+      return typeof headline === "string" && headline.length > 110 ? [`headline is ${headline.length} characters, the limit is 110`] : [];
+    },
+  },
+  BreadcrumbList: {
+    required: ["itemListElement"],
+    recommended: [],
+    richResult: "Breadcrumb",
+    subtypes: [],
+    validateNested: data => {
+      const elements = getNodes(data.itemListElement);
+      return elements.flatMap((element, index) => {
+        const problems: string[] = [];
+        if (!hasValue(element, "position")) problems.push(`itemListElement[${index}] is missing "position"`);
+        const target = getNodes(element.item)[0];
+        if (!hasValue(element, "name") && !(target && hasValue(target, "name"))) {
+          problems.push(`itemListElement[${index}] is missing "name"`);
+        }
+        // The last crumb is the current page and may leave out its URL
+        if (index < elements.length - 1 && !hasValue(element, "item")) {
+          problems.push(`itemListElement[${index}] is missing "item"`);
+        }
+        return problems;
+      });
+    },
+  },
+  FAQPage: {
+    required: ["mainEntity"],
+    recommended: [],
+    richResult: "FAQ",
+    subtypes: [],
+    validateNested: data => getNodes(data.mainEntity).flatMap((question, index) => {
+      const problems: string[] = [];
+      if (!hasValue(question, "name")) problems.push(`mainEntity[${index}] is missing the question "name"`);
+      const answer = getNodes(question.acceptedAnswer)[0];
+      if (!answer || !hasValue(answer, "text")) problems.push(`mainEntity[${index}] is missing "acceptedAnswer.text"`);
+      return problems;
+    }),
+  },
+  Event: {
+    required: ["name", "startDate", "location"],
+    recommended: ["description", "endDate", "image", "offers", "organizer", "eventStatus", "performer"],
+    richResult: "Event",
+    subtypes: ["MusicEvent", "BusinessEvent", "SportsEvent", "EducationEvent", "Festival", "TheaterEvent", "ExhibitionEvent"],
+    validateNested: data => getNodes(data.location).some(location => !hasValue(location, "address") && !getTypes(location).includes("VirtualLocation"))
+      ? ["location is missing \"address\""]
+      : [],
+  },
+};
+
+export interface StructuredDataItem {
+  source: "json-ld" | "microdata";
+  // The @type as written, e.g. "NewsArticle"
+  type: string;
+  // Bundled type the item is validated as; undefined outside the subset
+  schemaType?: SchemaTypeName;
+  data: JsonObject;
+}
+
+export interface StructuredDataValidation {
+  item: StructuredDataItem;
+  missingRequired: string[];
+  missingRecommended: string[];
+  nestedProblems: string[];
+  // Values the markup claims that visitors cannot see on the page
+  mismatches: string[];
+  richResultEligible: boolean;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function getNodes(value: unknown): JsonObject[] {
+  return (Array.isArray(value) ? value : [value]).filter(isObject);
+}
+
+function getTypes(node: JsonObject): string[] {
+  const type = node["@type"];
+  return (Array.isArray(type) ? type : [type])
+    .filter((value): value is string => typeof value === "string")
+    .map(value => value.replace(/^https?:\/\/schema\.org\//, ""));
+}
+
+function hasValue(node: JsonObject, property: string): boolean {
+  const value = node[property];
+  if (value === undefined || value === null) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function getSchemaType(types: string[]): SchemaTypeName | undefined {
+  const names = Object.keys(SCHEMA_TYPES) as SchemaTypeName[];
+  return names.find(name => types.includes(name)) || names.find(name => types.some(type => SCHEMA_TYPES[name].subtypes.includes(type)));
+}
+
+function microdataToJson(item: MicrodataItem): JsonObject {
+  const data: JsonObject = {};
+  if (item.type) data["@type"] = item.type.replace(/^https?:\/\/schema\.org\//, "");
+  Object.keys(item.properties).forEach(name => {
+    const values = item.properties[name].map((value: MicrodataValue) => typeof value === "string" ? value : microdataToJson(value));
+    data[name] = values.length === 1 ? values[0] : values;
+  });
+  return data;
+}
+
+/** Top-level JSON-LD nodes and Microdata items, both in JSON-LD form. */
+export function collectStructuredItems(page: CrawlResult, blocks = page.jsonLd || []): StructuredDataItem[] {
+  const items: StructuredDataItem[] = [];
+  const add = (source: StructuredDataItem["source"], data: JsonObject) => {
+    const types = getTypes(data);
+    if (types.length === 0) return;
+    items.push({ source, type: types[0], schemaType: getSchemaType(types), data });
+  };
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (isObject(node)) {
+      if (node["@graph"]) visit(node["@graph"]);
+      else add("json-ld", node);
+    }
+  };
+  blocks.forEach(block => visit(block.data));
+  (page.microdata || []).forEach(item => add("microdata", microdataToJson(item)));
+  return items;
+}
+
+function getVisibleText(page: CrawlResult): string {
+  return [page.title, ...(page.h1 || []), ...(page.h2 || []), page.bodyText].filter(Boolean).join("\n");
+}
+
+function findMismatches(item: StructuredDataItem, page: CrawlResult): string[] {
+  const visible = getVisibleText(page);
+  const mismatches: string[] = [];
+  const checkText = (label: string, value: unknown) => {
+    if (typeof value === "string" && value.length <= 150 && !containsKeyword(visible, value)) {
+      mismatches.push(`${label} "${value}" does not appear on the page`);
+    }
+  };
+
+  switch (item.schemaType) {
+    case "Product":
+      checkText("name", item.data.name);
+      // Only the start of long pages is kept, so a missing price there proves nothing
+      if (page.bodyText && page.bodyText.length < 5000) {
+        getNodes(item.data.offers).forEach(offer => {
+          const price = String(offer.price ?? offer.lowPrice ?? "");
+          if (price && !containsKeyword(page.bodyText, price.replace(/[.,]0+$/, ""))) {
+            mismatches.push(`price ${price} does not appear on the page`);
+          }
+        });
+      }
+      break;
+    case "Article":
+      checkText("headline", item.data.headline);
+      break;
+    case "Event":
+    case "LocalBusiness":
+      checkText("name", item.data.name);
+      break;
+    case "FAQPage": {
+      const hidden = getNodes(item.data.mainEntity).filter(question =>
+        typeof question.name === "string" && !containsKeyword(visible, question.name)
+      );
+      if (hidden.length > 0) {
+        mismatches.push(`${hidden.length} FAQ question(s) do not appear on the page, e.g. "${hidden[0].name}"`);
+      }
+      break;
+    }
+  }
+  return mismatches;
+}
+
+export function validateStructuredItem(item: StructuredDataItem, page: CrawlResult): StructuredDataValidation {
+  const spec = item.schemaType ? SCHEMA_TYPES[item.schemaType] : undefined;
+  if (!spec) {
+    return { item, missingRequired: [], missingRecommended: [], nestedProblems: [], mismatches: [], richResultEligible: false };
+  }
+
+  const missingRequired = [
+    ...spec.required.filter(property => !hasValue(item.data, property)),
+    ...(spec.requiredOneOf || [])
+      .filter(group => !group.some(property => hasValue(item.data, property)))
+      .map(group => group.join(" or ")),
+  ];
+  const nestedProblems = spec.validateNested ? spec.validateNested(item.data) : [];
+  return {
+    item,
+    missingRequired,
+    missingRecommended: spec.recommended.filter(property => !hasValue(item.data, property)),
+    nestedProblems,
+    mismatches: findMismatches(item, page),
+    richResultEligible: missingRequired.length === 0 && nestedProblems.length === 0,
+  };
+}
+
+// Type the content of a page calls for, judged from its URL and Open Graph tags
+function getExpectedType(page: CrawlResult): SchemaTypeName | undefined {
+  const og = page.openGraph || {};
+  const ogType = (og["og:type"] || "").toLowerCase();
+  if (getPath(page.url) === "/") return "Organization";
+  if (ogType === "article" || og["article:published_time"]) return "Article";
+  if (ogType.startsWith("product") || og["product:price:amount"]) return "Product";
+  return undefined;
+}
+
+function hasExpectedType(items: StructuredDataItem[], expected: SchemaTypeName): boolean {
+  // A LocalBusiness is an Organization
+  return items.some(item => item.schemaType === expected || (expected === "Organization" && item.schemaType === "LocalBusiness"));
+}
+
+function getPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+// Fixes the mistakes hand-written JSON-LD most often has
+function repairJson(raw: string): unknown {
+  const cleaned = raw
+    .replace(/^\s*(<!--|<!\[CDATA\[)/, "")
+    .replace(/(-->|\]\]>)\s*$/, "")
+    .replace(/,\s*([}\]])/g, "$1");
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    return undefined;
+  }
+}
+
+function deriveProperty(type: SchemaTypeName, property: string, page: CrawlResult): unknown {
+  const og = page.openGraph || {};
+  const heading = page.h1?.[0] || page.title;
+  switch (property) {
+    case "name":
+      return type === "Organization" || type === "LocalBusiness" ? og["og:site_name"] || page.title : heading;
+    case "headline":
+      return heading ? heading.slice(0, 110) : undefined;
+    case "url":
+      return type === "Organization" ? `${new URL(page.url).origin}/` : page.url;
+    case "description":
+      return page.metaDescription;
+    case "image":
+      return og["og:image"] || page.imagesDetailed?.[0]?.absoluteSrc;
+    case "datePublished":
+      return og["article:published_time"];
+    case "dateModified":
+      return og["article:modified_time"];
+    case "author":
+      return og["article:author"] ? { "@type": "Person", name: og["article:author"] } : undefined;
+    case "brand":
+      return og["product:brand"] ? { "@type": "Brand", name: og["product:brand"] } : undefined;
+    case "offers":
+      return og["product:price:amount"]
+        ? { "@type": "Offer", price: og["product:price:amount"], priceCurrency: og["product:price:currency"] || "<priceCurrency>" }
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function buildBreadcrumbs(url: string): JsonObject {
+  const parsed = new URL(url);
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const crumbs = [{ name: "Home", item: `${parsed.origin}/` }].concat(segments.map((segment, index) => ({
+    name: capitalize(decodeSegment(segment).replace(/\.[a-z0-9]+$/i, "").replace(/[-_]+/g, " ")),
+    item: `${parsed.origin}/${segments.slice(0, index + 1).join("/")}`,
+  })));
+  return {
+    "@type": "BreadcrumbList",
+    itemListElement: crumbs.map((crumb, index) => ({ "@type": "ListItem", position: index + 1, ...crumb })),
+  };
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+type ProposalLevel = "required" | "recommended" | "extended";
+
+function completeNode(data: JsonObject, type: SchemaTypeName, page: CrawlResult, level: ProposalLevel): JsonObject {
+  const spec = SCHEMA_TYPES[type];
+  const missingRequired = [
+    ...spec.required.filter(property => !hasValue(data, property)),
+    ...(spec.requiredOneOf || []).filter(group => !group.some(property => hasValue(data, property))).map(group => group[0]),
+  ];
+  missingRequired.forEach(property => {
+    data[property] = deriveProperty(type, property, page) ?? `<${property}>`;
+  });
+  completeNested(data, type, page);
+  if (level !== "required") {
+    spec.recommended.filter(property => !hasValue(data, property)).forEach(property => {
+      const value = deriveProperty(type, property, page);
+      if (value !== undefined) data[property] = value;
+    });
+  }
+  return data;
+}
+
+// Fills the nested values validateNested asks for, as far as the page tells
+function completeNested(data: JsonObject, type: SchemaTypeName, page: CrawlResult) {
+  if (type === "Product") {
+    getNodes(data.offers).forEach(offer => {
+      if (!hasValue(offer, "price") && !hasValue(offer, "lowPrice") && !hasValue(offer, "priceSpecification")) {
+        offer.price = page.openGraph?.["product:price:amount"] || "<price>";
+      }
+      if (!hasValue(offer, "priceCurrency") && !hasValue(offer, "priceSpecification")) {
+        offer.priceCurrency = page.openGraph?.["product:price:currency"] || "<priceCurrency>";
+      }
+    });
+  } else if (type === "FAQPage") {
+    getNodes(data.mainEntity).forEach(question => {
+      const answer = getNodes(question.acceptedAnswer)[0];
+      if (!answer) question.acceptedAnswer = { "@type": "Answer", text: "<answer>" };
+      else if (!hasValue(answer, "text")) answer.text = "<answer>";
+    });
+  }
+}
+
+/**
+ * Rewrites the structured data of a page as one JSON-LD block. Each level
+ * adds to the previous: missing required properties (placeholders where the
+ * page does not tell), derivable recommended properties, then breadcrumbs.
+ */
+function proposeJsonLd(page: CrawlResult, items: StructuredDataItem[], expected: SchemaTypeName | undefined, level: ProposalLevel): string {
+  const nodes = items.map(item => {
+    const data: JsonObject = JSON.parse(JSON.stringify(item.data));
+    delete data["@context"];
+    return item.schemaType ? completeNode(data, item.schemaType, page, level) : data;
+  });
+  if (expected && !hasExpectedType(items, expected)) {
+    nodes.push(completeNode({ "@type": expected }, expected, page, level));
+  }
+
+  if (level === "extended" && getPath(page.url) !== "/" && !items.some(item => item.schemaType === "BreadcrumbList")) {
+    nodes.push(buildBreadcrumbs(page.url));
+  }
+
+  const document = nodes.length === 1
+    ? { "@context": "https://schema.org", ...nodes[0] }
+    : { "@context": "https://schema.org", "@graph": nodes };
+  return `<script type="application/ld+json">\n${JSON.stringify(document, null, 2)}\n</script>`;
+}
+
+function describeItem(validation: StructuredDataValidation): string {
+  const { item } = validation;
+  return item.source === "microdata" ? `${item.type} (Microdata)` : item.type;
+}
+
+function getCurrentMarkup(page: CrawlResult, items: StructuredDataItem[]): string {
+  const parts = (page.jsonLd || []).map(block => block.raw.length > 2000 ? `${block.raw.slice(0, 2000)}…` : block.raw);
+  items.filter(item => item.source === "microdata").forEach(item => {
+    parts.push(`Microdata: ${JSON.stringify(item.data)}`);
+  });
+  return parts.join("\n\n");
+}
+
+export const structuredDataRule: PageRule = {
+  id: "structured_data",
+  version: 1,
+  name: "Strukturierte Daten",
+  description: "JSON-LD und Microdata gegen schema.org prüfen: Syntax, Pflichtfelder, Rich-Result-Eignung und Abgleich mit dem sichtbaren Inhalt",
+  category: "Structured Data",
+  defaultSeverity: "medium",
+  thresholds: {
+    maxMissingRecommended: { label: "Fehlende empfohlene Felder erlaubt", defaultValue: 0, unit: "Felder" },
+  },
+  evaluate(page, { thresholds }) {
+    if (page.statusCode !== undefined && page.statusCode !== 200) return null;
+
+    const blocks = page.jsonLd || [];
+    const broken = blocks.filter(block => block.error);
+    const withoutContext = blocks.filter(block =>
+      getNodes(block.data).some(node => !String(node["@context"] || "").includes("schema.org"))
+    );
+    const repaired = broken
+      .map(block => ({ raw: block.raw, data: repairJson(block.raw) }))
+      .filter(block => block.data !== undefined);
+    const items = collectStructuredItems(page);
+    const validations = items.filter(item => item.schemaType).map(item => validateStructuredItem(item, page));
+    const expected = getExpectedType(page);
+    const issues: SEOIssue[] = [];
+
+    if (broken.length > 0 || withoutContext.length > 0) {
+      const problems = [
+        ...broken.map(block => `invalid JSON (${block.error})`),
+        ...withoutContext.map(() => "no schema.org @context"),
+      ];
+      issues.push({
+        type: "invalid_structured_data",
+        category: "Structured Data",
+        title: "Invalid Structured Data",
+        description: `${problems.length} JSON-LD block(s) cannot be used: ${problems.join("; ")}. Search engines ignore such blocks entirely.`,
+        severity: "high",
+        riskLevel: "low",
+        currentValue: [...broken, ...withoutContext].map(block => block.raw.slice(0, 500)).join("\n\n"),
+        suggestedValue: "Fix the JSON syntax and declare \"@context\": \"https://schema.org\"",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const incomplete = validations.filter(validation => !validation.richResultEligible);
+    if (incomplete.length > 0) {
+      const details = incomplete.map(validation => {
+        const missing = validation.missingRequired.map(property => `"${property}"`);
+        return `${describeItem(validation)}: ${[...(missing.length > 0 ? [`missing ${missing.join(", ")}`] : []), ...validation.nestedProblems].join(", ")}`;
+      });
+      const richResults = Array.from(new Set(incomplete.map(validation => SCHEMA_TYPES[validation.item.schemaType!].richResult)));
+      issues.push({
+        type: "structured_data_missing_required",
+        category: "Structured Data",
+        title: "Structured Data Missing Required Properties",
+        description: `${details.join("; ")}. Without them the page is not eligible for the ${richResults.join(", ")} rich result(s).`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: details.join("\n"),
+        suggestedValue: "Add the missing properties to the markup",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const mismatched = validations.filter(validation => validation.mismatches.length > 0);
+    if (mismatched.length > 0) {
+      const details = mismatched.map(validation => `${describeItem(validation)}: ${validation.mismatches.join(", ")}`);
+      issues.push({
+        type: "structured_data_mismatch",
+        category: "Structured Data",
+        title: "Structured Data Does Not Match Page Content",
+        description: `${details.join("; ")}. Markup describing content visitors cannot see violates search engine guidelines and can lead to a manual action.`,
+        severity: "medium",
+        riskLevel: "medium",
+        currentValue: details.join("\n"),
+        suggestedValue: "Make the marked-up values visible on the page or correct them in the markup",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const sparse = validations.filter(validation => validation.missingRecommended.length > thresholds.maxMissingRecommended);
+    if (sparse.length > 0) {
+      const details = sparse.map(validation => `${describeItem(validation)}: ${validation.missingRecommended.join(", ")}`);
+      issues.push({
+        type: "structured_data_missing_recommended",
+        category: "Structured Data",
+        title: "Structured Data Missing Recommended Properties",
+        description: `Recommended properties are missing: ${details.join("; ")}. They make rich results more detailed and more likely to be shown.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: details.join("\n"),
+        suggestedValue: "Add the recommended properties where the page has the information",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (expected && broken.length === 0 && !hasExpectedType(items, expected)) {
+      issues.push({
+        type: "missing_structured_data",
+        category: "Structured Data",
+        title: `No ${expected} Structured Data`,
+        description: expected === "Organization"
+          ? "The homepage has no Organization markup. It tells search engines the name, logo and profiles of the site owner for the knowledge panel."
+          : `This page looks like a ${expected.toLowerCase()} but has no ${expected} markup, so it cannot appear as a ${SCHEMA_TYPES[expected].richResult} rich result.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: getCurrentMarkup(page, items),
+        suggestedValue: `Add ${expected} JSON-LD`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (issues.length === 0) return null;
+
+    // One JSON-LD block replaces all markup of the page, so only the first issue carries the draft
+    const proposalItems = [...items, ...collectStructuredItems({ url: page.url }, repaired)];
+    const proposal: PageProposal = {
+      pageUrl: page.url,
+      currentValue: getCurrentMarkup(page, items),
+      safe: proposeJsonLd(page, proposalItems, expected, "required"),
+      balanced: proposeJsonLd(page, proposalItems, expected, "recommended"),
+      aggressive: proposeJsonLd(page, proposalItems, expected, "extended"),
+    };
+    return issues.map((issue, index) => ({ ...issue, pageProposals: index === 0 ? [proposal] : [] }));
+  },
+};
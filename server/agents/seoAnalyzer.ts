@@ -1,229 +1,15 @@
-import type { CrawlResult, SEOIssue, ImageAsset, ImageReport } from "./types";
+import type { CrawlResult, SEOIssue, ImageAsset, ImageReport, PageProposal, ResourceAsset } from "./types";
+import type { BrokenLink, CanonicalCluster, CanonicalReport, CrawlStats, CrawlTrap, CrawlTrapKind, LinkCheckSummary, PageFingerprint, SitemapCoverage } from "@shared/schema";
+import type { SitemapDiscovery } from "./crawl";
+import { findSimilarPairs, fingerprintSimilarity, getInternalLinkKeys, getJsonLdTypes, getUrlKey, isPermanentRedirect, normalizeUrl, splitWords } from "./crawl";
+import { ruleRegistry, type RuleSet } from "./rules";
 
-export function analyzePageSEO(page: CrawlResult): SEOIssue[] {
-  const issues: SEOIssue[] = [];
-  
-  // Check title
-  if (!page.title) {
-    issues.push({
-      type: "missing_title",
-      category: "Meta Tags",
-      title: "Missing Page Title",
-      description: "This page is missing a title tag. Page titles are crucial for SEO and user experience.",
-      severity: "critical",
-      riskLevel: "low",
-      currentValue: "",
-      suggestedValue: generateTitleSuggestion(page),
-      pageUrl: page.url,
-      autoFixable: true,
-    });
-  } else if (page.title.length < 30) {
-    issues.push({
-      type: "short_title",
-      category: "Meta Tags",
-      title: "Title Too Short",
-      description: `Title is only ${page.title.length} characters. Titles should be 50-60 characters for optimal SEO.`,
-      severity: "medium",
-      riskLevel: "low",
-      currentValue: page.title,
-      suggestedValue: generateTitleSuggestion(page),
-      pageUrl: page.url,
-      autoFixable: true,
-    });
-  } else if (page.title.length > 60) {
-    issues.push({
-      type: "long_title",
-      category: "Meta Tags",
-      title: "Title Too Long",
-      description: `Title is ${page.title.length} characters. Titles over 60 characters may be truncated in search results.`,
-      severity: "low",
-      riskLevel: "low",
-      currentValue: page.title,
-      suggestedValue: page.title.slice(0, 57) + "...",
-      pageUrl: page.url,
-      autoFixable: true,
-    });
-  }
-  
-  // Check meta description
-  if (!page.metaDescription) {
-    issues.push({
-      type: "missing_meta_description",
-      category: "Meta Tags",
-      title: "Missing Meta Description",
-      description: "This page is missing a meta description. Meta descriptions help improve click-through rates from search results.",
-      severity: "high",
-      riskLevel: "low",
-      currentValue: "",
-      suggestedValue: generateMetaDescriptionSuggestion(page),
-      pageUrl: page.url,
-      autoFixable: true,
-    });
-  } else if (page.metaDescription.length < 120) {
-    issues.push({
-      type: "short_meta_description",
-      category: "Meta Tags",
-      title: "Meta Description Too Short",
-      description: `Meta description is only ${page.metaDescription.length} characters. Aim for 150-160 characters.`,
-      severity: "medium",
-      riskLevel: "low",
-      currentValue: page.metaDescription,
-      suggestedValue: generateMetaDescriptionSuggestion(page),
-      pageUrl: page.url,
-      autoFixable: true,
-    });
-  } else if (page.metaDescription.length > 160) {
-    issues.push({
-      type: "long_meta_description",
-      category: "Meta Tags",
-      title: "Meta Description Too Long",
-      description: `Meta description is ${page.metaDescription.length} characters. Descriptions over 160 characters may be truncated.`,
-      severity: "low",
-      riskLevel: "low",
-      currentValue: page.metaDescription,
-      suggestedValue: page.metaDescription.slice(0, 157) + "...",
-      pageUrl: page.url,
-      autoFixable: true,
-    });
-  }
-  
-  // Check H1 tags
-  if (!page.h1 || page.h1.length === 0) {
-    issues.push({
-      type: "missing_h1",
-      category: "Headings",
-      title: "Missing H1 Tag",
-      description: "This page is missing an H1 heading. H1 tags are important for accessibility and SEO.",
-      severity: "high",
-      riskLevel: "medium",
-      currentValue: "",
-      suggestedValue: page.title || "Add a descriptive H1 heading",
-      pageUrl: page.url,
-      autoFixable: false,
-    });
-  } else if (page.h1.length > 1) {
-    issues.push({
-      type: "multiple_h1",
-      category: "Headings",
-      title: "Multiple H1 Tags",
-      description: `Found ${page.h1.length} H1 tags. Best practice is to have exactly one H1 per page.`,
-      severity: "medium",
-      riskLevel: "medium",
-      currentValue: page.h1.join(", "),
-      suggestedValue: "Keep only the primary H1 heading",
-      pageUrl: page.url,
-      autoFixable: false,
-    });
-  }
-  
-  // Check images for alt text
-  if (page.images) {
-    const imagesWithoutAlt = page.images.filter(img => !img.alt || img.alt.trim() === "");
-    if (imagesWithoutAlt.length > 0) {
-      issues.push({
-        type: "missing_alt_text",
-        category: "Accessibility",
-        title: `${imagesWithoutAlt.length} Images Missing Alt Text`,
-        description: "Images without alt text hurt accessibility and SEO. Add descriptive alt text to all images.",
-        severity: imagesWithoutAlt.length > 5 ? "high" : "medium",
-        riskLevel: "low",
-        currentValue: `${imagesWithoutAlt.length} images without alt text`,
-        suggestedValue: "Add descriptive alt text to each image",
-        pageUrl: page.url,
-        autoFixable: false,
-      });
-    }
-  }
-  
-  // Check page load time
-  if (page.loadTime && page.loadTime > 3000) {
-    issues.push({
-      type: "slow_page",
-      category: "Performance",
-      title: "Slow Page Load Time",
-      description: `Page took ${(page.loadTime / 1000).toFixed(1)}s to load. Aim for under 3 seconds.`,
-      severity: page.loadTime > 5000 ? "high" : "medium",
-      riskLevel: "high",
-      currentValue: `${(page.loadTime / 1000).toFixed(1)}s`,
-      suggestedValue: "Optimize images, enable caching, minify resources",
-      pageUrl: page.url,
-      autoFixable: false,
-    });
-  }
-  
-  // Check for thin content
-  if (page.bodyText && page.bodyText.split(/\s+/).length < 300) {
-    const wordCount = page.bodyText.split(/\s+/).length;
-    issues.push({
-      type: "thin_content",
-      category: "Content",
-      title: "Thin Content",
-      description: `Page has only ${wordCount} words. Consider adding more valuable content.`,
-      severity: wordCount < 100 ? "high" : "medium",
-      riskLevel: "high",
-      currentValue: `${wordCount} words`,
-      suggestedValue: "Add more comprehensive, valuable content (aim for 500+ words)",
-      pageUrl: page.url,
-      autoFixable: false,
-    });
-  }
-  
-  // Check HTTP status
-  if (page.statusCode && page.statusCode !== 200) {
-    issues.push({
-      type: "http_error",
-      category: "Technical",
-      title: `HTTP ${page.statusCode} Error`,
-      description: `Page returned HTTP ${page.statusCode} status code.`,
-      severity: page.statusCode >= 500 ? "critical" : "high",
-      riskLevel: "high",
-      currentValue: `HTTP ${page.statusCode}`,
-      suggestedValue: "Fix server configuration or redirect issues",
-      pageUrl: page.url,
-      autoFixable: false,
-    });
-  }
-  
-  return issues;
-}
-
-function generateTitleSuggestion(page: CrawlResult): string {
-  if (page.h1 && page.h1[0]) {
-    return page.h1[0].slice(0, 55) + (page.h1[0].length > 55 ? "..." : "");
-  }
-  
-  if (page.bodyText) {
-    const words = page.bodyText.split(/\s+/).slice(0, 10).join(" ");
-    return words.slice(0, 55) + "...";
-  }
-  
-  try {
-    const hostname = new URL(page.url).hostname.replace(/^www\./, "");
-    return `Welcome to ${hostname}`;
-  } catch {
-    return "Your Page Title Here - Describe Your Content";
-  }
-}
-
-function generateMetaDescriptionSuggestion(page: CrawlResult): string {
-  if (page.bodyText) {
-    const sentences = page.bodyText.split(/[.!?]+/);
-    let description = "";
-    for (const sentence of sentences) {
-      if (description.length + sentence.length < 155) {
-        description += sentence.trim() + ". ";
-      } else {
-        break;
-      }
-    }
-    return description.trim() || page.bodyText.slice(0, 155) + "...";
-  }
-  
-  if (page.title) {
-    return `Learn more about ${page.title}. Discover valuable information and insights.`;
-  }
-  
-  return "Discover valuable content and insights on this page. Learn more about our offerings.";
+/**
+ * Runs the page-level rules. Callers pass the rule set built from a
+ * website's overrides; without one every built-in rule runs with its defaults.
+ */
+export function analyzePageSEO(page: CrawlResult, ruleSet: RuleSet = ruleRegistry.createRuleSet()): SEOIssue[] {
+  return ruleSet.evaluate(page);
 }
 
 export function analyzeImageSEO(images: ImageAsset[], pageUrl: string): SEOIssue[] {
@@ -345,6 +131,1777 @@ export function analyzeImageSEO(images: ImageAsset[], pageUrl: string): SEOIssue
   return issues;
 }
 
+export function analyzeRobotsSEO(crawlResults: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+
+  for (const result of crawlResults) {
+    if (result.skipReason !== "robots_txt" || !result.linkedFrom || result.linkedFrom.length === 0) {
+      continue;
+    }
+
+    issues.push({
+      type: "blocked_by_robots_linked",
+      category: "Technical",
+      title: "Internally Linked Page Blocked by robots.txt",
+      description: `This URL is disallowed in robots.txt but linked from ${result.linkedFrom.length} internal page(s). Search engines cannot crawl it, yet link equity flows into it.`,
+      severity: "medium",
+      riskLevel: "medium",
+      currentValue: `Linked from: ${result.linkedFrom.join(", ")}`,
+      suggestedValue: "Remove the internal links or allow the URL in robots.txt",
+      pageUrl: result.url,
+      autoFixable: false,
+    });
+  }
+
+  return issues;
+}
+
+export function analyzeRedirectSEO(crawlData: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const redirects = crawlData.filter(page => page.redirectChain && page.redirectChain.length > 0);
+  const redirectUrls = new Set(redirects.map(page => normalizeForComparison(page.url)));
+
+  // Collect every crawled page that links to a redirecting URL
+  const linkSources = new Map<string, string[]>();
+  for (const page of crawlData) {
+    for (const link of page.links || []) {
+      const target = normalizeForComparison(link.href);
+      if (!redirectUrls.has(target)) continue;
+      const sources = linkSources.get(target) || [];
+      if (!sources.includes(page.url)) sources.push(page.url);
+      linkSources.set(target, sources);
+    }
+  }
+
+  for (const page of redirects) {
+    const chain = page.redirectChain!;
+    const path = [...chain.map(hop => `${hop.url} (${hop.statusCode})`), page.finalUrl || ""].join(" → ");
+
+    if (page.redirectLoop) {
+      issues.push({
+        type: "redirect_loop",
+        category: "Technical",
+        title: "Redirect Loop",
+        description: "This URL redirects back to a URL already in its own redirect chain. Browsers and search engines give up and the page cannot be reached.",
+        severity: "critical",
+        riskLevel: "high",
+        currentValue: path,
+        suggestedValue: "Point the redirect at a final URL that returns HTTP 200",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+      continue;
+    }
+
+    if (chain.length > 1) {
+      issues.push({
+        type: "redirect_chain",
+        category: "Technical",
+        title: "Redirect Chain",
+        description: `This URL passes through ${chain.length} redirects before reaching its destination. Every extra hop adds latency and search engines may stop following long chains.`,
+        severity: chain.length > 3 ? "high" : "medium",
+        riskLevel: "low",
+        currentValue: path,
+        suggestedValue: `Redirect ${page.url} directly to ${page.finalUrl}`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const temporaryHops = chain.filter(hop => !isPermanentRedirect(hop.statusCode));
+    if (temporaryHops.length > 0 && page.finalStatusCode === 200) {
+      issues.push({
+        type: "temporary_redirect",
+        category: "Technical",
+        title: "Temporary Redirect",
+        description: "This URL uses a temporary redirect (302/303/307). If the content has moved for good, search engines keep indexing the old URL and do not consolidate its signals on the new one.",
+        severity: "low",
+        riskLevel: "low",
+        currentValue: temporaryHops.map(hop => `${hop.url} (${hop.statusCode})`).join(", "),
+        suggestedValue: "Use a 301 or 308 redirect if the move is permanent",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const downgrades = chain.filter(hop => hop.url.startsWith("https:") && hop.location.startsWith("http:"));
+    if (downgrades.length > 0) {
+      issues.push({
+        type: "mixed_protocol_redirect",
+        category: "Technical",
+        title: "Redirect from HTTPS to HTTP",
+        description: "This redirect chain sends visitors from a secure HTTPS URL to an insecure HTTP URL. Browsers may warn users and search engines prefer HTTPS pages.",
+        severity: "high",
+        riskLevel: "medium",
+        currentValue: path,
+        suggestedValue: "Keep every redirect hop on HTTPS",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    } else if (chain.length > 1 && chain.some((hop, i) => i > 0 && hop.url.startsWith("http:") && hop.location.startsWith("https:"))) {
+      issues.push({
+        type: "mixed_protocol_redirect",
+        category: "Technical",
+        title: "Late HTTP to HTTPS Redirect",
+        description: "The upgrade to HTTPS happens in the middle of the redirect chain, so visitors pass through insecure HTTP hops first.",
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: path,
+        suggestedValue: `Redirect straight to ${page.finalUrl}`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const sources = linkSources.get(normalizeForComparison(page.url)) || page.linkedFrom || [];
+    if (sources.length > 0) {
+      issues.push({
+        type: "internal_link_to_redirect",
+        category: "Technical",
+        title: "Internal Links Point to Redirect",
+        description: `${sources.length} internal page(s) link to this URL, which redirects. Linking to the final URL saves a request and passes link equity directly.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: `Linked from: ${sources.slice(0, 10).join(", ")}`,
+        suggestedValue: `Update the links to point to ${page.finalUrl}`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function analyzeDuplicateUrlSEO(crawlResults: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const groups = new Map<string, CrawlResult[]>();
+
+  for (const page of crawlResults) {
+    if (page.statusCode !== 200 || !page.contentHash) continue;
+    const key = `${page.contentHash} ${getVariantKey(page.url)}`;
+    const group = groups.get(key) || [];
+    group.push(page);
+    groups.set(key, group);
+  }
+
+  groups.forEach(pages => {
+    if (pages.length < 2) return;
+
+    // Variants are fine when every one of them declares the same canonical URL
+    const canonicals = new Set(pages.map(page => page.canonical ? normalizeForComparison(page.canonical) : ""));
+    if (!canonicals.has("") && canonicals.size === 1) return;
+
+    const preferred = pages.reduce((shortest, page) => page.url.length < shortest.url.length ? page : shortest);
+    issues.push({
+      type: "duplicate_url_variants",
+      category: "Technical",
+      title: "Duplicate URL Variants Without Canonical",
+      description: `${pages.length} URLs differing only in case, trailing slash, host prefix or query string serve identical content without a shared canonical tag. Search engines may split ranking signals between them.`,
+      severity: "medium",
+      riskLevel: "low",
+      currentValue: pages.map(page => page.url).join(", "),
+      suggestedValue: `Add <link rel="canonical" href="${preferred.url}"> to every variant or redirect them to it`,
+      pageUrl: preferred.url,
+      autoFixable: false,
+    });
+  });
+
+  return issues;
+}
+
+const MAX_LISTED_URLS = 10;
+
+interface DuplicateField {
+  type: string;
+  label: string;
+  title: string;
+  category: string;
+  maxLength: number;
+  autoFixable: boolean;
+  getValue(page: CrawlResult): string | undefined;
+  getSeverity(pageCount: number): SEOIssue["severity"];
+  propose(shared: string, topic: string, page: CrawlResult): Pick<PageProposal, "safe" | "balanced" | "aggressive">;
+}
+
+const DUPLICATE_FIELDS: DuplicateField[] = [
+  {
+    type: "duplicate_title",
+    label: "title",
+    title: "Duplicate Page Titles",
+    category: "Meta Tags",
+    maxLength: 60,
+    autoFixable: true,
+    getValue: page => page.title,
+    getSeverity: count => count >= 5 ? "high" : "medium",
+    propose: (shared, topic) => ({
+      safe: `${shared} – ${topic}`,
+      balanced: `${topic} | ${shared}`,
+      aggressive: topic,
+    }),
+  },
+  {
+    type: "duplicate_meta_description",
+    label: "meta description",
+    title: "Duplicate Meta Descriptions",
+    category: "Meta Tags",
+    maxLength: 160,
+    autoFixable: true,
+    getValue: page => page.metaDescription,
+    getSeverity: count => count >= 5 ? "medium" : "low",
+    propose: (shared, topic, page) => {
+      const summary = summarizeText(page.bodyText, 160);
+      if (!summary) return { safe: `${topic}: ${shared}`, balanced: `${topic}: ${shared}`, aggressive: `${topic}: ${shared}` };
+      // Templated pages can share their opening text, so the summary alone is only used when it names the page
+      const namesTopic = summary.toLowerCase().includes(topic.toLowerCase());
+      return {
+        safe: `${topic}: ${shared}`,
+        balanced: `${topic} – ${summary}`,
+        aggressive: namesTopic ? summary : `${topic}: ${summary}`,
+      };
+    },
+  },
+  {
+    type: "duplicate_h1",
+    label: "H1",
+    title: "Duplicate H1 Headings",
+    category: "Headings",
+    maxLength: 70,
+    autoFixable: false,
+    getValue: page => page.h1?.[0],
+    getSeverity: () => "low",
+    propose: (shared, topic) => ({
+      safe: `${shared}: ${topic}`,
+      balanced: topic,
+      aggressive: topic,
+    }),
+  },
+];
+
+/**
+ * Groups indexable pages whose title, meta description or first H1 only
+ * differ in case, spacing or punctuation. Each group becomes one issue that
+ * names every page, with a proposal per page built from what sets it apart.
+ */
+export function analyzeDuplicateMetadataSEO(crawlResults: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const candidates = crawlResults.filter(page =>
+    page.statusCode === 200 && !isNoindexed(page) && !isCanonicalizedElsewhere(page)
+  );
+
+  for (const field of DUPLICATE_FIELDS) {
+    const groups = new Map<string, CrawlResult[]>();
+    const documents = new Set<string>();
+
+    for (const page of candidates) {
+      const key = getComparableText(field.getValue(page));
+      if (!key) continue;
+      // The same document under several URLs is a duplicate content problem, not a metadata one
+      if (page.contentHash) {
+        if (documents.has(`${key} ${page.contentHash}`)) continue;
+        documents.add(`${key} ${page.contentHash}`);
+      }
+      const group = groups.get(key) || [];
+      group.push(page);
+      groups.set(key, group);
+    }
+
+    groups.forEach(pages => {
+      if (pages.length < 2) return;
+
+      const shared = field.getValue(pages[0])!.trim();
+      const primary = pages.reduce((shortest, page) => page.url.length < shortest.url.length ? page : shortest);
+      const urls = pages.map(page => page.url);
+      const listed = urls.slice(0, MAX_LISTED_URLS).join(", ") +
+        (urls.length > MAX_LISTED_URLS ? ` and ${urls.length - MAX_LISTED_URLS} more` : "");
+
+      issues.push({
+        type: field.type,
+        category: field.category,
+        title: field.title,
+        description: `${pages.length} pages share the ${field.label} "${shared}": ${listed}. Search engines cannot tell them apart and may rank the wrong page.`,
+        severity: field.getSeverity(pages.length),
+        riskLevel: "low",
+        currentValue: shared,
+        suggestedValue: `Give each page a ${field.label} that describes its own content`,
+        pageUrl: primary.url,
+        autoFixable: field.autoFixable,
+        affectedUrls: urls,
+        pageProposals: proposeDistinctValues(field, shared, pages),
+      });
+    });
+  }
+
+  return issues;
+}
+
+function proposeDistinctValues(field: DuplicateField, shared: string, pages: CrawlResult[]): PageProposal[] {
+  const taken = new Set([getComparableText(shared)]);
+  return pages.map(page => {
+    const topic = getDistinctTopic(page, taken);
+    const proposal = field.propose(shared, topic, page);
+    return {
+      pageUrl: page.url,
+      currentValue: field.getValue(page)!,
+      safe: fitLength(proposal.safe, field.maxLength),
+      balanced: fitLength(proposal.balanced, field.maxLength),
+      aggressive: fitLength(proposal.aggressive, field.maxLength),
+    };
+  });
+}
+
+// Picks the first thing that names this page and no other page of the group
+function getDistinctTopic(page: CrawlResult, taken: Set<string>): string {
+  const pathLabel = getPathLabel(page.url);
+  const candidates = [
+    ...(page.h1 || []),
+    page.title,
+    pathLabel,
+    (page.bodyText || "").split(/\s+/).slice(0, 6).join(" "),
+  ];
+  for (const candidate of candidates) {
+    const topic = (candidate || "").trim();
+    const key = getComparableText(topic);
+    if (key && !taken.has(key)) {
+      taken.add(key);
+      return topic;
+    }
+  }
+
+  const fallback = `${pathLabel} (${new URL(page.url).pathname})`;
+  taken.add(getComparableText(fallback));
+  return fallback;
+}
+
+function getPathLabel(url: string): string {
+  const parsed = new URL(url);
+  const segment = parsed.pathname.split("/").filter(Boolean).pop();
+  if (!segment) return parsed.hostname.replace(/^www\./, "");
+
+  let label = segment;
+  try {
+    label = decodeURIComponent(segment);
+  } catch {
+    // Keep the raw segment
+  }
+  return label
+    .replace(/\.[a-z0-9]+$/i, "")
+    .replace(/[-_+]+/g, " ")
+    .trim()
+    .replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+function isCanonicalizedElsewhere(page: CrawlResult): boolean {
+  return Boolean(page.canonical) && normalizeForComparison(page.canonical!) !== normalizeForComparison(page.url);
+}
+
+function getComparableText(value: string | undefined): string {
+  return splitWords(value || "").join(" ");
+}
+
+function summarizeText(text: string | undefined, maxLength: number): string {
+  let summary = "";
+  for (const match of (text || "").match(/[^.!?]+[.!?]*/g) || []) {
+    const sentence = match.trim();
+    if (summary.length + sentence.length + 1 > maxLength) break;
+    summary = `${summary} ${sentence}`.trim();
+  }
+  return summary;
+}
+
+function fitLength(value: string, maxLength: number): string {
+  if (value.length <= maxLength) return value;
+  const cut = value.slice(0, maxLength + 1);
+  const boundary = cut.lastIndexOf(" ");
+  return (boundary > maxLength / 2 ? cut.slice(0, boundary) : value.slice(0, maxLength)).replace(/[\s,;:|–-]+$/, "");
+}
+
+/**
+ * Clusters indexable pages whose main content fingerprints are at least
+ * minSimilarity (0 to 1) alike, and matches pages against fingerprints of
+ * the previous audit to find content that moved to a new URL.
+ */
+export function analyzeNearDuplicateSEO(
+  crawlResults: CrawlResult[],
+  minSimilarity: number,
+  previousPages: PageFingerprint[] = []
+): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const candidates = crawlResults.filter(page =>
+    page.statusCode === 200 && page.contentFingerprint && !isNoindexed(page) && !isCanonicalizedElsewhere(page)
+  );
+
+  const parents = candidates.map((_, index) => index);
+  const findRoot = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+  for (const pair of findSimilarPairs(candidates.map(page => page.contentFingerprint!), minSimilarity)) {
+    parents[findRoot(pair.a)] = findRoot(pair.b);
+  }
+
+  const clusters = new Map<number, CrawlResult[]>();
+  candidates.forEach((page, index) => {
+    const root = findRoot(index);
+    clusters.set(root, [...(clusters.get(root) || []), page]);
+  });
+
+  clusters.forEach(pages => {
+    if (pages.length < 2) return;
+
+    const target = pickCanonicalTarget(pages);
+    const others = pages.filter(page => page !== target)
+      .map(page => ({ page, similarity: fingerprintSimilarity(page.contentFingerprint!, target.contentFingerprint!) }))
+      .sort((a, b) => b.similarity - a.similarity);
+    const percentages = others.map(({ similarity }) => Math.round(similarity * 100));
+    const range = percentages[0] === percentages[percentages.length - 1]
+      ? `${percentages[0]}%`
+      : `${percentages[percentages.length - 1]}–${percentages[0]}%`;
+    const canonicalTag = `<link rel="canonical" href="${target.url}">`;
+
+    issues.push({
+      type: "duplicate_content",
+      category: "Content",
+      title: `Near-Duplicate Content: ${target.title || new URL(target.url).pathname}`,
+      description: `${others.length === 1 ? "1 page shares" : `${others.length} pages share`} ${range} of the main content of ${target.url}: ${others.map(({ page }, i) => `${page.url} (${percentages[i]}%)`).join(", ")}. Search engines pick one of them to rank and may ignore the others.`,
+      severity: pages.length >= 5 ? "high" : "medium",
+      riskLevel: "medium",
+      currentValue: pages.map(page => page.url).join(", "),
+      suggestedValue: `Merge the pages or add ${canonicalTag} to the others`,
+      pageUrl: target.url,
+      autoFixable: false,
+      affectedUrls: pages.map(page => page.url),
+      pageProposals: others.map(({ page }) => ({
+        pageUrl: page.url,
+        currentValue: page.canonical ? `<link rel="canonical" href="${page.canonical}">` : "",
+        safe: canonicalTag,
+        balanced: canonicalTag,
+        aggressive: `301 redirect ${page.url} → ${target.url}`,
+      })),
+    });
+  });
+
+  // Old URLs that were reached in this crawl are covered by the redirect and status checks
+  const crawledKeys = new Set(crawlResults.map(page => getUrlKey(page.url)));
+  const vanished = previousPages.filter(page => page.contentFingerprint && !crawledKeys.has(page.urlKey));
+  if (vanished.length === 0) return issues;
+
+  const moved = new Map<CrawlResult, { url: string; similarity: number }[]>();
+  const fingerprints = [...candidates, ...vanished].map(page => page.contentFingerprint!);
+  for (const pair of findSimilarPairs(fingerprints, minSimilarity)) {
+    const [current, previous] = pair.a < candidates.length ? [pair.a, pair.b] : [pair.b, pair.a];
+    if (current >= candidates.length || previous < candidates.length) continue;
+    const page = candidates[current];
+    moved.set(page, [...(moved.get(page) || []), { url: vanished[previous - candidates.length].url, similarity: pair.similarity }]);
+  }
+
+  moved.forEach((oldUrls, page) => {
+    const listed = oldUrls.map(old => `${old.url} (${Math.round(old.similarity * 100)}%)`).join(", ");
+    issues.push({
+      type: "moved_content",
+      category: "Content",
+      title: "Content Moved From Another URL",
+      description: `The main content of this page was found at ${listed} in the previous audit. ${oldUrls.length === 1 ? "That URL is no longer linked from the site; if it still responds, it" : "These URLs are no longer linked from the site; any that still respond"} show${oldUrls.length === 1 ? "s" : ""} visitors and search engines a duplicate instead of this page.`,
+      severity: "low",
+      riskLevel: "low",
+      currentValue: oldUrls.map(old => old.url).join(", "),
+      suggestedValue: oldUrls.map(old => `301 redirect ${old.url} → ${page.url}`).join("\n"),
+      pageUrl: page.url,
+      autoFixable: false,
+      affectedUrls: [page.url, ...oldUrls.map(old => old.url)],
+    });
+  });
+
+  return issues;
+}
+
+// Prefer the page the site itself treats as strongest
+function pickCanonicalTarget(pages: CrawlResult[]): CrawlResult {
+  return pages.reduce((best, page) => {
+    const rankDelta = (page.pageRank || 0) - (best.pageRank || 0);
+    if (rankDelta !== 0) return rankDelta > 0 ? page : best;
+    const inboundDelta = (page.inboundLinks || 0) - (best.inboundLinks || 0);
+    if (inboundDelta !== 0) return inboundDelta > 0 ? page : best;
+    return page.url.length < best.url.length ? page : best;
+  });
+}
+
+export function analyzeBrokenLinkSEO(linkCheck: LinkCheckSummary): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  // One issue per source page and link kind, listing every broken target on it
+  const bySource = new Map<string, { internal: boolean; pageUrl: string; entries: string[] }>();
+
+  for (const link of linkCheck.brokenLinks) {
+    for (const source of link.sources) {
+      const key = `${link.internal ? "internal" : "external"} ${source.pageUrl}`;
+      const group = bySource.get(key) || { internal: link.internal, pageUrl: source.pageUrl, entries: [] };
+      group.entries.push(`${link.url} (${describeLinkStatus(link)}) – "${source.anchorText || "no anchor text"}"`);
+      bySource.set(key, group);
+    }
+  }
+
+  bySource.forEach(({ internal, pageUrl, entries }) => {
+    issues.push(internal
+      ? {
+          type: "broken_internal_links",
+          category: "Links",
+          title: "Broken Internal Links",
+          description: `${entries.length} link(s) on this page point to internal URLs that return an error. Visitors hit dead ends and crawlers waste budget on missing pages.`,
+          severity: "high",
+          riskLevel: "low",
+          currentValue: entries.join("\n"),
+          suggestedValue: "Point these links to a working page or remove them",
+          pageUrl,
+          autoFixable: false,
+        }
+      : {
+          type: "broken_external_links",
+          category: "Links",
+          title: "Broken External Links",
+          description: `${entries.length} outbound link(s) on this page lead to URLs that no longer respond or return an error.`,
+          severity: "medium",
+          riskLevel: "low",
+          currentValue: entries.join("\n"),
+          suggestedValue: "Replace these links with a current source or remove them",
+          pageUrl,
+          autoFixable: false,
+        });
+  });
+
+  return issues;
+}
+
+function describeLinkStatus(link: BrokenLink): string {
+  return link.statusCode > 0 ? `HTTP ${link.statusCode}` : link.error || "No response";
+}
+
+const MAX_CLICK_DEPTH = 3;
+const MIN_INBOUND_LINKS = 3;
+// Pages with this much text are worth linking to even when they are not in the sitemap
+const SUBSTANTIAL_WORD_COUNT = 300;
+
+export function analyzeLinkGraphSEO(
+  crawlResults: CrawlResult[],
+  startUrl: string,
+  sitemapUrls: string[],
+  crawlStats?: CrawlStats
+): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  // An incomplete crawl never saw the pages that may link to a sitemap-only page
+  const partialCrawl = Boolean(crawlStats && (crawlStats.budgetExhausted || crawlStats.timedOut));
+  const startKey = getUrlKey(startUrl);
+  const inSitemap = new Set(sitemapUrls.map(getUrlKey));
+  const pages = crawlResults.filter(page => page.statusCode === 200 && getUrlKey(page.url) !== startKey);
+  // The strongest pages are the best places to add a link from
+  const linkSources = crawlResults
+    .filter(page => page.statusCode === 200 && page.pageRank !== undefined)
+    .sort((a, b) => (b.pageRank || 0) - (a.pageRank || 0));
+
+  for (const page of pages) {
+    const key = getUrlKey(page.url);
+    const inbound = page.inboundLinks || 0;
+
+    if (inbound === 0 && page.clickDepth === null && inSitemap.has(key)) {
+      issues.push({
+        type: "orphan_page",
+        category: "Links",
+        title: "Orphan Page",
+        description: partialCrawl
+          ? `This page is listed in the sitemap, but none of the ${crawlStats!.pagesCrawled} crawled pages links to it. The crawl stopped early, so pages that were not crawled may still link to it.`
+          : "This page is listed in the sitemap, but no crawled page links to it. Visitors cannot reach it through the site, and search engines treat it as unimportant.",
+        severity: partialCrawl ? "low" : "high",
+        riskLevel: "low",
+        currentValue: "Only reachable via the XML sitemap",
+        suggestedValue: suggestLinkSources(page, linkSources),
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+      continue;
+    }
+
+    if (page.clickDepth !== undefined && page.clickDepth !== null && page.clickDepth > MAX_CLICK_DEPTH) {
+      issues.push({
+        type: "deep_page",
+        category: "Links",
+        title: "Page Buried Deep in the Site",
+        description: `Reaching this page takes ${page.clickDepth} clicks from the homepage. Pages more than ${MAX_CLICK_DEPTH} clicks deep are crawled less often and rank worse.`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: `${page.clickDepth} clicks`,
+        suggestedValue: `Link it from a page at most ${MAX_CLICK_DEPTH - 1} clicks deep, e.g. a category page or the navigation`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const important = inSitemap.has(key) || (page.wordCount || 0) >= SUBSTANTIAL_WORD_COUNT;
+    if (important && inbound < MIN_INBOUND_LINKS) {
+      issues.push({
+        type: "few_internal_links",
+        category: "Links",
+        title: "Few Internal Links to Important Page",
+        description: `Only ${inbound} other page(s) link to this page. Internal links tell search engines which pages matter and pass ranking signals to them.`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: `${inbound} internal link(s), PageRank ${page.pageRank ?? 0}/100`,
+        suggestedValue: suggestLinkSources(page, linkSources),
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function suggestLinkSources(page: CrawlResult, linkSources: CrawlResult[]): string {
+  const key = getUrlKey(page.url);
+  const candidates = linkSources
+    .filter(source => source.url !== page.url && !(source.links || []).some(link => getUrlKey(link.href) === key))
+    .slice(0, 3)
+    .map(source => source.url);
+  return candidates.length > 0
+    ? `Add a contextual link from: ${candidates.join(", ")}`
+    : "Add contextual links from related pages";
+}
+
+const MAX_PDF_BYTES = 10 * 1024 * 1024;
+// Share of one text's word shingles found in the other before a PDF counts as a copy
+const PDF_DUPLICATE_OVERLAP = 0.7;
+const MIN_SHINGLES_FOR_DUPLICATE = 20;
+// Titles that export tools write when the author never set one
+const PLACEHOLDER_PDF_TITLE = /^(untitled|unbenannt|document\d*|dokument\d*|microsoft (word|powerpoint) - .*|.*\.(pdf|docx?|pptx?|xlsx?|indd|qxp))$/i;
+
+export function analyzeDocumentSEO(documents: CrawlResult[], crawlResults: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const htmlPages = crawlResults.filter(page => page.statusCode === 200 && !page.document);
+
+  for (const page of documents) {
+    const document = page.document;
+    if (!document || document.type !== "pdf" || page.statusCode !== 200) continue;
+
+    if (document.truncated || document.size > MAX_PDF_BYTES) {
+      issues.push({
+        type: "huge_pdf",
+        category: "Documents",
+        title: "Very Large PDF",
+        description: `This PDF is ${formatMB(document.size)}${document.pageCount ? ` with ${document.pageCount} pages` : ""}. Large downloads frustrate mobile visitors and search engines may only index part of the file.`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: formatMB(document.size),
+        suggestedValue: "Compress images in the PDF, or split it into smaller documents",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+    if (document.truncated) continue;
+
+    if (!document.title || PLACEHOLDER_PDF_TITLE.test(document.title)) {
+      issues.push({
+        type: "untitled_pdf",
+        category: "Documents",
+        title: "PDF Without a Title",
+        description: "The PDF has no document title in its metadata. Search engines then show the file name or a random line of text as the result title.",
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: document.title || "No title",
+        suggestedValue: "Set a descriptive title in the document properties before exporting",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const original = findHtmlOriginal(page, htmlPages);
+    if (original) {
+      issues.push({
+        type: "pdf_duplicates_html",
+        category: "Documents",
+        title: "PDF Duplicates an HTML Page",
+        description: `This PDF has the same ${original.reason} as ${original.page.url}. Both versions compete in search results, and visitors may land on the PDF without site navigation.`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: original.page.url,
+        suggestedValue: `Link: <${original.page.url}>; rel="canonical"`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function findHtmlOriginal(
+  pdf: CrawlResult,
+  htmlPages: CrawlResult[]
+): { page: CrawlResult; reason: string } | null {
+  const title = normalizeTitle(pdf.title);
+  if (title) {
+    const sameTitle = htmlPages.find(page => normalizeTitle(page.title) === title);
+    if (sameTitle) return { page: sameTitle, reason: "title" };
+  }
+
+  const pdfShingles = getShingles(pdf.bodyText);
+  if (pdfShingles.size < MIN_SHINGLES_FOR_DUPLICATE) return null;
+  for (const page of htmlPages) {
+    const pageShingles = getShingles(page.bodyText);
+    if (pageShingles.size < MIN_SHINGLES_FOR_DUPLICATE) continue;
+    let shared = 0;
+    pdfShingles.forEach(shingle => {
+      if (pageShingles.has(shingle)) shared++;
+    });
+    if (shared / Math.min(pdfShingles.size, pageShingles.size) >= PDF_DUPLICATE_OVERLAP) {
+      return { page, reason: "content" };
+    }
+  }
+  return null;
+}
+
+function normalizeTitle(title: string | undefined): string {
+  return (title || "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function getShingles(text: string | undefined, size = 5): Set<string> {
+  const words = splitWords(text || "");
+  const shingles = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(" "));
+  }
+  return shingles;
+}
+
+const CRAWL_TRAP_DETAILS: Record<CrawlTrapKind, Pick<SEOIssue, "title" | "description" | "severity">> = {
+  session_id: {
+    title: "Session IDs in URLs",
+    description: "Links carry a session ID, so every visit produces a new set of URLs for the same pages. Crawlers see endless duplicates and may index URLs that expire.",
+    severity: "high",
+  },
+  repeating_path: {
+    title: "Repeating URL Path Segments",
+    description: "Links resolve to ever deeper paths that repeat the same segments, usually a relative link resolved against the wrong base. Each level returns a page, so the URL space never ends.",
+    severity: "high",
+  },
+  infinite_pagination: {
+    title: "Pagination Without End",
+    description: "Paginated listings keep answering with a page and a next link far beyond the actual content.",
+    severity: "medium",
+  },
+  calendar: {
+    title: "Calendar Crawler Trap",
+    description: "Calendar navigation links to one date after another without limit, including dates without any content.",
+    severity: "medium",
+  },
+  faceted_navigation: {
+    title: "Faceted Navigation Exhausts Crawl Budget",
+    description: "Filter and sort parameters combine into far more URLs than there are distinct pages. Crawlers spend their budget on permutations instead of content.",
+    severity: "medium",
+  },
+};
+
+export function analyzeCrawlTrapSEO(traps: CrawlTrap[]): SEOIssue[] {
+  return traps.map(trap => ({
+    type: `crawl_trap_${trap.kind}`,
+    category: "Crawl Efficiency",
+    ...CRAWL_TRAP_DETAILS[trap.kind],
+    description: `${CRAWL_TRAP_DETAILS[trap.kind].description} The crawl stopped following ${trap.blockedCount} URL(s) matching ${trap.pattern}.`,
+    riskLevel: "medium",
+    currentValue: trap.exampleUrls.join("\n"),
+    suggestedValue: trap.suggestedRule,
+    pageUrl: trap.sourcePages[0] || trap.exampleUrls[0],
+    autoFixable: false,
+  }));
+}
+
+const MIN_STATIC_CACHE_SECONDS = 7 * 24 * 60 * 60;
+const MIN_HSTS_SECONDS = 180 * 24 * 60 * 60;
+// Tiny responses are not worth compressing
+const MIN_COMPRESSION_BYTES = 1024;
+
+export function analyzeHeaderSEO(crawlResults: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const pages = crawlResults.filter(page => page.statusCode === 200 && page.responseHeaders);
+  const reportedAssets = new Set<string>();
+
+  for (const page of pages) {
+    const headers = page.responseHeaders!;
+    const encoding = headers["content-encoding"];
+    const contentLength = parseInt(headers["content-length"] || "", 10);
+
+    // Check compression
+    if (!isCompressed(encoding) && !(contentLength < MIN_COMPRESSION_BYTES)) {
+      issues.push({
+        type: "missing_compression",
+        category: "Technical",
+        title: "HTML Served Without Compression",
+        description: "The page was delivered without gzip or Brotli compression. Compressing text responses typically cuts transfer size by 60–80%.",
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: encoding || "No Content-Encoding",
+        suggestedValue: "Enable Brotli or gzip compression for text/html, CSS and JavaScript",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    // Check compression of the text files this page loads; shared files are reported once
+    const uncompressed = getUncompressedTextAssets(page).filter(asset => !reportedAssets.has(asset.url));
+    for (const asset of uncompressed) {
+      reportedAssets.add(asset.url);
+      issues.push({
+        type: "missing_compression",
+        category: "Technical",
+        title: "Text Resource Served Without Compression",
+        description: `The ${asset.label} ${asset.url} (${formatKB(asset.size)}) was delivered without gzip or Brotli compression. Compressing it typically cuts its transfer size by 60–80%.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: `${asset.url} (${asset.encoding || "No Content-Encoding"})`,
+        suggestedValue: "Enable Brotli or gzip compression for CSS, JavaScript, SVG and font files",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    // Check Content-Type and charset
+    const contentType = headers["content-type"];
+    const charset = /charset=["']?([^;"'\s]+)/i.exec(contentType || "")?.[1]?.toLowerCase();
+    let charsetProblem: string | undefined;
+    if (!contentType) {
+      charsetProblem = "The response has no Content-Type header, so browsers have to guess how to render it.";
+    } else if (!/^text\/html|^application\/xhtml\+xml/i.test(contentType)) {
+      charsetProblem = `The page is served as ${contentType.split(";")[0]} instead of text/html.`;
+    } else if (!charset) {
+      charsetProblem = "The Content-Type header does not declare a charset. Browsers may pick the wrong encoding before they reach a <meta charset> tag.";
+    } else if (charset !== "utf-8" && charset !== "utf8") {
+      charsetProblem = `The page declares the legacy charset ${charset}. UTF-8 is the expected encoding for HTML.`;
+    }
+    if (charsetProblem) {
+      issues.push({
+        type: "content_type_charset",
+        category: "Technical",
+        title: "Incorrect Content-Type Header",
+        description: charsetProblem,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: contentType || "Missing",
+        suggestedValue: "Content-Type: text/html; charset=utf-8",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    // Check Vary
+    const vary = (headers["vary"] || "").toLowerCase().split(",").map(v => v.trim()).filter(Boolean);
+    let varyProblem: string | undefined;
+    if (vary.includes("*")) {
+      varyProblem = "Vary: * makes the response uncacheable for browsers and CDNs.";
+    } else if (vary.includes("user-agent")) {
+      varyProblem = "Vary: User-Agent splits caches into one entry per browser version and lowers CDN hit rates.";
+    } else if (encoding && encoding !== "identity" && !vary.includes("accept-encoding")) {
+      varyProblem = "The response is compressed but does not send Vary: Accept-Encoding, so caches may serve compressed content to clients that cannot decode it.";
+    }
+    if (varyProblem) {
+      issues.push({
+        type: "vary_header_issue",
+        category: "Technical",
+        title: "Problematic Vary Header",
+        description: varyProblem,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: headers["vary"] || "Missing",
+        suggestedValue: "Vary: Accept-Encoding",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    // Check caching of the images, scripts, stylesheets and fonts on this page. Iframes are
+    // documents and third-party files are out of the site's control, so both are skipped
+    const poorlyCachedImages = (page.imagesDetailed || []).filter(img =>
+      img.responseHeaders && !hasLongCacheLifetime(img.responseHeaders["cache-control"])
+    );
+    const poorlyCachedResources = (page.resources || []).filter(resource =>
+      resource.type !== "iframe" &&
+      !resource.thirdParty &&
+      resource.statusCode === 200 &&
+      !hasLongCacheLifetime(resource.cacheControl)
+    );
+    const poorlyCached = poorlyCachedResources
+      .map(resource => ({ url: resource.url, cacheControl: resource.cacheControl }))
+      .concat(poorlyCachedImages.map(img => ({ url: img.src, cacheControl: img.responseHeaders!["cache-control"] })));
+    if (poorlyCached.length > 0) {
+      const counts = ([
+        [poorlyCachedResources.filter(resource => resource.type === "script").length, "script(s)"],
+        [poorlyCachedResources.filter(resource => resource.type === "stylesheet").length, "stylesheet(s)"],
+        [poorlyCachedResources.filter(resource => resource.type === "font").length, "font(s)"],
+        [poorlyCachedImages.length, "image(s)"],
+      ] as [number, string][]).filter(([count]) => count > 0).map(([count, label]) => `${count} ${label}`);
+      issues.push({
+        type: "short_cache_lifetime",
+        category: "Technical",
+        title: "Static Assets Without Long-Term Caching",
+        description: `${counts.join(", ")} on this page are missing a Cache-Control header or expire in under 7 days, so repeat visitors download them again.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: poorlyCached
+          .slice(0, 5)
+          .map(asset => `${asset.url} (${asset.cacheControl || "no Cache-Control"})`)
+          .join(", "),
+        suggestedValue: "Cache-Control: public, max-age=31536000, immutable (with fingerprinted file names)",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+  }
+
+  // Security headers are normally configured site-wide, so report each once
+  const httpsPages = pages.filter(page => page.url.startsWith("https:"));
+  const siteWideChecks: {
+    type: string;
+    title: string;
+    description: string;
+    severity: SEOIssue["severity"];
+    suggestedValue: string;
+    header: string;
+    failing: CrawlResult[];
+  }[] = [
+    {
+      type: "missing_hsts",
+      title: "Missing or Short HSTS Header",
+      description: "Without a long-lived Strict-Transport-Security header, browsers may still make the first request over insecure HTTP.",
+      severity: "medium",
+      suggestedValue: "Strict-Transport-Security: max-age=31536000; includeSubDomains",
+      header: "strict-transport-security",
+      failing: httpsPages.filter(page => (parseMaxAge(page.responseHeaders!["strict-transport-security"]) ?? 0) < MIN_HSTS_SECONDS),
+    },
+    {
+      type: "missing_csp",
+      title: "Missing Content-Security-Policy",
+      description: "No Content-Security-Policy header is sent. A CSP limits which scripts may run and is the main defence against cross-site scripting.",
+      severity: "low",
+      suggestedValue: "Content-Security-Policy: default-src 'self'; (extend for your CDNs and analytics)",
+      header: "content-security-policy",
+      failing: pages.filter(page => !page.responseHeaders!["content-security-policy"]),
+    },
+    {
+      type: "missing_x_content_type_options",
+      title: "Missing X-Content-Type-Options",
+      description: "Without X-Content-Type-Options: nosniff, browsers may MIME-sniff responses and execute content as a different type than intended.",
+      severity: "low",
+      suggestedValue: "X-Content-Type-Options: nosniff",
+      header: "x-content-type-options",
+      failing: pages.filter(page => (page.responseHeaders!["x-content-type-options"] || "").toLowerCase() !== "nosniff"),
+    },
+  ];
+
+  for (const check of siteWideChecks) {
+    if (check.failing.length === 0) continue;
+    const sample = check.failing[0];
+    issues.push({
+      type: check.type,
+      category: "Technical",
+      title: check.title,
+      description: `${check.description} Affects ${check.failing.length} of ${pages.length} crawled page(s).`,
+      severity: check.severity,
+      riskLevel: "low",
+      currentValue: sample.responseHeaders![check.header] || "Missing",
+      suggestedValue: check.suggestedValue,
+      pageUrl: sample.url,
+      autoFixable: false,
+    });
+  }
+
+  return issues;
+}
+
+function isCompressed(encoding: string | undefined): boolean {
+  return Boolean(encoding) && encoding!.toLowerCase() !== "identity";
+}
+
+// WOFF and WOFF2 fonts are compressed by their format, so only older font formats count
+function getUncompressedTextAssets(page: CrawlResult): { url: string; label: string; size: number; encoding?: string }[] {
+  const labels: Record<string, string> = { script: "script", stylesheet: "stylesheet", font: "font" };
+  const resources = (page.resources || [])
+    .filter(resource =>
+      labels[resource.type] &&
+      !resource.thirdParty &&
+      resource.statusCode === 200 &&
+      (resource.size || 0) >= MIN_COMPRESSION_BYTES &&
+      !isCompressed(resource.contentEncoding) &&
+      !(resource.type === "font" && /\.woff2?(?:[?#]|$)/i.test(resource.url))
+    )
+    .map(resource => ({ url: resource.url, label: labels[resource.type], size: resource.size!, encoding: resource.contentEncoding }));
+  const images = (page.imagesDetailed || [])
+    .filter(img =>
+      img.format === "svg" &&
+      img.responseHeaders &&
+      (img.fileSize || 0) >= MIN_COMPRESSION_BYTES &&
+      !isCompressed(img.responseHeaders["content-encoding"])
+    )
+    .map(img => ({ url: img.absoluteSrc || img.src, label: "SVG image", size: img.fileSize!, encoding: img.responseHeaders!["content-encoding"] }));
+  return resources.concat(images);
+}
+
+function parseMaxAge(header: string | undefined): number | undefined {
+  const match = /max-age\s*=\s*"?(\d+)/i.exec(header || "");
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+function hasLongCacheLifetime(cacheControl: string | undefined): boolean {
+  if (!cacheControl || /no-store|no-cache/i.test(cacheControl)) return false;
+  if (/immutable/i.test(cacheControl)) return true;
+  return (parseMaxAge(cacheControl) ?? 0) >= MIN_STATIC_CACHE_SECONDS;
+}
+
+const MAX_SCRIPT_BYTES = 250 * 1024;
+const MAX_STYLESHEET_BYTES = 100 * 1024;
+const MAX_REQUESTS_PER_PAGE = 60;
+const MAX_PAGE_WEIGHT_BYTES = 2 * 1024 * 1024;
+
+export function analyzeResourceSEO(crawlResults: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  // Shared bundles are reported once, on the first page that loads them
+  const usage = new Map<string, { resource: ResourceAsset; pages: string[] }>();
+
+  for (const page of crawlResults) {
+    if (page.statusCode !== 200 || !page.resources || !page.pageWeight) continue;
+    const weight = page.pageWeight;
+
+    for (const resource of page.resources) {
+      const entry = usage.get(resource.url) || { resource, pages: [] };
+      entry.pages.push(page.url);
+      usage.set(resource.url, entry);
+    }
+
+    const blocking = page.resources.filter(resource => resource.renderBlocking);
+    if (blocking.length > 0) {
+      issues.push({
+        type: "render_blocking_resources",
+        category: "Performance",
+        title: "Render-Blocking Resources",
+        description: `${blocking.length} script(s) or stylesheet(s) in <head> must finish downloading before the browser can paint anything.`,
+        severity: blocking.length > 3 ? "high" : "medium",
+        riskLevel: "medium",
+        currentValue: blocking.map(resource => resource.url).join("\n"),
+        suggestedValue: "Add defer or async to scripts, inline critical CSS and load the rest asynchronously",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (weight.requests > MAX_REQUESTS_PER_PAGE) {
+      issues.push({
+        type: "too_many_requests",
+        category: "Performance",
+        title: "Too Many Requests",
+        description: `The page needs ${weight.requests} requests for HTML, scripts, stylesheets, fonts, iframes and images. Every request adds latency, especially on mobile connections.`,
+        severity: "medium",
+        riskLevel: "medium",
+        currentValue: `${weight.requests} requests`,
+        suggestedValue: `Bundle assets and drop unused third-party embeds to stay under ${MAX_REQUESTS_PER_PAGE} requests`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (weight.total > MAX_PAGE_WEIGHT_BYTES) {
+      issues.push({
+        type: "heavy_page",
+        category: "Performance",
+        title: "Page Weight Too High",
+        description: `The page transfers ${formatKB(weight.total)} in total (scripts ${formatKB(weight.scripts)}, stylesheets ${formatKB(weight.stylesheets)}, fonts ${formatKB(weight.fonts)}, images ${formatKB(weight.images)}).`,
+        severity: weight.total > 2 * MAX_PAGE_WEIGHT_BYTES ? "high" : "medium",
+        riskLevel: "medium",
+        currentValue: formatKB(weight.total),
+        suggestedValue: `Reduce the page below ${formatKB(MAX_PAGE_WEIGHT_BYTES)}`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+  }
+
+  usage.forEach(({ resource, pages }) => {
+    const usedOn = pages.length > 1 ? ` (used on ${pages.length} pages)` : "";
+    const limit = resource.type === "script" ? MAX_SCRIPT_BYTES : resource.type === "stylesheet" ? MAX_STYLESHEET_BYTES : undefined;
+
+    if (limit && (resource.size || 0) > limit) {
+      issues.push({
+        type: "oversized_bundle",
+        category: "Performance",
+        title: resource.type === "script" ? "Oversized JavaScript Bundle" : "Oversized Stylesheet",
+        description: `${resource.url} is ${formatKB(resource.size || 0)} uncompressed. Large files take long to download and parse, and delay interactivity.`,
+        severity: (resource.size || 0) > 2 * limit ? "high" : "medium",
+        riskLevel: "medium",
+        currentValue: `${formatKB(resource.size || 0)}${usedOn}`,
+        suggestedValue: `Split the bundle and remove unused code to stay under ${formatKB(limit)}`,
+        pageUrl: pages[0],
+        autoFixable: false,
+      });
+    }
+
+    if (resource.type === "script" && resource.thirdParty && resource.synchronous) {
+      issues.push({
+        type: "sync_third_party_script",
+        category: "Performance",
+        title: "Synchronous Third-Party Script",
+        description: `${resource.url} is loaded without async or defer. Parsing stops until the third-party server responds, so its outages become your outages.`,
+        severity: "medium",
+        riskLevel: "medium",
+        currentValue: `${resource.url}${usedOn}`,
+        suggestedValue: "Load the script with async or defer",
+        pageUrl: pages[0],
+        autoFixable: false,
+      });
+    }
+
+    if (resource.minified === false) {
+      issues.push({
+        type: "unminified_asset",
+        category: "Performance",
+        title: resource.type === "script" ? "Unminified JavaScript" : "Unminified CSS",
+        description: `${resource.url} contains comments, indentation and line breaks that browsers do not need. Minifying usually saves 20–40%.`,
+        severity: "low",
+        riskLevel: "low",
+        currentValue: `${formatKB(resource.size || 0)}${usedOn}`,
+        suggestedValue: "Minify the file in your build step",
+        pageUrl: pages[0],
+        autoFixable: false,
+      });
+    }
+  });
+
+  return issues;
+}
+
+function formatKB(bytes: number): string {
+  return `${Math.round(bytes / 1024)}KB`;
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+// Mobile pages may trim some boilerplate; beyond this the main content is missing
+const MIN_MOBILE_CONTENT_RATIO = 0.7;
+const MIN_MISSING_MOBILE_LINKS = 5;
+
+export function analyzeMobileParitySEO(crawlResults: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+
+  for (const page of crawlResults) {
+    const mobile = page.mobile;
+    if (!mobile || page.statusCode !== 200) continue;
+
+    if (mobile.error || (mobile.statusCode && mobile.statusCode >= 400)) {
+      issues.push({
+        type: "mobile_status_mismatch",
+        category: "Mobile",
+        title: "Page Fails for Smartphone Crawlers",
+        description: "The page loads on desktop but not for a smartphone user agent. With mobile-first indexing, search engines only see the failing version.",
+        severity: "critical",
+        riskLevel: "high",
+        currentValue: mobile.error || `HTTP ${mobile.statusCode} on mobile, HTTP 200 on desktop`,
+        suggestedValue: "Serve the page with status 200 to mobile user agents",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+      continue;
+    }
+
+    if (getUrlKey(mobile.finalUrl) !== getUrlKey(page.url)) {
+      issues.push({
+        type: "mobile_only_redirect",
+        category: "Mobile",
+        title: "Mobile-Only Redirect",
+        description: "Smartphone visitors are redirected to a different URL than desktop visitors. Separate mobile URLs need rel=alternate/canonical annotations, and redirects to unrelated pages (often the homepage) lose the content entirely.",
+        severity: "high",
+        riskLevel: "high",
+        currentValue: `${page.url} → ${mobile.finalUrl}`,
+        suggestedValue: "Serve the same URL to all devices with a responsive layout",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+      // The remaining checks compare two different documents, so they would only add noise
+      continue;
+    }
+
+    issues.push(...analyzeViewport(mobile.viewport, page.url));
+
+    const desktopTitle = (page.title || "").trim();
+    const mobileTitle = (mobile.title || "").trim();
+    if (desktopTitle !== mobileTitle) {
+      issues.push({
+        type: "mobile_title_mismatch",
+        category: "Mobile",
+        title: "Title Differs on Mobile",
+        description: "The smartphone version of this page has a different <title>. Search engines index the mobile title.",
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: `Desktop: ${desktopTitle || "(none)"} | Mobile: ${mobileTitle || "(none)"}`,
+        suggestedValue: desktopTitle || mobileTitle,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const desktopWords = page.wordCount || 0;
+    const mobileWords = mobile.wordCount || 0;
+    if (desktopWords >= 100 && mobileWords < desktopWords * MIN_MOBILE_CONTENT_RATIO) {
+      issues.push({
+        type: "mobile_missing_content",
+        category: "Mobile",
+        title: "Content Missing on Mobile",
+        description: `The mobile version has ${mobileWords} words compared to ${desktopWords} on desktop. Content that is not in the mobile HTML is not indexed.`,
+        severity: "high",
+        riskLevel: "medium",
+        currentValue: `${Math.round((mobileWords / desktopWords) * 100)}% of the desktop content`,
+        suggestedValue: "Serve the full content to mobile; collapse it with CSS instead of removing it",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const missingTypes = getJsonLdTypes(page.jsonLd || []).filter(type => !mobile.jsonLdTypes.includes(type));
+    if (missingTypes.length > 0) {
+      issues.push({
+        type: "mobile_missing_structured_data",
+        category: "Mobile",
+        title: "Structured Data Missing on Mobile",
+        description: "Some JSON-LD types on the desktop page are not present in the mobile HTML, so they are not eligible for rich results.",
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: missingTypes.join(", "),
+        suggestedValue: "Output the same structured data for every device",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    const mobileLinks = new Set(mobile.internalLinks);
+    const desktopLinks = getInternalLinkKeys(page.links || [], page.url);
+    const missingLinks = desktopLinks.filter(link => !mobileLinks.has(link));
+    if (missingLinks.length >= MIN_MISSING_MOBILE_LINKS && missingLinks.length > desktopLinks.length * 0.2) {
+      issues.push({
+        type: "mobile_missing_links",
+        category: "Mobile",
+        title: "Internal Links Missing on Mobile",
+        description: `${missingLinks.length} of ${desktopLinks.length} internal links on the desktop page do not exist on mobile. Crawlers following the mobile version may not discover these pages.`,
+        severity: "medium",
+        riskLevel: "medium",
+        currentValue: missingLinks.slice(0, 10).join("\n"),
+        suggestedValue: "Keep navigation links in the mobile HTML, e.g. inside a collapsible menu",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function analyzeViewport(viewport: string | undefined, pageUrl: string): SEOIssue[] {
+  if (!viewport) {
+    return [{
+      type: "missing_viewport",
+      category: "Mobile",
+      title: "Missing Viewport Meta Tag",
+      description: "Without a viewport meta tag, phones render the page at desktop width and shrink it, which fails mobile-friendliness checks.",
+      severity: "high",
+      riskLevel: "low",
+      currentValue: "No viewport meta tag",
+      suggestedValue: '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      pageUrl,
+      autoFixable: false,
+    }];
+  }
+
+  const directives = new Map<string, string>();
+  viewport.toLowerCase().split(/[,;]/).forEach(part => {
+    const [name, value] = part.split("=").map(token => token.trim());
+    if (name) directives.set(name, value || "");
+  });
+
+  const problems: string[] = [];
+  const width = directives.get("width");
+  if (width !== "device-width") {
+    problems.push(width ? `fixed width=${width}` : "no width=device-width");
+  }
+  if (directives.get("user-scalable") === "no" || directives.get("user-scalable") === "0") {
+    problems.push("zooming disabled (user-scalable=no)");
+  }
+  const maxScale = parseFloat(directives.get("maximum-scale") || "");
+  if (!isNaN(maxScale) && maxScale < 2) {
+    problems.push(`maximum-scale=${maxScale} limits zooming`);
+  }
+  if (problems.length === 0) return [];
+
+  return [{
+    type: "viewport_issue",
+    category: "Mobile",
+    title: "Viewport Not Mobile-Friendly",
+    description: `The viewport meta tag has problems: ${problems.join("; ")}. Pages should adapt to the device width and let users zoom.`,
+    severity: width !== "device-width" ? "high" : "low",
+    riskLevel: "low",
+    currentValue: viewport,
+    suggestedValue: "width=device-width, initial-scale=1",
+    pageUrl,
+    autoFixable: false,
+  }];
+}
+
+export function generateSitemapCoverage(
+  discovery: SitemapDiscovery,
+  crawlData: CrawlResult[]
+): SitemapCoverage {
+  const sitemapUrls = new Set(discovery.urls.map(normalizeForComparison));
+  const crawledPages = crawlData.filter(page => page.skipReason !== "robots_txt");
+  const inSitemap = crawledPages.filter(page => sitemapUrls.has(normalizeForComparison(page.url)));
+  const crawledUrls = new Set(crawledPages.map(page => normalizeForComparison(page.url)));
+
+  return {
+    sitemaps: discovery.sitemaps,
+    sitemapUrlCount: discovery.urls.length,
+    crawledUrlCount: crawledPages.length,
+    crawledInSitemap: inSitemap.length,
+    // Only pages that belong in a sitemap: indexable, self-canonical HTML
+    crawledNotInSitemap: crawledPages
+      .filter(page =>
+        page.statusCode === 200 &&
+        !page.document &&
+        !isNoindexed(page) &&
+        !isCanonicalizedElsewhere(page) &&
+        !sitemapUrls.has(normalizeForComparison(page.url))
+      )
+      .map(page => page.url),
+    sitemapNotCrawled: discovery.urls.filter(url => !crawledUrls.has(normalizeForComparison(url))).length,
+    sitemapNon200: inSitemap.filter(page => page.statusCode !== 200 && !page.redirectChain).map(page => page.url),
+    sitemapRedirects: inSitemap
+      .filter(page => page.redirectChain)
+      .map(page => ({ url: page.url, target: page.finalUrl || "", targetStatusCode: page.finalStatusCode ?? 0 })),
+    sitemapNoindex: inSitemap.filter(isNoindexed).map(page => page.url),
+    sitemapCanonicalized: inSitemap
+      .filter(page => page.canonical && normalizeForComparison(page.canonical) !== normalizeForComparison(page.url))
+      .map(page => page.url),
+  };
+}
+
+export function analyzeSitemapSEO(coverage: SitemapCoverage, siteUrl: string, crawlData: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+
+  if (coverage.sitemapUrlCount === 0) {
+    issues.push({
+      type: "missing_sitemap",
+      category: "Technical",
+      title: "No XML Sitemap Found",
+      description: "No sitemap was listed in robots.txt and /sitemap.xml did not return a valid sitemap. Sitemaps help search engines discover all important pages.",
+      severity: "medium",
+      riskLevel: "low",
+      currentValue: coverage.sitemaps.map(s => `${s.url} (${s.error || `HTTP ${s.statusCode}`})`).join(", "),
+      suggestedValue: "Publish an XML sitemap and reference it with a Sitemap: line in robots.txt",
+      pageUrl: siteUrl,
+      autoFixable: false,
+    });
+    return issues;
+  }
+
+  for (const url of coverage.sitemapNon200) {
+    const page = crawlData.find(p => p.url === url);
+    issues.push({
+      type: "sitemap_non_200",
+      category: "Technical",
+      title: "Sitemap URL Returns Error Status",
+      description: `This URL is listed in the XML sitemap but returned HTTP ${page?.statusCode ?? "error"}. Sitemaps should only contain live, indexable URLs.`,
+      severity: "high",
+      riskLevel: "low",
+      currentValue: `HTTP ${page?.statusCode ?? 0}`,
+      suggestedValue: "Remove the URL from the sitemap or restore the page",
+      pageUrl: url,
+      autoFixable: false,
+    });
+  }
+
+  for (const redirect of coverage.sitemapRedirects || []) {
+    const live = redirect.targetStatusCode === 200;
+    issues.push({
+      type: "sitemap_redirect",
+      category: "Technical",
+      title: "Sitemap URL Redirects",
+      description: `This URL is listed in the XML sitemap but redirects to ${redirect.target || "another URL"}${live ? "" : ` (HTTP ${redirect.targetStatusCode})`}. Sitemaps should list final URLs so search engines do not spend requests on redirects.`,
+      severity: live ? "medium" : "high",
+      riskLevel: "low",
+      currentValue: `${redirect.url} → ${redirect.target}`,
+      suggestedValue: live ? `Replace the entry with ${redirect.target}` : "Remove the URL from the sitemap or restore the page",
+      pageUrl: redirect.url,
+      autoFixable: false,
+    });
+  }
+
+  for (const url of coverage.sitemapNoindex) {
+    issues.push({
+      type: "sitemap_noindex",
+      category: "Technical",
+      title: "Noindexed URL in Sitemap",
+      description: "This URL is listed in the XML sitemap but carries a noindex directive. Search engines receive conflicting signals.",
+      severity: "medium",
+      riskLevel: "medium",
+      currentValue: "noindex",
+      suggestedValue: "Remove the URL from the sitemap or drop the noindex directive",
+      pageUrl: url,
+      autoFixable: false,
+    });
+  }
+
+  for (const url of coverage.sitemapCanonicalized) {
+    const page = crawlData.find(p => p.url === url);
+    issues.push({
+      type: "sitemap_canonicalized",
+      category: "Technical",
+      title: "Sitemap URL Canonicalised Elsewhere",
+      description: "This URL is listed in the XML sitemap but its canonical tag points to a different URL. Sitemaps should only list canonical URLs.",
+      severity: "medium",
+      riskLevel: "low",
+      currentValue: page?.canonical || "",
+      suggestedValue: `List ${page?.canonical || "the canonical URL"} in the sitemap instead`,
+      pageUrl: url,
+      autoFixable: false,
+    });
+  }
+
+  for (const url of coverage.crawledNotInSitemap) {
+    issues.push({
+      type: "missing_from_sitemap",
+      category: "Technical",
+      title: "Page Missing from Sitemap",
+      description: "This page was found by crawling internal links but is not listed in the XML sitemap.",
+      severity: "low",
+      riskLevel: "low",
+      currentValue: "Not in sitemap",
+      suggestedValue: "Add the URL to the XML sitemap if it should be indexed",
+      pageUrl: url,
+      autoFixable: false,
+    });
+  }
+
+  return issues;
+}
+
+const MAX_CANONICAL_HOPS = 10;
+const MAX_LISTED_CLUSTERS = 100;
+
+interface CanonicalPath {
+  // The page followed by every canonical or redirect target reached from it
+  urls: string[];
+  // Crawled entry of the last URL, unset when it was not crawled
+  target?: CrawlResult;
+  redirected: boolean;
+  loop: boolean;
+}
+
+// Pages whose canonical counts: every 200 response, documents included
+function getCanonicalCandidates(crawlData: CrawlResult[]): CrawlResult[] {
+  return crawlData.filter(page => page.statusCode === 200 && !page.redirectChain && page.skipReason !== "robots_txt");
+}
+
+function createPageLookup(crawlData: CrawlResult[]): (url: string) => CrawlResult | undefined {
+  const byKey = new Map<string, CrawlResult>();
+  for (const page of crawlData) {
+    if (!byKey.has(getUrlKey(page.url))) byKey.set(getUrlKey(page.url), page);
+  }
+  return url => byKey.get(getUrlKey(url));
+}
+
+// Search engines ignore all canonicals of a page when they disagree
+function getDeclaredCanonical(page: CrawlResult): string | undefined {
+  return page.declaredCanonicals && page.declaredCanonicals.length > 1 ? undefined : page.canonical;
+}
+
+function getCanonicalElsewhere(page: CrawlResult): string | undefined {
+  const canonical = getDeclaredCanonical(page);
+  return canonical && !isSameUrl(canonical, page.url) ? canonical : undefined;
+}
+
+function followCanonicals(page: CrawlResult, findPage: (url: string) => CrawlResult | undefined): CanonicalPath {
+  const urls = [page.url];
+  let current = page;
+  let redirected = false;
+  while (urls.length <= MAX_CANONICAL_HOPS) {
+    const next = current.redirectChain ? current.finalUrl : getDeclaredCanonical(current);
+    if (!next || isSameUrl(next, current.url)) break;
+    if (urls.some(url => isSameUrl(url, next))) return { urls: [...urls, next], redirected, loop: true };
+    redirected = redirected || Boolean(current.redirectChain);
+    urls.push(next);
+    const target = findPage(next);
+    // A URL that differs only in tracking parameters, query order or encoding maps back to the page itself
+    if (!target || target === current) return { urls, redirected, loop: false };
+    current = target;
+  }
+  return { urls, target: current, redirected, loop: false };
+}
+
+export function analyzeCanonicalSEO(crawlData: CrawlResult[]): SEOIssue[] {
+  const issues: SEOIssue[] = [];
+  const findPage = createPageLookup(crawlData);
+
+  for (const page of getCanonicalCandidates(crawlData)) {
+    const declared = page.declaredCanonicals || [];
+    if (declared.length > 1) {
+      issues.push({
+        type: "conflicting_canonicals",
+        category: "Technical",
+        title: "Conflicting Canonical URLs",
+        description: `This page declares ${declared.length} different canonical URLs in its <link> tags and Link header. Search engines then ignore all of them and pick a URL themselves.`,
+        severity: "high",
+        riskLevel: "low",
+        currentValue: declared.join("\n"),
+        suggestedValue: `Keep a single canonical: <link rel="canonical" href="${declared[0]}">`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+      continue;
+    }
+
+    const canonical = getCanonicalElsewhere(page);
+    if (!canonical) {
+      issues.push(...analyzeHreflangCanonicals(page, findPage));
+      continue;
+    }
+
+    if (getHostname(canonical) !== getHostname(page.url)) {
+      issues.push({
+        type: "cross_domain_canonical",
+        category: "Technical",
+        title: "Canonical Points to Another Domain",
+        description: `The canonical URL ${canonical} is on another domain. Search engines will index that URL instead of this page, which is only intended for syndicated or migrated content.`,
+        severity: "medium",
+        riskLevel: "medium",
+        currentValue: canonical,
+        suggestedValue: `Use <link rel="canonical" href="${normalizeUrl(page.url)}"> unless the other domain is meant to rank`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+      continue;
+    }
+
+    const path = followCanonicals(page, findPage);
+    const found = findPage(canonical);
+    const target = found !== page ? found : undefined;
+    if (path.loop) {
+      issues.push({
+        type: "canonical_loop",
+        category: "Technical",
+        title: "Canonical Loop",
+        description: "The canonical tags of these pages point at each other in a circle, so none of them is the canonical URL. Search engines ignore the tags.",
+        severity: "high",
+        riskLevel: "low",
+        currentValue: path.urls.join(" → "),
+        suggestedValue: "Make the preferred page self-canonical and point the others at it",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    } else if (target?.redirectChain) {
+      const finalUrl = target.finalStatusCode === 200 ? target.finalUrl : undefined;
+      issues.push({
+        type: "canonical_to_redirect",
+        category: "Technical",
+        title: "Canonical Points to Redirect",
+        description: `The canonical URL ${canonical} redirects (HTTP ${target.statusCode}) to ${target.finalUrl || "another URL"}. Search engines may ignore a canonical that does not answer with 200 itself.`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: canonical,
+        suggestedValue: finalUrl ? `<link rel="canonical" href="${finalUrl}">` : "Point the canonical at the URL that finally answers with 200",
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    } else if (target && target.skipReason !== "robots_txt" && target.statusCode !== 200) {
+      issues.push({
+        type: "canonical_target_error",
+        category: "Technical",
+        title: "Canonical Points to Error Page",
+        description: `The canonical URL ${canonical} returns HTTP ${target.statusCode ?? "error"}. Search engines ignore the canonical and choose a URL themselves.`,
+        severity: "high",
+        riskLevel: "low",
+        currentValue: `${canonical} (HTTP ${target.statusCode ?? 0})`,
+        suggestedValue: `<link rel="canonical" href="${normalizeUrl(page.url)}"> or the URL that replaced ${canonical}`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    } else if (target && isNoindexed(target)) {
+      issues.push({
+        type: "canonical_to_noindex",
+        category: "Technical",
+        title: "Canonical Points to Noindexed Page",
+        description: `The canonical URL ${canonical} carries a noindex directive. This page asks to be consolidated into a URL that must not be indexed, so neither may appear in search results.`,
+        severity: "high",
+        riskLevel: "medium",
+        currentValue: `${canonical} (noindex)`,
+        suggestedValue: `Drop the noindex on ${canonical} or point the canonical at an indexable URL`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    } else if (path.urls.length > 2) {
+      const finalUrl = path.urls[path.urls.length - 1];
+      issues.push({
+        type: "canonical_chain",
+        category: "Technical",
+        title: "Canonical Chain",
+        description: `The canonical URL ${canonical} declares another canonical itself. Search engines may stop following after the first hop and consolidate on the wrong URL.`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: path.urls.join(" → "),
+        suggestedValue: `<link rel="canonical" href="${finalUrl}">`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+
+    if (page.hreflang && page.hreflang.length > 0) {
+      issues.push({
+        type: "canonical_hreflang_conflict",
+        category: "Technical",
+        title: "Hreflang on Non-Canonical Page",
+        description: `This page has hreflang annotations but its canonical points to ${canonical}. Search engines only read hreflang on canonical URLs, so the language versions are not connected.`,
+        severity: "medium",
+        riskLevel: "low",
+        currentValue: page.hreflang.map(alternate => `${alternate.hreflang}: ${alternate.href}`).join("\n"),
+        suggestedValue: `Make the page self-canonical or move the annotations to ${canonical}`,
+        pageUrl: page.url,
+        autoFixable: false,
+      });
+    }
+  }
+
+  return issues;
+}
+
+// hreflang alternates must name the canonical URL of each language version
+function analyzeHreflangCanonicals(page: CrawlResult, findPage: (url: string) => CrawlResult | undefined): SEOIssue[] {
+  const conflicts = (page.hreflang || []).flatMap(alternate => {
+    const target = findPage(alternate.href);
+    const canonical = target && target !== page && target.statusCode === 200 ? getCanonicalElsewhere(target) : undefined;
+    return canonical ? [{ alternate, canonical }] : [];
+  });
+  if (conflicts.length === 0) return [];
+
+  return [{
+    type: "canonical_hreflang_conflict",
+    category: "Technical",
+    title: "Hreflang Points to Non-Canonical URLs",
+    description: `${conflicts.length} hreflang alternate(s) of this page canonicalize to another URL: ${conflicts.map(({ alternate, canonical }) => `${alternate.href} → ${canonical}`).join(", ")}. Search engines ignore hreflang links to non-canonical URLs.`,
+    severity: "medium",
+    riskLevel: "low",
+    currentValue: conflicts.map(({ alternate }) => `<link rel="alternate" hreflang="${alternate.hreflang}" href="${alternate.href}">`).join("\n"),
+    suggestedValue: conflicts.map(({ alternate, canonical }) => `<link rel="alternate" hreflang="${alternate.hreflang}" href="${canonical}">`).join("\n"),
+    pageUrl: page.url,
+    autoFixable: false,
+  }];
+}
+
+/**
+ * Groups pages by the URL their canonicals finally lead to and works out
+ * which URL search engines will probably index for each group. Canonicals
+ * that loop or end on an error or noindexed page are ignored, and the
+ * strongest indexable member is expected to win instead.
+ */
+export function generateCanonicalReport(crawlData: CrawlResult[], sitemapUrls: string[]): CanonicalReport {
+  const findPage = createPageLookup(crawlData);
+  const sitemap = new Set(sitemapUrls.map(normalizeForComparison));
+  const pages = getCanonicalCandidates(crawlData);
+  const indexable = pages.filter(page => !isNoindexed(page));
+  const groups = new Map<string, { canonicalUrl: string; loop: boolean; redirected: boolean; members: CrawlResult[] }>();
+
+  for (const page of pages) {
+    const path = followCanonicals(page, findPage);
+    let canonicalUrl = path.urls[path.urls.length - 1];
+    if (path.loop) {
+      // Every page of a loop lands in the same group, named after its first URL in sort order
+      const start = path.urls.findIndex(url => isSameUrl(url, canonicalUrl));
+      canonicalUrl = path.urls.slice(start, -1).sort()[0];
+    }
+    const key = normalizeForComparison(canonicalUrl);
+    const group = groups.get(key) || { canonicalUrl, loop: path.loop, redirected: false, members: [] };
+    group.redirected = group.redirected || path.redirected;
+    group.members.push(page);
+    groups.set(key, group);
+  }
+
+  const clusters: CanonicalCluster[] = [];
+  groups.forEach(group => {
+    if (group.members.length === 1 && isSameUrl(group.members[0].url, group.canonicalUrl)) return;
+
+    const target = findPage(group.canonicalUrl);
+    const honoured = !group.loop && (!target || (target.statusCode === 200 && !target.redirectChain && !isNoindexed(target)));
+    const candidates = group.members.filter(page => !isNoindexed(page));
+    clusters.push({
+      canonicalUrl: group.canonicalUrl,
+      indexedUrl: honoured ? group.canonicalUrl : candidates.length > 0 ? pickCanonicalTarget(candidates).url : null,
+      selection: !honoured ? "canonical_ignored" : group.redirected ? "redirect_target" : "canonical",
+      members: group.members.map(page => ({
+        url: page.url,
+        statusCode: page.statusCode ?? 0,
+        canonical: getDeclaredCanonical(page),
+        noindex: isNoindexed(page),
+        inSitemap: sitemap.has(normalizeForComparison(page.url)),
+      })),
+    });
+  });
+  clusters.sort((a, b) => b.members.length - a.members.length);
+
+  return {
+    indexablePages: indexable.length,
+    selfCanonical: indexable.filter(page => getDeclaredCanonical(page) && !getCanonicalElsewhere(page)).length,
+    canonicalizedElsewhere: indexable.filter(page => getCanonicalElsewhere(page)).length,
+    missingCanonical: indexable.filter(page => !page.canonical).length,
+    conflictingCanonicals: indexable.filter(page => (page.declaredCanonicals || []).length > 1).length,
+    crossDomain: indexable.filter(page => {
+      const canonical = getCanonicalElsewhere(page);
+      return canonical && getHostname(canonical) !== getHostname(page.url);
+    }).length,
+    clusters: clusters.slice(0, MAX_LISTED_CLUSTERS),
+    clusterCount: clusters.length,
+  };
+}
+
+function isNoindexed(page: CrawlResult): boolean {
+  return page.skipReason === "x_robots_noindex" ||
+    !!page.metaRobots?.split(",").some(d => ["noindex", "none"].includes(d.trim()));
+}
+
+// Collapses the spellings a single page is commonly reachable under
+function getVariantKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./, "");
+    const path = parsed.pathname.toLowerCase().replace(/\/+$/, "");
+    return `${host}${path}`;
+  } catch {
+    return url;
+  }
+}
+
+function isSameUrl(a: string, b: string): boolean {
+  return normalizeForComparison(a) === normalizeForComparison(b);
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+function normalizeForComparison(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
 export function generateImageReport(crawlResults: CrawlResult[]): ImageReport {
   const allImages: ImageAsset[] = [];
   
@@ -1,3 +1,5 @@
+import type { PageWeight, SocialImage } from "@shared/schema";
+
 export type AgentType = "strategy" | "audit" | "content" | "fix" | "ranking";
 
 export interface AgentThought {
@@ -17,6 +19,21 @@ export interface SEOIssue {
   suggestedValue?: string;
   pageUrl: string;
   autoFixable: boolean;
+  // Set for issues produced by a registered page rule
+  ruleId?: string;
+  ruleVersion?: number;
+  // Every page an issue spans, for issues that are not about a single page
+  affectedUrls?: string[];
+  // Issues spanning several pages propose a separate fix for each of them
+  pageProposals?: PageProposal[];
+}
+
+export interface PageProposal {
+  pageUrl: string;
+  currentValue: string;
+  safe: string;
+  balanced: string;
+  aggressive: string;
 }
 
 export interface ImageAsset {
@@ -30,6 +47,7 @@ export interface ImageAsset {
   hasLazyLoading?: boolean;
   loadTime?: number;
   hash?: string;
+  responseHeaders?: Record<string, string>;
   issues: ImageIssueType[];
   recommendedAction?: string;
 }
@@ -67,18 +85,175 @@ export interface ImageReport {
   optimizedImages: ImageOptimizationResult[];
 }
 
+export type CrawlSkipReason = "robots_txt" | "x_robots_noindex";
+
+export interface HeadingEntry {
+  level: number;
+  text: string;
+  order: number;
+}
+
+export interface PageLink {
+  href: string;
+  text: string;
+  rel?: string[];
+  nofollow?: boolean;
+  sponsored?: boolean;
+  ugc?: boolean;
+}
+
+export interface HreflangAlternate {
+  hreflang: string;
+  href: string;
+}
+
+export interface JsonLdBlock {
+  raw: string;
+  data?: unknown;
+  error?: string;
+}
+
+export interface MicrodataItem {
+  // Full itemtype URL, e.g. https://schema.org/Product
+  type?: string;
+  properties: Record<string, MicrodataValue[]>;
+}
+
+export type MicrodataValue = string | MicrodataItem;
+
+export interface ScriptAsset {
+  src?: string;
+  inline: boolean;
+  inHead: boolean;
+  async: boolean;
+  defer: boolean;
+  type?: string;
+  size?: number;
+}
+
+export interface StyleAsset {
+  href?: string;
+  inline: boolean;
+  inHead: boolean;
+  media?: string;
+  size?: number;
+}
+
+export type ResourceType = "script" | "stylesheet" | "font" | "iframe";
+
+export interface ResourceAsset {
+  url: string;
+  type: ResourceType;
+  statusCode?: number;
+  // Decoded body size and bytes on the wire (Content-Length when compressed)
+  size?: number;
+  transferSize?: number;
+  thirdParty: boolean;
+  renderBlocking: boolean;
+  // Scripts only: neither async, defer nor a module
+  synchronous?: boolean;
+  // Only set for scripts and stylesheets large enough to judge
+  minified?: boolean;
+  cacheControl?: string;
+  contentEncoding?: string;
+  error?: string;
+}
+
+// The same URL fetched again with a smartphone user agent
+export interface MobileSnapshot {
+  statusCode?: number;
+  finalUrl: string;
+  redirectChain?: RedirectHop[];
+  title?: string;
+  viewport?: string;
+  wordCount?: number;
+  jsonLdTypes: string[];
+  // getUrlKey of every same-host link target
+  internalLinks: string[];
+  error?: string;
+}
+
+export type DocumentType = "pdf" | "word" | "spreadsheet" | "presentation" | "rtf";
+
+// Set instead of the HTML fields when a URL answers with a document
+export interface DocumentInfo {
+  type: DocumentType;
+  contentType: string;
+  size: number;
+  // Larger than the download limit, so only the size is known
+  truncated?: boolean;
+  title?: string;
+  author?: string;
+  pageCount?: number;
+  textLength?: number;
+  encrypted?: boolean;
+}
+
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+  location: string;
+  durationMs: number;
+}
+
 export interface CrawlResult {
   url: string;
   title?: string;
   metaDescription?: string;
+  canonical?: string;
+  // Every distinct canonical URL from <link> tags and the Link header; search engines ignore them all when they disagree
+  declaredCanonicals?: string[];
+  metaRobots?: string;
+  lang?: string;
+  viewport?: string;
+  hreflang?: HreflangAlternate[];
+  openGraph?: Record<string, string>;
+  twitterCard?: Record<string, string>;
+  // The og:image (or twitter:image) as downloaded
+  socialImage?: SocialImage;
+  jsonLd?: JsonLdBlock[];
+  microdata?: MicrodataItem[];
+  headings?: HeadingEntry[];
   h1?: string[];
   h2?: string[];
   images?: { src: string; alt?: string }[];
   imagesDetailed?: ImageAsset[];
-  links?: { href: string; text: string }[];
+  links?: PageLink[];
+  scripts?: ScriptAsset[];
+  stylesheets?: StyleAsset[];
+  fonts?: string[];
+  iframes?: string[];
+  resources?: ResourceAsset[];
+  pageWeight?: PageWeight;
+  mobile?: MobileSnapshot;
+  document?: DocumentInfo;
   bodyText?: string;
+  wordCount?: number;
+  contentHash?: string;
+  // MinHash signature of the main content, see computeContentFingerprint
+  contentFingerprint?: string;
+  // First non-empty paragraph of the main content
+  firstParagraph?: string;
+  // Assigned from the website's target keywords before the page rules run
+  targetKeywords?: string[];
+  suggestedKeywords?: string[];
   statusCode?: number;
   loadTime?: number;
+  responseHeaders?: Record<string, string>;
+  robotsDirectives?: string[];
+  skipReason?: CrawlSkipReason;
+  linkedFrom?: string[];
+  // Link hops from the start URL or a sitemap seed
+  depth?: number;
+  // From the internal link graph once the crawl has finished
+  clickDepth?: number | null;
+  inboundLinks?: number;
+  outboundLinks?: number;
+  pageRank?: number;
+  redirectChain?: RedirectHop[];
+  finalUrl?: string;
+  finalStatusCode?: number;
+  redirectLoop?: boolean;
 }
 
 export interface AuditContext {
@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
+import { isDatabaseConfigured } from "./db";
+import { recoverInterruptedAudits } from "./agents/orchestrator";
 
 const app = express();
 const httpServer = createServer(app);
@@ -95,4 +97,15 @@ app.use((req, res, next) => {
       log(`serving on port ${port}`);
     },
   );
+
+  // Audits still marked as running were orphaned by the previous process
+  if (isDatabaseConfigured) {
+    recoverInterruptedAudits()
+      .then(({ resumed, failed }) => {
+        if (resumed + failed > 0) {
+          log(`recovered interrupted audits: ${resumed} resumed, ${failed} failed`, "audits");
+        }
+      })
+      .catch(err => console.error("Failed to recover interrupted audits:", err));
+  }
 })();
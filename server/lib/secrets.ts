@@ -0,0 +1,36 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const FORMAT_VERSION = "v1";
+
+export function isEncryptionConfigured(): boolean {
+  return Boolean(process.env.CREDENTIALS_ENCRYPTION_KEY);
+}
+
+function getKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY is not set");
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+export function encryptJson(value: unknown): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [FORMAT_VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+export function decryptJson<T>(payload: string): T {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Unsupported encrypted payload");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]);
+  return JSON.parse(plaintext.toString("utf8")) as T;
+}
@@ -8,10 +8,28 @@ import { setupGoogleAuth } from "./googleAuth";
 import { setupLocalAuth } from "./localAuth";
 import { storage } from "./storage";
 import { AgentOrchestrator } from "./agents/orchestrator";
-import { insertWebsiteSchema } from "@shared/schema";
+import { getUrlKey } from "./agents/crawl";
+import { buildHeadingOutline, headingHierarchyRule, ruleRegistry } from "./agents/rules";
+import {
+  insertWebsiteSchema,
+  updateWebsiteSchema,
+  crawlCredentialsSchema,
+  ruleOverrideSchema,
+  targetKeywordInputSchema,
+  type CrawlCredentials,
+  type CrawlCredentialsSummary,
+  type SitemapCoverage,
+  type LinkCheckSummary,
+  type CanonicalReport,
+  type PageWeight,
+  type PageWeightEntry,
+  type PageWithLinks,
+  type HeadingOutline,
+} from "@shared/schema";
 import { stripeService } from "./stripeService";
 import { getStripePublishableKey } from "./stripeClient";
 import { generateFixVariants, analyzeRisk } from "./lib/ai";
+import { encryptJson, decryptJson, isEncryptionConfigured } from "./lib/secrets";
 
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
 const stripe = stripeSecretKey
@@ -24,6 +42,16 @@ const FREE_AUDIT_WINDOW_MS = 24 * 60 * 60 * 1000;
 const DEV_MODE = process.env.DEV_MODE === "true";
 const OWNER_EMAIL = process.env.OWNER_EMAIL;
 
+function summarizeCredentials(credentials: CrawlCredentials, updatedAt?: Date | null): CrawlCredentialsSummary {
+  return {
+    configured: true,
+    basicAuthUsername: credentials.basicAuth?.username,
+    headerNames: credentials.headers.map(header => header.name),
+    loginFormUrl: credentials.loginForm?.url,
+    updatedAt: updatedAt?.toISOString(),
+  };
+}
+
 export async function registerRoutes(server: Server, app: Express) {
   // ------------------------------------------
   // RAW BODY FÜR STRIPE WEBHOOK
@@ -100,6 +128,309 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  app.patch("/api/websites/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const parsed = updateWebsiteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data" });
+      }
+
+      const updated = await storage.updateWebsite(req.params.id, parsed.data);
+      res.json(updated);
+    } catch (err) {
+      console.error("PATCH /api/websites/:id error:", err);
+      res.status(500).json({ message: "Update error" });
+    }
+  });
+
+  // Credentials are write-only: responses only ever contain a summary
+  app.get("/api/websites/:id/credentials", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const stored = await storage.getWebsiteCredentials(req.params.id);
+      if (!stored) {
+        return res.json({ configured: false, headerNames: [] } satisfies CrawlCredentialsSummary);
+      }
+
+      res.json(summarizeCredentials(decryptJson<CrawlCredentials>(stored.encryptedData), stored.updatedAt));
+    } catch (err) {
+      console.error("GET /api/websites/:id/credentials error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  app.get("/api/websites/:id/pages/history", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const url = typeof req.query.url === "string" ? req.query.url : undefined;
+      if (!url) {
+        return res.status(400).json({ message: "URL required" });
+      }
+
+      const history = await storage.getPageHistory(website.id, getUrlKey(url));
+      res.json(history);
+    } catch (err) {
+      console.error("GET /api/websites/:id/pages/history error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  app.put("/api/websites/:id/credentials", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      if (!isEncryptionConfigured()) {
+        return res.status(503).json({ message: "Zugangsdaten können nicht verschlüsselt gespeichert werden" });
+      }
+
+      const parsed = crawlCredentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data" });
+      }
+
+      const stored = await storage.setWebsiteCredentials(req.params.id, encryptJson(parsed.data));
+      res.json(summarizeCredentials(parsed.data, stored.updatedAt));
+    } catch (err) {
+      console.error("PUT /api/websites/:id/credentials error:", err);
+      res.status(500).json({ message: "Update error" });
+    }
+  });
+
+  app.delete("/api/websites/:id/credentials", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      await storage.deleteWebsiteCredentials(req.params.id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("DELETE /api/websites/:id/credentials error:", err);
+      res.status(500).json({ message: "Löschfehler" });
+    }
+  });
+
+  app.get("/api/websites/:id/rules", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const overrides = await storage.getRuleOverrides(website.id);
+      res.json(ruleRegistry.describe(overrides));
+    } catch (err) {
+      console.error("GET /api/websites/:id/rules error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  app.put("/api/websites/:id/rules/:ruleId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      if (!ruleRegistry.get(req.params.ruleId)) {
+        return res.status(404).json({ message: "Regel nicht gefunden" });
+      }
+
+      const parsed = ruleOverrideSchema.safeParse(req.body);
+      if (!parsed.success || ruleRegistry.validateOverride(req.params.ruleId, parsed.data)) {
+        return res.status(400).json({ message: "Invalid data" });
+      }
+
+      await storage.upsertRuleOverride(website.id, req.params.ruleId, parsed.data);
+      const overrides = await storage.getRuleOverrides(website.id);
+      res.json(ruleRegistry.describe(overrides).find(rule => rule.id === req.params.ruleId));
+    } catch (err) {
+      console.error("PUT /api/websites/:id/rules/:ruleId error:", err);
+      res.status(500).json({ message: "Update error" });
+    }
+  });
+
+  // Resets a rule to its defaults
+  app.delete("/api/websites/:id/rules/:ruleId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      await storage.deleteRuleOverride(website.id, req.params.ruleId);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("DELETE /api/websites/:id/rules/:ruleId error:", err);
+      res.status(500).json({ message: "Löschfehler" });
+    }
+  });
+
+  app.get("/api/websites/:id/keywords", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      res.json(await storage.getTargetKeywords(website.id));
+    } catch (err) {
+      console.error("GET /api/websites/:id/keywords error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  // Phrases from the latest audit that are not target keywords yet
+  app.get("/api/websites/:id/keywords/suggestions", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const [keywords, suggestions] = await Promise.all([
+        storage.getTargetKeywords(website.id),
+        storage.getKeywordSuggestions(website.id),
+      ]);
+      const existing = new Set(keywords.map(keyword => keyword.keyword.toLowerCase()));
+      res.json(suggestions.filter(suggestion => !existing.has(suggestion.keyword)));
+    } catch (err) {
+      console.error("GET /api/websites/:id/keywords/suggestions error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  app.post("/api/websites/:id/keywords", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const parsed = targetKeywordInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid data" });
+      }
+
+      const keyword = parsed.data.keyword.toLowerCase();
+      const pageUrl = parsed.data.pageUrl || null;
+      const pageUrlKey = pageUrl ? getUrlKey(pageUrl) : null;
+      const keywords = await storage.getTargetKeywords(website.id);
+      if (keywords.some(existing => existing.keyword === keyword && existing.pageUrlKey === pageUrlKey)) {
+        return res.status(400).json({ message: "Keyword ist bereits hinterlegt" });
+      }
+
+      res.json(await storage.createTargetKeyword({ websiteId: website.id, keyword, pageUrl, pageUrlKey }));
+    } catch (err) {
+      console.error("POST /api/websites/:id/keywords error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  app.delete("/api/websites/:id/keywords/:keywordId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const website = await storage.getWebsite(req.params.id);
+
+      if (!website) {
+        return res.status(404).json({ message: "Website nicht gefunden" });
+      }
+
+      if (website.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      await storage.deleteTargetKeyword(website.id, req.params.keywordId);
+      res.json({ success: true });
+    } catch (err) {
+      console.error("DELETE /api/websites/:id/keywords/:keywordId error:", err);
+      res.status(500).json({ message: "Löschfehler" });
+    }
+  });
+
   app.delete("/api/websites/:id", isAuthenticated, async (req, res) => {
     try {
       const userId = (req.user as any)?.claims?.sub;
@@ -223,6 +554,101 @@ export async function registerRoutes(server: Server, app: Express) {
     }
   });
 
+  app.get("/api/audits/:id/pages", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const audit = await storage.getAudit(req.params.id);
+      if (!audit) {
+        return res.status(404).json({ message: "Audit nicht gefunden" });
+      }
+
+      if (audit.website?.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const url = typeof req.query.url === "string" ? req.query.url : undefined;
+      if (!url) {
+        return res.json(await storage.getPages(audit.id));
+      }
+
+      const urlKey = getUrlKey(url);
+      const page = await storage.getPage(audit.id, urlKey);
+      if (!page) {
+        return res.status(404).json({ message: "Seite nicht gefunden" });
+      }
+      const links = await storage.getLinkEdges(audit.id, urlKey);
+      const result: PageWithLinks = { ...page, ...links };
+      res.json(result);
+    } catch (err) {
+      console.error("GET /api/audits/:id/pages error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  app.get("/api/audits/:id/outline", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const audit = await storage.getAudit(req.params.id);
+      if (!audit) {
+        return res.status(404).json({ message: "Audit nicht gefunden" });
+      }
+
+      if (audit.website?.userId !== userId) {
+        return res.status(403).json({ message: "Keine Berechtigung" });
+      }
+
+      const url = typeof req.query.url === "string" ? req.query.url : undefined;
+      if (!url) {
+        return res.status(400).json({ message: "URL required" });
+      }
+
+      const page = await storage.getPage(audit.id, getUrlKey(url));
+      if (!page) {
+        return res.status(404).json({ message: "Seite nicht gefunden" });
+      }
+
+      // Highlight with the thresholds the website's audits use
+      const overrides = await storage.getRuleOverrides(audit.websiteId);
+      const thresholds = ruleRegistry.getThresholds(headingHierarchyRule.id, overrides);
+      const outline: HeadingOutline = {
+        url: page.url,
+        nodes: buildHeadingOutline(page.headings || [], {
+          maxLength: thresholds.maxLength,
+          maxRepeats: thresholds.maxRepeats,
+        }),
+      };
+      res.json(outline);
+    } catch (err) {
+      console.error("GET /api/audits/:id/outline error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
+  app.get("/api/audits/:id/page-weights", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.claims?.sub;
+      const audit = await storage.getAudit(req.params.id);
+      if (!audit || audit.website?.userId !== userId) {
+        return res.status(404).json({ message: "Audit nicht gefunden" });
+      }
+
+      const stored = await storage.getPages(audit.id);
+      // Audits from before the pages table only have the crawlData blob
+      const pages: { url: string; pageWeight?: PageWeight | null }[] = stored.length > 0
+        ? stored
+        : (audit.crawlData as { url: string; pageWeight?: PageWeight }[] | null) || [];
+      const weights: PageWeightEntry[] = pages
+        .filter(page => page.pageWeight)
+        .map(page => ({ url: page.url, weight: page.pageWeight! }))
+        .sort((a, b) => b.weight.total - a.weight.total);
+
+      res.json(weights);
+    } catch (err) {
+      console.error("GET /api/audits/:id/page-weights error:", err);
+      res.status(500).json({ message: "Internal error" });
+    }
+  });
+
   app.get("/api/audits/:id/report", isAuthenticated, async (req, res) => {
     try {
       const audit = await storage.getAudit(req.params.id);
@@ -249,6 +675,9 @@ export async function registerRoutes(server: Server, app: Express) {
         topIssues,
         allIssues: issues,
         imageStats: null,
+        sitemapCoverage: (audit.sitemapData as SitemapCoverage | null) ?? null,
+        linkCheck: (audit.linkCheckData as LinkCheckSummary | null) ?? null,
+        canonicalReport: (audit.canonicalData as CanonicalReport | null) ?? null,
       };
       
       res.json(report);
@@ -7,6 +7,13 @@ import {
   agentLogs,
   agentMemory,
   drafts,
+  websiteCredentials,
+  ruleOverrides,
+  targetKeywords,
+  pages,
+  linkEdges,
+  crawlFrontier,
+  crawlPages,
   type User,
   type UpsertUser,
   type Website,
@@ -24,9 +31,24 @@ import {
   type Draft,
   type InsertDraft,
   type DraftStatus,
+  type WebsiteCredentialsRow,
+  type RuleOverride,
+  type RuleOverrideInput,
+  type TargetKeyword,
+  type InsertTargetKeyword,
+  type KeywordSuggestion,
+  type Page,
+  type InsertPage,
+  type PageHistoryEntry,
+  type PageFingerprint,
+  type LinkEdge,
+  type InsertLinkEdge,
+  type CrawlFrontierEntry,
+  type CrawlFrontierStatus,
+  type CrawlPageRecord,
 } from "@shared/schema";
 import { db, isDatabaseConfigured } from "./db";
-import { eq, desc, and, inArray, sql } from "drizzle-orm";
+import { eq, ne, desc, and, inArray, isNotNull, sql } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -39,6 +61,22 @@ export interface IStorage {
   createWebsite(website: InsertWebsite): Promise<Website>;
   updateWebsite(id: string, data: Partial<Website>): Promise<Website | undefined>;
   deleteWebsite(id: string): Promise<void>;
+
+  // Crawl credentials (stored encrypted)
+  getWebsiteCredentials(websiteId: string): Promise<WebsiteCredentialsRow | undefined>;
+  setWebsiteCredentials(websiteId: string, encryptedData: string): Promise<WebsiteCredentialsRow>;
+  deleteWebsiteCredentials(websiteId: string): Promise<void>;
+
+  // Analyzer rule configuration
+  getRuleOverrides(websiteId: string): Promise<RuleOverride[]>;
+  upsertRuleOverride(websiteId: string, ruleId: string, override: RuleOverrideInput): Promise<RuleOverride>;
+  deleteRuleOverride(websiteId: string, ruleId: string): Promise<void>;
+
+  // Target keywords
+  getTargetKeywords(websiteId: string): Promise<TargetKeyword[]>;
+  createTargetKeyword(keyword: InsertTargetKeyword): Promise<TargetKeyword>;
+  deleteTargetKeyword(websiteId: string, id: string): Promise<void>;
+  getKeywordSuggestions(websiteId: string): Promise<KeywordSuggestion[]>;
   
   // Audit operations
   getAllUserAudits(userId: string): Promise<Audit[]>;
@@ -47,6 +85,28 @@ export interface IStorage {
   getRecentAudits(userId: string, limit?: number): Promise<Audit[]>;
   createAudit(audit: InsertAudit): Promise<Audit>;
   updateAudit(id: string, data: Partial<Audit>): Promise<Audit | undefined>;
+  getUnfinishedAudits(): Promise<Audit[]>;
+
+  // Page operations
+  createPages(pages: InsertPage[]): Promise<void>;
+  getPages(auditId: string): Promise<Page[]>;
+  getPage(auditId: string, urlKey: string): Promise<Page | undefined>;
+  getPageHistory(websiteId: string, urlKey: string): Promise<PageHistoryEntry[]>;
+  getPreviousFingerprints(websiteId: string, auditId: string): Promise<PageFingerprint[]>;
+  createLinkEdges(edges: InsertLinkEdge[]): Promise<void>;
+  getLinkEdges(auditId: string, urlKey: string): Promise<{ inbound: LinkEdge[]; outbound: LinkEdge[] }>;
+
+  // Crawl state (lets an interrupted crawl resume)
+  getCrawlFrontier(auditId: string): Promise<CrawlFrontierEntry[]>;
+  getCrawlPages(auditId: string): Promise<CrawlPageRecord[]>;
+  addCrawlFrontierEntries(auditId: string, entries: { url: string; urlKey: string; depth: number }[]): Promise<void>;
+  completeCrawlVisit(
+    auditId: string,
+    entries: { url: string; urlKey: string; depth: number }[],
+    status: CrawlFrontierStatus,
+    pages: { urlKey: string; data: unknown }[]
+  ): Promise<void>;
+  deleteCrawlState(auditId: string): Promise<void>;
   
   // Issue operations
   getIssues(auditId: string): Promise<Issue[]>;
@@ -189,10 +249,97 @@ export class DatabaseStorage implements IStorage {
   async deleteWebsite(id: string): Promise<void> {
     await db.delete(agentLogs).where(eq(agentLogs.websiteId, id));
     await db.delete(drafts).where(eq(drafts.websiteId, id));
+    await this.deleteWebsiteCredentials(id);
     
     await db.update(websites).set({ isActive: false, updatedAt: new Date() }).where(eq(websites.id, id));
   }
 
+  async getWebsiteCredentials(websiteId: string): Promise<WebsiteCredentialsRow | undefined> {
+    const [row] = await db.select().from(websiteCredentials).where(eq(websiteCredentials.websiteId, websiteId));
+    return row;
+  }
+
+  async setWebsiteCredentials(websiteId: string, encryptedData: string): Promise<WebsiteCredentialsRow> {
+    const [row] = await db
+      .insert(websiteCredentials)
+      .values({ websiteId, encryptedData })
+      .onConflictDoUpdate({
+        target: websiteCredentials.websiteId,
+        set: { encryptedData, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async deleteWebsiteCredentials(websiteId: string): Promise<void> {
+    await db.delete(websiteCredentials).where(eq(websiteCredentials.websiteId, websiteId));
+  }
+
+  async getRuleOverrides(websiteId: string): Promise<RuleOverride[]> {
+    return db.select().from(ruleOverrides).where(eq(ruleOverrides.websiteId, websiteId));
+  }
+
+  async upsertRuleOverride(websiteId: string, ruleId: string, override: RuleOverrideInput): Promise<RuleOverride> {
+    const values = {
+      enabled: override.enabled ?? true,
+      severity: override.severity ?? null,
+      thresholds: override.thresholds ?? null,
+    };
+    const [row] = await db
+      .insert(ruleOverrides)
+      .values({ websiteId, ruleId, ...values })
+      .onConflictDoUpdate({
+        target: [ruleOverrides.websiteId, ruleOverrides.ruleId],
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async deleteRuleOverride(websiteId: string, ruleId: string): Promise<void> {
+    await db
+      .delete(ruleOverrides)
+      .where(and(eq(ruleOverrides.websiteId, websiteId), eq(ruleOverrides.ruleId, ruleId)));
+  }
+
+  async getTargetKeywords(websiteId: string): Promise<TargetKeyword[]> {
+    return db
+      .select()
+      .from(targetKeywords)
+      .where(eq(targetKeywords.websiteId, websiteId))
+      .orderBy(targetKeywords.createdAt);
+  }
+
+  async createTargetKeyword(keyword: InsertTargetKeyword): Promise<TargetKeyword> {
+    const [row] = await db.insert(targetKeywords).values(keyword).returning();
+    return row;
+  }
+
+  async deleteTargetKeyword(websiteId: string, id: string): Promise<void> {
+    await db
+      .delete(targetKeywords)
+      .where(and(eq(targetKeywords.websiteId, websiteId), eq(targetKeywords.id, id)));
+  }
+
+  // Suggestions stored with the pages of the website's latest audit
+  async getKeywordSuggestions(websiteId: string): Promise<KeywordSuggestion[]> {
+    const [latest] = await db
+      .select({ auditId: pages.auditId })
+      .from(pages)
+      .innerJoin(audits, eq(pages.auditId, audits.id))
+      .where(eq(pages.websiteId, websiteId))
+      .orderBy(desc(audits.createdAt))
+      .limit(1);
+    if (!latest) return [];
+
+    const rows = await db
+      .select({ url: pages.url, suggestedKeywords: pages.suggestedKeywords })
+      .from(pages)
+      .where(and(eq(pages.auditId, latest.auditId), isNotNull(pages.suggestedKeywords)))
+      .orderBy(pages.depth);
+    return rows.flatMap(row => (row.suggestedKeywords || []).map(keyword => ({ keyword, pageUrl: row.url })));
+  }
+
   async updateLastFreeAuditAt(userId: string): Promise<void> {
     await db
       .update(users)
@@ -273,6 +420,129 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getUnfinishedAudits(): Promise<Audit[]> {
+    return db
+      .select()
+      .from(audits)
+      .where(inArray(audits.status, ["queued", "crawling", "analyzing", "scoring"]));
+  }
+
+  // Page operations
+  async createPages(rows: InsertPage[]): Promise<void> {
+    // Stay well below Postgres' bind parameter limit on large crawls
+    for (let i = 0; i < rows.length; i += 500) {
+      // A resumed audit may already have stored its pages
+      await db.insert(pages).values(rows.slice(i, i + 500)).onConflictDoNothing();
+    }
+  }
+
+  async getPages(auditId: string): Promise<Page[]> {
+    return db.select().from(pages).where(eq(pages.auditId, auditId)).orderBy(pages.url);
+  }
+
+  async getPage(auditId: string, urlKey: string): Promise<Page | undefined> {
+    const [page] = await db
+      .select()
+      .from(pages)
+      .where(and(eq(pages.auditId, auditId), eq(pages.urlKey, urlKey)));
+    return page;
+  }
+
+  async getPageHistory(websiteId: string, urlKey: string): Promise<PageHistoryEntry[]> {
+    const rows = await db
+      .select({ page: pages, auditCreatedAt: audits.createdAt })
+      .from(pages)
+      .innerJoin(audits, eq(pages.auditId, audits.id))
+      .where(and(eq(pages.websiteId, websiteId), eq(pages.urlKey, urlKey)))
+      .orderBy(desc(audits.createdAt));
+    return rows.map(row => ({ ...row.page, auditCreatedAt: row.auditCreatedAt }));
+  }
+
+  // Content fingerprints from the latest other audit of the website that stored pages
+  async getPreviousFingerprints(websiteId: string, auditId: string): Promise<PageFingerprint[]> {
+    const [previous] = await db
+      .select({ auditId: pages.auditId })
+      .from(pages)
+      .innerJoin(audits, eq(pages.auditId, audits.id))
+      .where(and(eq(pages.websiteId, websiteId), ne(pages.auditId, auditId)))
+      .orderBy(desc(audits.createdAt))
+      .limit(1);
+    if (!previous) return [];
+
+    return db
+      .select({ url: pages.url, urlKey: pages.urlKey, contentFingerprint: pages.contentFingerprint })
+      .from(pages)
+      .where(and(eq(pages.auditId, previous.auditId), isNotNull(pages.contentFingerprint)));
+  }
+
+  async createLinkEdges(rows: InsertLinkEdge[]): Promise<void> {
+    for (let i = 0; i < rows.length; i += 500) {
+      await db.insert(linkEdges).values(rows.slice(i, i + 500));
+    }
+  }
+
+  async getLinkEdges(auditId: string, urlKey: string): Promise<{ inbound: LinkEdge[]; outbound: LinkEdge[] }> {
+    const [inbound, outbound] = await Promise.all([
+      db.select().from(linkEdges)
+        .where(and(eq(linkEdges.auditId, auditId), eq(linkEdges.targetKey, urlKey)))
+        .orderBy(linkEdges.sourceUrl),
+      db.select().from(linkEdges)
+        .where(and(eq(linkEdges.auditId, auditId), eq(linkEdges.sourceKey, urlKey)))
+        .orderBy(linkEdges.targetUrl),
+    ]);
+    return { inbound, outbound };
+  }
+
+  // Crawl state operations
+  async getCrawlFrontier(auditId: string): Promise<CrawlFrontierEntry[]> {
+    return db
+      .select()
+      .from(crawlFrontier)
+      .where(eq(crawlFrontier.auditId, auditId))
+      .orderBy(crawlFrontier.createdAt);
+  }
+
+  async getCrawlPages(auditId: string): Promise<CrawlPageRecord[]> {
+    return db
+      .select()
+      .from(crawlPages)
+      .where(eq(crawlPages.auditId, auditId))
+      .orderBy(crawlPages.createdAt);
+  }
+
+  async addCrawlFrontierEntries(auditId: string, entries: { url: string; urlKey: string; depth: number }[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db
+      .insert(crawlFrontier)
+      .values(entries.map(entry => ({ ...entry, auditId })))
+      .onConflictDoNothing();
+  }
+
+  async completeCrawlVisit(
+    auditId: string,
+    entries: { url: string; urlKey: string; depth: number }[],
+    status: CrawlFrontierStatus,
+    pages: { urlKey: string; data: unknown }[]
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (pages.length > 0) {
+        await tx.insert(crawlPages).values(pages.map(page => ({ ...page, auditId })));
+      }
+      await tx
+        .insert(crawlFrontier)
+        .values(entries.map(entry => ({ ...entry, auditId, status })))
+        .onConflictDoUpdate({
+          target: [crawlFrontier.auditId, crawlFrontier.urlKey],
+          set: { status, updatedAt: new Date() },
+        });
+    });
+  }
+
+  async deleteCrawlState(auditId: string): Promise<void> {
+    await db.delete(crawlPages).where(eq(crawlPages.auditId, auditId));
+    await db.delete(crawlFrontier).where(eq(crawlFrontier.auditId, auditId));
+  }
+
   // Issue operations
   async getIssues(auditId: string): Promise<Issue[]> {
     return db.select().from(issues).where(eq(issues.auditId, auditId)).orderBy(desc(issues.createdAt));
@@ -517,6 +787,46 @@ class DisabledStorage implements IStorage {
     return this.fail();
   }
 
+  getWebsiteCredentials(): Promise<WebsiteCredentialsRow | undefined> {
+    return this.fail();
+  }
+
+  setWebsiteCredentials(): Promise<WebsiteCredentialsRow> {
+    return this.fail();
+  }
+
+  deleteWebsiteCredentials(): Promise<void> {
+    return this.fail();
+  }
+
+  getRuleOverrides(): Promise<RuleOverride[]> {
+    return this.fail();
+  }
+
+  upsertRuleOverride(): Promise<RuleOverride> {
+    return this.fail();
+  }
+
+  deleteRuleOverride(): Promise<void> {
+    return this.fail();
+  }
+
+  getTargetKeywords(): Promise<TargetKeyword[]> {
+    return this.fail();
+  }
+
+  createTargetKeyword(): Promise<TargetKeyword> {
+    return this.fail();
+  }
+
+  deleteTargetKeyword(): Promise<void> {
+    return this.fail();
+  }
+
+  getKeywordSuggestions(): Promise<KeywordSuggestion[]> {
+    return this.fail();
+  }
+
   getAllUserAudits(): Promise<Audit[]> {
     return this.fail();
   }
@@ -541,6 +851,58 @@ class DisabledStorage implements IStorage {
     return this.fail();
   }
 
+  getUnfinishedAudits(): Promise<Audit[]> {
+    return this.fail();
+  }
+
+  createPages(): Promise<void> {
+    return this.fail();
+  }
+
+  getPages(): Promise<Page[]> {
+    return this.fail();
+  }
+
+  getPage(): Promise<Page | undefined> {
+    return this.fail();
+  }
+
+  getPageHistory(): Promise<PageHistoryEntry[]> {
+    return this.fail();
+  }
+
+  getPreviousFingerprints(): Promise<PageFingerprint[]> {
+    return this.fail();
+  }
+
+  createLinkEdges(): Promise<void> {
+    return this.fail();
+  }
+
+  getLinkEdges(): Promise<{ inbound: LinkEdge[]; outbound: LinkEdge[] }> {
+    return this.fail();
+  }
+
+  getCrawlFrontier(): Promise<CrawlFrontierEntry[]> {
+    return this.fail();
+  }
+
+  getCrawlPages(): Promise<CrawlPageRecord[]> {
+    return this.fail();
+  }
+
+  addCrawlFrontierEntries(): Promise<void> {
+    return this.fail();
+  }
+
+  completeCrawlVisit(): Promise<void> {
+    return this.fail();
+  }
+
+  deleteCrawlState(): Promise<void> {
+    return this.fail();
+  }
+
   getIssues(): Promise<Issue[]> {
     return this.fail();
   }
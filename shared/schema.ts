@@ -1,6 +1,7 @@
 import { sql, relations } from "drizzle-orm";
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -25,7 +26,7 @@ export const subscriptionStatusEnum = pgEnum("subscription_status", ["active", "
 export const fixVariantEnum = pgEnum("fix_variant", ["safe", "recommended", "aggressive"]);
 export const optimizationModeEnum = pgEnum("optimization_mode", ["safe", "balanced", "aggressive"]);
 export const draftStatusEnum = pgEnum("draft_status", ["pending", "approved", "rejected", "applied", "expired"]);
-export const draftTypeEnum = pgEnum("draft_type", ["title", "meta_description", "heading", "keyword", "internal_link", "content", "image", "html_rewrite"]);
+export const draftTypeEnum = pgEnum("draft_type", ["title", "meta_description", "heading", "keyword", "internal_link", "content", "image", "html_rewrite", "structured_data", "social_tags"]);
 
 // Session storage table (IMPORTANT: Required for Replit Auth)
 export const sessions = pgTable(
@@ -71,6 +72,11 @@ export const websites = pgTable("websites", {
   isActive: boolean("is_active").default(true),
   optimizationMode: optimizationModeEnum("optimization_mode").default("balanced"),
   autoApplyEnabled: boolean("auto_apply_enabled").default(false),
+  crawlScope: jsonb("crawl_scope").$type<CrawlScope>(),
+  // Re-fetch every page with a smartphone user agent and compare it to the desktop version
+  mobileParityEnabled: boolean("mobile_parity_enabled").default(false),
+  // Percent of shared main content from which pages count as near-duplicates
+  nearDuplicateThreshold: integer("near_duplicate_threshold").default(90),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -91,7 +97,12 @@ export const audits = pgTable("audits", {
   scoreBefore: integer("score_before"),
   scoreAfter: integer("score_after"),
   pagesScanned: integer("pages_scanned").default(0),
+  // Legacy per-audit page dump; audits now write one row per URL to the pages table
   crawlData: jsonb("crawl_data"),
+  sitemapData: jsonb("sitemap_data"),
+  linkCheckData: jsonb("link_check_data"),
+  canonicalData: jsonb("canonical_data"),
+  crawlStats: jsonb("crawl_stats"),
   optimizationMode: optimizationModeEnum("optimization_mode").default("balanced"),
   draftsGenerated: integer("drafts_generated").default(0),
   draftsApplied: integer("drafts_applied").default(0),
@@ -128,6 +139,11 @@ export const issues = pgTable("issues", {
   confidenceScore: integer("confidence_score"),
   impactScore: integer("impact_score"),
   autoFixable: boolean("auto_fixable").default(false),
+  // Set for issues found by a registered analyzer rule
+  ruleId: text("rule_id"),
+  ruleVersion: integer("rule_version"),
+  // Every page of a site-wide issue such as a title shared by several pages
+  affectedUrls: text("affected_urls").array(),
   fixedAt: timestamp("fixed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -198,6 +214,129 @@ export const drafts = pgTable("drafts", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Crawl credentials table (encrypted; kept apart from websites so they never reach API responses)
+export const websiteCredentials = pgTable("website_credentials", {
+  websiteId: varchar("website_id").primaryKey().references(() => websites.id),
+  encryptedData: text("encrypted_data").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Per-website adjustments to the analyzer rules; rules without a row use their defaults
+export const ruleOverrides = pgTable(
+  "rule_overrides",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    websiteId: varchar("website_id").notNull().references(() => websites.id),
+    ruleId: text("rule_id").notNull(),
+    enabled: boolean("enabled").default(true),
+    severity: severityEnum("severity"),
+    thresholds: jsonb("thresholds").$type<Record<string, number>>(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_rule_overrides_website_rule").on(table.websiteId, table.ruleId)]
+);
+
+// Keywords a website wants to rank for; pageUrl null means the keyword targets the whole site
+export const targetKeywords = pgTable(
+  "target_keywords",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    websiteId: varchar("website_id").notNull().references(() => websites.id),
+    keyword: text("keyword").notNull(),
+    pageUrl: text("page_url"),
+    pageUrlKey: text("page_url_key"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_target_keywords_website").on(table.websiteId)]
+);
+
+// One row per crawled URL and audit, so a page can be compared across audits
+export const pages = pgTable(
+  "pages",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    auditId: varchar("audit_id").notNull().references(() => audits.id),
+    websiteId: varchar("website_id").notNull().references(() => websites.id),
+    url: text("url").notNull(),
+    urlKey: text("url_key").notNull(),
+    statusCode: integer("status_code"),
+    title: text("title"),
+    metaDescription: text("meta_description"),
+    headings: jsonb("headings").$type<{ level: number; text: string }[]>(),
+    wordCount: integer("word_count"),
+    loadTime: integer("load_time"),
+    contentHash: varchar("content_hash"),
+    contentFingerprint: text("content_fingerprint"),
+    depth: integer("depth"),
+    // Clicks from the homepage along followed links; null when no crawled link leads here
+    clickDepth: integer("click_depth"),
+    // Followed internal links from distinct pages
+    inboundLinks: integer("inbound_links").default(0),
+    outboundLinks: integer("outbound_links").default(0),
+    // Internal PageRank, 100 for the strongest page of the audit
+    pageRank: real("page_rank"),
+    pageWeight: jsonb("page_weight").$type<PageWeight>(),
+    social: jsonb("social").$type<SocialTags>(),
+    // Phrases the page text focuses on, offered as target keywords
+    suggestedKeywords: text("suggested_keywords").array(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_pages_audit_url").on(table.auditId, table.urlKey),
+    index("IDX_pages_website_url").on(table.websiteId, table.urlKey),
+  ]
+);
+
+// Internal links between crawled pages, one row per source, target and anchor text
+export const linkEdges = pgTable(
+  "link_edges",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    auditId: varchar("audit_id").notNull().references(() => audits.id),
+    sourceUrl: text("source_url").notNull(),
+    sourceKey: text("source_key").notNull(),
+    targetUrl: text("target_url").notNull(),
+    // Redirects are resolved, so the key points at the page that was actually reached
+    targetKey: text("target_key").notNull(),
+    anchorText: text("anchor_text"),
+    nofollow: boolean("nofollow").default(false),
+  },
+  (table) => [
+    index("IDX_link_edges_source").on(table.auditId, table.sourceKey),
+    index("IDX_link_edges_target").on(table.auditId, table.targetKey),
+  ]
+);
+
+// Crawl frontier and fetched pages per audit, so a crawl interrupted by a restart can resume
+export const crawlFrontier = pgTable(
+  "crawl_frontier",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    auditId: varchar("audit_id").notNull().references(() => audits.id),
+    urlKey: text("url_key").notNull(),
+    url: text("url").notNull(),
+    depth: integer("depth").notNull().default(0),
+    status: text("status").$type<CrawlFrontierStatus>().notNull().default("pending"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_crawl_frontier_audit_url").on(table.auditId, table.urlKey)]
+);
+
+export const crawlPages = pgTable(
+  "crawl_pages",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    auditId: varchar("audit_id").notNull().references(() => audits.id),
+    urlKey: text("url_key").notNull(),
+    data: jsonb("data").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_crawl_pages_audit").on(table.auditId)]
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   websites: many(websites),
@@ -224,6 +363,26 @@ export const auditsRelations = relations(audits, ({ one, many }) => ({
   issues: many(issues),
   agentLogs: many(agentLogs),
   drafts: many(drafts),
+  pages: many(pages),
+  linkEdges: many(linkEdges),
+}));
+
+export const pagesRelations = relations(pages, ({ one }) => ({
+  audit: one(audits, {
+    fields: [pages.auditId],
+    references: [audits.id],
+  }),
+  website: one(websites, {
+    fields: [pages.websiteId],
+    references: [websites.id],
+  }),
+}));
+
+export const linkEdgesRelations = relations(linkEdges, ({ one }) => ({
+  audit: one(audits, {
+    fields: [linkEdges.auditId],
+    references: [audits.id],
+  }),
 }));
 
 export const issuesRelations = relations(issues, ({ one, many }) => ({
@@ -283,9 +442,111 @@ export const draftsRelations = relations(drafts, ({ one }) => ({
   }),
 }));
 
+// Crawl scope settings (stored per website)
+// Path patterns are globs ("/blog/**") unless prefixed with "regex:"
+const scopePatternSchema = z.string().trim().min(1).refine(pattern => {
+  if (!pattern.startsWith("regex:")) return true;
+  try {
+    new RegExp(pattern.slice("regex:".length));
+    return true;
+  } catch {
+    return false;
+  }
+}, "Ungültiger regulärer Ausdruck");
+
+export const crawlScopeSchema = z.object({
+  includePatterns: z.array(scopePatternSchema).max(50).default([]),
+  excludePatterns: z.array(scopePatternSchema).max(50).default([]),
+  followSubdomains: z.boolean().default(false),
+  stripAllQueryParams: z.boolean().default(false),
+  stripQueryParams: z.array(z.string().min(1)).max(50).default([]),
+  keepQueryParams: z.array(z.string().min(1)).max(50).default([]),
+  maxDepth: z.number().int().min(0).max(50).nullable().default(null),
+  maxUrlLength: z.number().int().min(50).max(8192).default(2048),
+  // Deeper pagination pages are treated as a crawler trap
+  maxPaginationPage: z.number().int().min(1).max(10000).default(50),
+});
+
+export type CrawlScope = z.infer<typeof crawlScopeSchema>;
+
+export const DEFAULT_CRAWL_SCOPE: CrawlScope = crawlScopeSchema.parse({});
+
+export type Severity = (typeof severityEnum.enumValues)[number];
+
+export const ruleOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(severityEnum.enumValues).nullable().optional(),
+  thresholds: z.record(z.number().finite().min(0)).optional(),
+});
+
+export type RuleOverrideInput = z.infer<typeof ruleOverrideSchema>;
+
+export const targetKeywordInputSchema = z.object({
+  keyword: z.string().trim().min(2).max(100),
+  pageUrl: z.string().url().nullish(),
+});
+
+export type TargetKeywordInput = z.infer<typeof targetKeywordInputSchema>;
+
+export type RuleThresholdConfig = {
+  key: string;
+  label: string;
+  unit?: string;
+  defaultValue: number;
+  value: number;
+};
+
+// A registered rule with the overrides of one website applied
+export type RuleConfig = {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  category: string;
+  defaultSeverity: Severity;
+  severity: Severity | null;
+  enabled: boolean;
+  thresholds: RuleThresholdConfig[];
+  overridden: boolean;
+};
+
+// Crawl credentials for password-protected sites
+const headerPairSchema = z.object({
+  name: z.string().trim().min(1).regex(/^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/, "Ungültiger Header-Name"),
+  value: z.string().max(4096),
+});
+
+export const crawlCredentialsSchema = z.object({
+  basicAuth: z.object({
+    username: z.string().min(1).max(256),
+    password: z.string().max(1024),
+  }).nullish(),
+  headers: z.array(headerPairSchema).max(20).default([]),
+  loginForm: z.object({
+    url: z.string().url(),
+    fields: z.array(z.object({ name: z.string().min(1), value: z.string().max(1024) })).min(1).max(20),
+  }).nullish(),
+});
+
+export type CrawlCredentials = z.infer<typeof crawlCredentialsSchema>;
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertWebsiteSchema = createInsertSchema(websites).omit({ id: true, createdAt: true, updatedAt: true, lastAuditAt: true, healthScore: true });
+export const insertWebsiteSchema = createInsertSchema(websites)
+  .omit({ id: true, createdAt: true, updatedAt: true, lastAuditAt: true, healthScore: true })
+  .extend({
+    crawlScope: crawlScopeSchema.nullish(),
+    nearDuplicateThreshold: z.number().int().min(60).max(100).nullish(),
+  });
+export const updateWebsiteSchema = insertWebsiteSchema.pick({
+  name: true,
+  isActive: true,
+  optimizationMode: true,
+  autoApplyEnabled: true,
+  crawlScope: true,
+  mobileParityEnabled: true,
+  nearDuplicateThreshold: true,
+}).partial();
 export const insertAuditSchema = createInsertSchema(audits).omit({ id: true, createdAt: true });
 export const insertIssueSchema = createInsertSchema(issues).omit({ id: true, createdAt: true, fixedAt: true });
 export const insertChangeSchema = createInsertSchema(changes).omit({ id: true, createdAt: true, appliedAt: true, rolledBackAt: true });
@@ -297,6 +558,7 @@ export const insertDraftSchema = createInsertSchema(drafts).omit({ id: true, cre
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertWebsite = z.infer<typeof insertWebsiteSchema>;
+export type UpdateWebsite = z.infer<typeof updateWebsiteSchema>;
 export type Website = typeof websites.$inferSelect;
 export type InsertAudit = z.infer<typeof insertAuditSchema>;
 export type Audit = typeof audits.$inferSelect;
@@ -310,11 +572,24 @@ export type InsertAgentMemory = z.infer<typeof insertAgentMemorySchema>;
 export type AgentMemory = typeof agentMemory.$inferSelect;
 export type InsertDraft = z.infer<typeof insertDraftSchema>;
 export type Draft = typeof drafts.$inferSelect;
+export type WebsiteCredentialsRow = typeof websiteCredentials.$inferSelect;
+// Pages are only written by the orchestrator, so there is no zod insert schema
+export type InsertPage = typeof pages.$inferInsert;
+export type Page = typeof pages.$inferSelect;
+export type RuleOverride = typeof ruleOverrides.$inferSelect;
+export type TargetKeyword = typeof targetKeywords.$inferSelect;
+export type InsertTargetKeyword = typeof targetKeywords.$inferInsert;
+export type InsertLinkEdge = typeof linkEdges.$inferInsert;
+export type LinkEdge = typeof linkEdges.$inferSelect;
+export type CrawlFrontierEntry = typeof crawlFrontier.$inferSelect;
+export type CrawlPageRecord = typeof crawlPages.$inferSelect;
+// "fetched" counts against the page budget, "skipped" (robots.txt) does not
+export type CrawlFrontierStatus = "pending" | "fetched" | "skipped";
 
 // Optimization mode types
 export type OptimizationMode = "safe" | "balanced" | "aggressive";
 export type DraftStatus = "pending" | "approved" | "rejected" | "applied" | "expired";
-export type DraftType = "title" | "meta_description" | "heading" | "keyword" | "internal_link" | "content" | "image" | "html_rewrite";
+export type DraftType = "title" | "meta_description" | "heading" | "keyword" | "internal_link" | "content" | "image" | "html_rewrite" | "structured_data" | "social_tags";
 
 // API response types
 export type WebsiteWithStats = Website & {
@@ -337,6 +612,190 @@ export type DraftWithDetails = Draft & {
   audit?: Audit;
 };
 
+export type CrawlStats = {
+  pagesCrawled: number;
+  pagesSkipped: number;
+  errors: number;
+  bytesDownloaded: number;
+  durationMs: number;
+  pagesPerSecond: number;
+  concurrency: number;
+  pageBudget: number;
+  budgetExhausted: boolean;
+  timedOut: boolean;
+};
+
+export type CrawlTrapKind =
+  | "session_id"
+  | "repeating_path"
+  | "infinite_pagination"
+  | "calendar"
+  | "faceted_navigation";
+
+export type CrawlTrap = {
+  kind: CrawlTrapKind;
+  pattern: string;
+  exampleUrls: string[];
+  sourcePages: string[];
+  blockedCount: number;
+  suggestedRule: string;
+};
+
+export type SitemapFileSummary = {
+  url: string;
+  source: "robots" | "default" | "index";
+  statusCode: number;
+  type: "index" | "urlset";
+  urlCount: number;
+  error?: string;
+};
+
+export type SitemapRedirect = {
+  url: string;
+  target: string;
+  targetStatusCode: number;
+};
+
+export type SitemapCoverage = {
+  sitemaps: SitemapFileSummary[];
+  sitemapUrlCount: number;
+  crawledUrlCount: number;
+  crawledInSitemap: number;
+  crawledNotInSitemap: string[];
+  sitemapNotCrawled: number;
+  // 4xx, 5xx and failed requests; redirects are listed separately
+  sitemapNon200: string[];
+  // Unset in audits stored before redirects were reported separately
+  sitemapRedirects?: SitemapRedirect[];
+  sitemapNoindex: string[];
+  sitemapCanonicalized: string[];
+};
+
+export type CanonicalClusterMember = {
+  url: string;
+  statusCode: number;
+  // Declared canonical, unset when missing or when several disagree
+  canonical?: string;
+  noindex: boolean;
+  inSitemap: boolean;
+};
+
+// How the URL a search engine will probably index was picked
+export type CanonicalSelection = "canonical" | "redirect_target" | "canonical_ignored";
+
+// Pages whose canonicals lead to the same URL
+export type CanonicalCluster = {
+  canonicalUrl: string;
+  // Null when no member of the cluster can be indexed
+  indexedUrl: string | null;
+  selection: CanonicalSelection;
+  members: CanonicalClusterMember[];
+};
+
+export type CanonicalReport = {
+  // 200 HTML pages and documents without noindex
+  indexablePages: number;
+  selfCanonical: number;
+  canonicalizedElsewhere: number;
+  missingCanonical: number;
+  conflictingCanonicals: number;
+  crossDomain: number;
+  // Only clusters of several pages or with a canonical pointing elsewhere
+  clusters: CanonicalCluster[];
+  clusterCount: number;
+};
+
+// Transfer sizes in bytes; images only cover the ones the crawler analyzed
+export type PageWeight = {
+  html: number;
+  scripts: number;
+  stylesheets: number;
+  fonts: number;
+  images: number;
+  iframes: number;
+  total: number;
+  requests: number;
+  renderBlocking: number;
+};
+
+export type SocialImage = {
+  url: string;
+  width?: number;
+  height?: number;
+  fileSize?: number;
+  format?: string;
+  // Set when the image could not be downloaded
+  error?: string;
+};
+
+// Tags link previews on social networks are built from
+export type SocialTags = {
+  openGraph: Record<string, string>;
+  twitterCard: Record<string, string>;
+  image?: SocialImage;
+};
+
+export type PageWeightEntry = {
+  url: string;
+  weight: PageWeight;
+};
+
+export type PageHistoryEntry = Page & {
+  auditCreatedAt: Date | null;
+};
+
+export type HeadingProblem = "skipped_level" | "empty" | "too_long" | "repeated";
+
+export type HeadingOutlineNode = {
+  level: number;
+  text: string;
+  // Level the heading should have so no level is skipped; null when it is right
+  suggestedLevel: number | null;
+  problems: HeadingProblem[];
+};
+
+export type HeadingOutline = {
+  url: string;
+  nodes: HeadingOutlineNode[];
+};
+
+export type PageFingerprint = Pick<Page, "url" | "urlKey" | "contentFingerprint">;
+
+export type KeywordSuggestion = {
+  keyword: string;
+  // Page of the latest audit whose text the phrase was extracted from
+  pageUrl: string;
+};
+
+export type PageWithLinks = Page & {
+  inbound: LinkEdge[];
+  outbound: LinkEdge[];
+};
+
+export type BrokenLinkSource = {
+  pageUrl: string;
+  anchorText: string;
+};
+
+export type BrokenLink = {
+  url: string;
+  // 0 when the request failed without a response (timeout, DNS, TLS)
+  statusCode: number;
+  error?: string;
+  internal: boolean;
+  sources: BrokenLinkSource[];
+};
+
+export type LinkCheckSummary = {
+  internalChecked: number;
+  externalChecked: number;
+  brokenInternal: number;
+  brokenExternal: number;
+  // Set when the target cap was hit and some links were not checked
+  truncated: boolean;
+  brokenLinks: BrokenLink[];
+};
+
 export type AuditReport = {
   mode: OptimizationMode;
   changesDrafted: boolean;
@@ -346,3 +805,12 @@ export type AuditReport = {
   draftsGenerated: number;
   draftsApplied: number;
 };
+
+// Describes stored crawl credentials without revealing any secret values
+export type CrawlCredentialsSummary = {
+  configured: boolean;
+  basicAuthUsername?: string;
+  headerNames: string[];
+  loginFormUrl?: string;
+  updatedAt?: string;
+};